@@ -0,0 +1,111 @@
+// Per-frame work of ZoneLayer and hit-testing on 50,000 synthetic zones, with and
+// without the spatial index. Run with `pnpm bench`.
+import { createSpatialIndex } from '@/utils/spatialIndex';
+import type { Bbox } from '@/utils/spatialIndex';
+import { simplifyZoneForZoom } from '@/utils/simplify';
+import { booleanPointInPolygon } from '@turf/turf';
+import { getZoneGeometry } from '@/utils/geometry';
+import type { Zone, LatLng, LngLat } from '@/types';
+
+const COLUMNS = 250;
+const ROWS = 200;
+const VERTICES = 24;
+
+// Wobbly cells tiling mainland France, about the size of small communes
+const WEST = -4.8;
+const SOUTH = 42.3;
+const CELL_WIDTH = 13 / COLUMNS;
+const CELL_HEIGHT = 8.8 / ROWS;
+
+const cell = (row: number, col: number): Zone => {
+  const cx = WEST + (col + 0.5) * CELL_WIDTH;
+  const cy = SOUTH + (row + 0.5) * CELL_HEIGHT;
+  const ring: LngLat[] = Array.from({ length: VERTICES }, (_, i) => {
+    const angle = (i / VERTICES) * 2 * Math.PI;
+    const wobble = 0.45 + 0.05 * Math.sin(angle * 5 + row + col);
+    return [cx + Math.cos(angle) * CELL_WIDTH * wobble, cy + Math.sin(angle) * CELL_HEIGHT * wobble];
+  });
+  return { id: `${row}-${col}`, name: `Cell ${row}-${col}`, coordinates: [[...ring, ring[0]]] };
+};
+
+const zones = Array.from({ length: ROWS * COLUMNS }, (_, i) => cell(Math.floor(i / COLUMNS), i % COLUMNS));
+
+// A city-level view of Paris at zoom 12, with ZoneLayer's default half-view margin
+const ZOOM = 12;
+const view: Bbox = [2.17, 48.78, 2.52, 48.94];
+const [west, south, east, north] = view;
+const padded: Bbox = [
+  west - (east - west) / 2,
+  south - (north - south) / 2,
+  east + (east - west) / 2,
+  north + (north - south) / 2
+];
+
+// `prepare` runs before each timed run, outside the timing
+const median = (run: () => void, repeats: number, prepare?: () => void) => {
+  const times = Array.from({ length: repeats }, () => {
+    prepare?.();
+    const start = performance.now();
+    run();
+    return performance.now() - start;
+  });
+  return times.sort((a, b) => a - b)[Math.floor(repeats / 2)];
+};
+
+const points: LatLng[] = Array.from({ length: 1000 }, (_, i) => [
+  SOUTH + ((i * 7919) % 1000) / 1000 * 8.8,
+  WEST + ((i * 104729) % 1000) / 1000 * 13
+]);
+
+// Simplified geometry is cached per zone object: copies start cold
+const copyZones = () => zones.map(zone => ({ ...zone }));
+
+const linearZoneAt = ([lat, lng]: LatLng) =>
+  zones.find(zone => booleanPointInPolygon([lng, lat], getZoneGeometry(zone)));
+
+describe(`spatial index on ${zones.length} zones`, () => {
+  it('should cut the work per frame', () => {
+    let index = createSpatialIndex(zones);
+    const build = median(() => { index = createSpatialIndex(zones); }, 3);
+
+    // Before: every zone simplified and handed to Leaflet on each zoom. Cold is the first
+    // frame at a zoom level; warm is a later one, with the simplified geometry cached.
+    let batch = zones;
+    const allZonesCold = median(
+      () => batch.forEach(zone => simplifyZoneForZoom(zone, ZOOM)),
+      3,
+      () => { batch = copyZones(); }
+    );
+    zones.forEach(zone => simplifyZoneForZoom(zone, ZOOM));
+    const allZonesWarm = median(() => zones.forEach(zone => simplifyZoneForZoom(zone, ZOOM)), 3);
+
+    // After: only zones near the view
+    let drawn = 0;
+    const drawCulled = (from: typeof index) => {
+      const visible = from.search(padded);
+      visible.forEach(zone => simplifyZoneForZoom(zone, ZOOM));
+      drawn = visible.length;
+    };
+    let coldIndex = index;
+    const culledCold = median(() => drawCulled(coldIndex), 5, () => { coldIndex = createSpatialIndex(copyZones()); });
+    const culledWarm = median(() => drawCulled(index), 15);
+
+    const linearHits = median(() => points.slice(0, 50).forEach(linearZoneAt), 3) / 50;
+    const indexedHits = median(() => points.forEach(point => index.zoneAt(point)), 5) / points.length;
+
+    console.table({
+      'index build (ms)': build,
+      'frame, all zones, cold (ms)': allZonesCold,
+      'frame, all zones, warm (ms)': allZonesWarm,
+      [`frame, culled to ${drawn} zones, cold (ms)`]: culledCold,
+      [`frame, culled to ${drawn} zones, warm (ms)`]: culledWarm,
+      'hit-test, linear scan (ms)': linearHits,
+      'hit-test, indexed (ms)': indexedHits
+    });
+
+    expect(drawn).toBeLessThan(zones.length / 100);
+    expect(culledCold).toBeLessThan(allZonesCold);
+    expect(culledWarm).toBeLessThan(allZonesWarm);
+    expect(indexedHits).toBeLessThan(linearHits);
+  });
+});
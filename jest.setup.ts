@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import '@testing-library/jest-dom';
+import { TextDecoder, TextEncoder } from 'util';
 
 // Mock window.matchMedia
 Object.defineProperty(window, 'matchMedia', {
@@ -17,6 +18,9 @@ Object.defineProperty(window, 'matchMedia', {
   })),
 });
 
+// jsdom has no TextDecoder or TextEncoder, used by the vector tile decoder and its tests
+Object.assign(global, { TextDecoder, TextEncoder });
+
 // Mock IntersectionObserver
 global.IntersectionObserver = class IntersectionObserver {
   constructor() {}
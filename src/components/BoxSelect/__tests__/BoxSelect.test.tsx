@@ -0,0 +1,95 @@
+import { render, act, screen } from '@testing-library/react';
+import { BoxSelect } from '../index';
+
+type Handler = (event: unknown) => void;
+
+let handlers: Record<string, Handler> = {};
+const mockMap = {
+  boxZoom: { enable: jest.fn(), disable: jest.fn() },
+  dragging: { enable: jest.fn(), disable: jest.fn() }
+};
+
+jest.mock('react-leaflet', () => ({
+  useMap: () => mockMap,
+  useMapEvents: (next: Record<string, Handler>) => {
+    handlers = next;
+    return null;
+  },
+  Polygon: ({ positions }: { positions: unknown }) => (
+    <div data-testid="box-select-outline" data-positions={JSON.stringify(positions)} />
+  )
+}));
+
+const mouse = (lat: number, lng: number, modifiers: { shiftKey?: boolean; altKey?: boolean } = {}) => ({
+  latlng: { lat, lng },
+  originalEvent: { shiftKey: false, altKey: false, ...modifiers }
+});
+
+// Released anywhere on the page, not necessarily over the map
+const release = () => document.dispatchEvent(new MouseEvent('mouseup'));
+
+describe('BoxSelect', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should replace box zoom while mounted', () => {
+    const { unmount } = render(<BoxSelect onAreaSelected={jest.fn()} />);
+    expect(mockMap.boxZoom.disable).toHaveBeenCalled();
+    unmount();
+    expect(mockMap.boxZoom.enable).toHaveBeenCalled();
+  });
+
+  it('should report a rectangle on shift-drag', () => {
+    const onAreaSelected = jest.fn();
+    render(<BoxSelect onAreaSelected={onAreaSelected} />);
+
+    act(() => handlers.mousedown(mouse(48.8, 2.3, { shiftKey: true })));
+    act(() => handlers.mousemove(mouse(48.805, 2.305)));
+    act(() => handlers.mousemove(mouse(48.81, 2.32)));
+    expect(screen.getByTestId('box-select-outline')).toBeTruthy();
+    expect(mockMap.dragging.disable).toHaveBeenCalled();
+
+    act(() => release());
+    expect(onAreaSelected).toHaveBeenCalledWith([[48.8, 2.3], [48.8, 2.32], [48.81, 2.32], [48.81, 2.3]]);
+    expect(mockMap.dragging.enable).toHaveBeenCalled();
+    expect(screen.queryByTestId('box-select-outline')).toBeNull();
+  });
+
+  it('should report the traced path on alt-drag', () => {
+    const onAreaSelected = jest.fn();
+    render(<BoxSelect onAreaSelected={onAreaSelected} />);
+
+    act(() => handlers.mousedown(mouse(48.8, 2.3, { altKey: true })));
+    act(() => handlers.mousemove(mouse(48.8, 2.31)));
+    act(() => handlers.mousemove(mouse(48.81, 2.31)));
+    act(() => release());
+
+    expect(onAreaSelected).toHaveBeenCalledWith([[48.8, 2.3], [48.8, 2.31], [48.81, 2.31]]);
+  });
+
+  it('should hand dragging back when unmounted mid-gesture', () => {
+    const onAreaSelected = jest.fn();
+    const { unmount } = render(<BoxSelect onAreaSelected={onAreaSelected} />);
+
+    act(() => handlers.mousedown(mouse(48.8, 2.3, { shiftKey: true })));
+    act(() => handlers.mousemove(mouse(48.81, 2.32)));
+    unmount();
+    expect(mockMap.dragging.enable).toHaveBeenCalled();
+
+    release();
+    expect(onAreaSelected).not.toHaveBeenCalled();
+  });
+
+  it('should leave plain drags to the map', () => {
+    const onAreaSelected = jest.fn();
+    render(<BoxSelect onAreaSelected={onAreaSelected} />);
+
+    act(() => handlers.mousedown(mouse(48.8, 2.3)));
+    act(() => handlers.mousemove(mouse(48.81, 2.31)));
+    act(() => release());
+
+    expect(onAreaSelected).not.toHaveBeenCalled();
+    expect(mockMap.dragging.disable).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react';
+import { Polygon, useMap, useMapEvents } from 'react-leaflet';
+import type { LeafletMouseEvent } from 'leaflet';
+import type { LatLng } from '@/types';
+
+interface BoxSelectProps {
+  onAreaSelected: (area: LatLng[]) => void;
+}
+
+interface Gesture {
+  shape: 'rectangle' | 'lasso';
+  points: LatLng[];
+}
+
+const toLatLng = (event: LeafletMouseEvent): LatLng => [event.latlng.lat, event.latlng.lng];
+
+// Outline of the area being drawn, as polygon corners
+const gestureArea = ({ shape, points }: Gesture): LatLng[] => {
+  if (shape === 'lasso' || points.length < 2) return points;
+  const [[lat1, lng1], [lat2, lng2]] = [points[0], points[points.length - 1]];
+  return [[lat1, lng1], [lat1, lng2], [lat2, lng2], [lat2, lng1]];
+};
+
+// Shift-drag draws a rectangle, alt-drag a freehand lasso. Shift-drag is Leaflet's box
+// zoom gesture, so box zoom is turned off while this is mounted. Map dragging is off
+// during a gesture, which ends when the button is released anywhere on the page.
+export const BoxSelect = ({ onAreaSelected }: BoxSelectProps) => {
+  const map = useMap();
+  const gestureRef = useRef<Gesture | null>(null);
+  const stopListeningRef = useRef<(() => void) | null>(null);
+  const [gesture, setGesture] = useState<Gesture | null>(null);
+
+  const update = (next: Gesture | null) => {
+    gestureRef.current = next;
+    setGesture(next);
+  };
+
+  const finishGesture = () => {
+    const current = gestureRef.current;
+    if (!current) return;
+
+    stopListeningRef.current?.();
+    stopListeningRef.current = null;
+    map.dragging.enable();
+    update(null);
+    const area = gestureArea(current);
+    if (area.length >= 3) {
+      onAreaSelected(area);
+    }
+  };
+
+  useEffect(() => {
+    map.boxZoom.disable();
+    return () => {
+      map.boxZoom.enable();
+      // Unmounted mid-gesture: hand dragging back to the map
+      if (stopListeningRef.current) {
+        stopListeningRef.current();
+        stopListeningRef.current = null;
+        map.dragging.enable();
+      }
+    };
+  }, [map]);
+
+  useMapEvents({
+    mousedown: (event) => {
+      const { shiftKey, altKey } = event.originalEvent;
+      if (!shiftKey && !altKey) return;
+
+      map.dragging.disable();
+      update({ shape: shiftKey ? 'rectangle' : 'lasso', points: [toLatLng(event)] });
+
+      // Listen on the document: the button may be released outside the map container
+      stopListeningRef.current?.();
+      const onMouseUp = () => finishGesture();
+      document.addEventListener('mouseup', onMouseUp);
+      stopListeningRef.current = () => document.removeEventListener('mouseup', onMouseUp);
+    },
+    mousemove: (event) => {
+      const current = gestureRef.current;
+      if (!current) return;
+
+      update({
+        ...current,
+        points: current.shape === 'rectangle'
+          ? [current.points[0], toLatLng(event)]
+          : [...current.points, toLatLng(event)]
+      });
+    }
+  });
+
+  if (!gesture || gesture.points.length < 2) {
+    return null;
+  }
+
+  return (
+    <Polygon
+      positions={gestureArea(gesture)}
+      interactive={false}
+      pathOptions={{ className: 'leaflet-zone-selector__box-select', dashArray: '4 4', weight: 1 }}
+    />
+  );
+};
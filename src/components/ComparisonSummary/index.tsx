@@ -0,0 +1,39 @@
+import { AREA_UNIT_LABELS } from '@/utils/metrics';
+import type { SelectionComparison } from '@/utils/comparison';
+
+interface ComparisonSummaryProps {
+  comparison: SelectionComparison;
+}
+
+const formatDelta = (value: number) =>
+  `${value > 0 ? '+' : value < 0 ? '−' : '±'}${Math.abs(value).toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+
+const format = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+// Added / removed counts and area and property changes against the baseline
+export const ComparisonSummary = ({ comparison }: ComparisonSummaryProps) => {
+  const { added, removed, unchanged, baseline, current, areaDelta, properties } = comparison;
+  const unit = AREA_UNIT_LABELS[current.units.area];
+
+  return (
+    <section className="leaflet-zone-selector__comparison" aria-label="Selection comparison">
+      <ul>
+        <li data-comparison="added">{added.length} added</li>
+        <li data-comparison="removed">{removed.length} removed</li>
+        <li data-comparison="unchanged">{unchanged.length} unchanged</li>
+      </ul>
+      <dl>
+        <dt>Area</dt>
+        <dd>
+          {formatDelta(areaDelta)} {unit} ({format(baseline.totalArea)} → {format(current.totalArea)})
+        </dd>
+        {Object.entries(properties).map(([property, { baseline: before, current: after, delta }]) => (
+          <div key={property}>
+            <dt>{property}</dt>
+            <dd>{formatDelta(delta)} ({format(before)} → {format(after)})</dd>
+          </div>
+        ))}
+      </dl>
+    </section>
+  );
+};
@@ -0,0 +1,33 @@
+import type { Zone } from '@/types';
+
+interface DrillBreadcrumbProps {
+  path: Zone[];
+  onNavigate: (depth: number) => void;
+}
+
+// Shows the drilled-into parents; depth 0 returns to the top level
+export const DrillBreadcrumb = ({ path, onNavigate }: DrillBreadcrumbProps) => {
+  if (path.length === 0) {
+    return null;
+  }
+
+  return (
+    <nav className="leaflet-zone-selector__breadcrumb" aria-label="Zone hierarchy">
+      <button type="button" onClick={() => onNavigate(0)}>
+        All zones
+      </button>
+      {path.map((zone, index) => (
+        <span key={zone.id}>
+          <span aria-hidden="true"> › </span>
+          {index === path.length - 1 ? (
+            <span aria-current="location">{zone.name}</span>
+          ) : (
+            <button type="button" onClick={() => onNavigate(index + 1)}>
+              {zone.name}
+            </button>
+          )}
+        </span>
+      ))}
+    </nav>
+  );
+};
@@ -1,16 +1,51 @@
-import { forwardRef, useImperativeHandle, useRef, useState, useEffect, useCallback } from 'react';
+import { forwardRef, useImperativeHandle, useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import { MapContainer, useMap } from 'react-leaflet';
 import type { Map } from 'leaflet';
 import { useZoneSelection } from '@/hooks/useZoneSelection';
+import { useZoneGroups } from '@/hooks/useZoneGroups';
+import { useSelectionPersistence } from '@/hooks/useSelectionPersistence';
+import { useSelectionComparison } from '@/hooks/useSelectionComparison';
 import { EnhancedTileLayer } from '../TileLayer';
 import { ZoneLayer } from '../ZoneLayer';
 import { SearchInput } from '../SearchInput';
 import { DrawingTools } from '../DrawingTools';
 import { LoadingOverlay } from '../LoadingOverlay';
 import { ErrorBoundary } from '../ErrorBoundary';
+import { DrillBreadcrumb } from '../DrillBreadcrumb';
+import { BoxSelect } from '../BoxSelect';
+import { ViewportPersistence } from '../ViewportPersistence';
+import { VectorTileZones } from '../VectorTileZones';
+import { SelectionMessage } from '../SelectionMessage';
+import { ComparisonSummary } from '../ComparisonSummary';
+import { Legend } from '../Legend';
+import { ZoneLabels } from '../ZoneLabels';
 import { exportToFormat } from '@/utils/exportFormats';
 import { calculateMetrics } from '@/utils/metrics';
-import type { Zone } from '@/types';
+import {
+  buildAdjacencyGraph,
+  getNeighbors,
+  growSelection as growZoneIds,
+  shrinkSelection as shrinkZoneIds
+} from '@/utils/adjacency';
+import { buildHierarchy, expandSelection, getChildren } from '@/utils/hierarchy';
+import { reprojectZones } from '@/utils/projection';
+import { validateZones, ZoneValidationError } from '@/utils/validation';
+import { queryZones } from '@/utils/query';
+import { compareSelections } from '@/utils/comparison';
+import { getSpatialIndex } from '@/utils/spatialIndex';
+import { getChoroplethClassification } from '@/utils/choropleth';
+import { getThemeChoropleth } from '@/utils/zoneStyles';
+import {
+  areaFromLatLngs,
+  closestZoneToArea,
+  findZonesInArea,
+  rectangleArea,
+  shapeToGeometry
+} from '@/utils/areaSelection';
+import type { ValidationResult } from '@/utils/validation';
+import type { Zone, Ring, SelectionCombineMode, SelectionChangeReason, ZoneGeometry } from '@/types';
+import type { CoverageThreshold } from '@/utils/areaSelection';
+import type { SelectionRejection } from '@/utils/constraints';
 import type { LeafletZoneSelectorProps, LeafletZoneSelectorRef } from './types';
 import 'leaflet/dist/leaflet.css';
 import './LeafletZoneSelector.css';
@@ -39,21 +74,49 @@ export const LeafletZoneSelector = forwardRef<
   bounds,
   zones: initialZones,
   loadZonesAsync,
+  zoneSource,
+  crs = 'EPSG:4326',
+  validateGeometry = true,
   multiSelect = true,
   maxSelections = Infinity,
-  selectedZoneIds = [],
+  constraints,
+  selectedZoneIds,
+  defaultSelectedZoneIds,
+  selectionMode = 'free',
+  adjacencyOptions,
+  hierarchical = false,
+  historyLimit,
+  persistence,
+  comparisonBaseline,
+  comparisonOptions,
+  groups: initialGroups,
+  groupAssignment = 'exclusive',
   enableSearch = true,
   enableDrawing = false,
+  enableBoxSelection = false,
+  boxSelectionMatch = 'intersects',
+  drawingCoverage = 'intersects',
+  drawingSelectionMode = 'add',
   enableKeyboardNavigation = true,
   theme = 'light',
+  showLegend = true,
+  simplifyTolerance = 1,
+  viewportPadding,
+  labels = false,
   tileProvider,
   fallbackTileProvider = 'openstreetmap',
   detectRetina = true,
   containerClassName,
   containerStyle,
   onSelectionChange,
+  onSelectionDelta,
+  onSelectionRejected,
+  onGroupsChange,
   onZoneClick,
   onZoneHover,
+  confirmDisconnect,
+  onDrillChange,
+  onShapeCreated,
   onMapReady,
   onError,
   onTileError,
@@ -62,10 +125,56 @@ export const LeafletZoneSelector = forwardRef<
   children
 }, ref) => {
   const mapRef = useRef<Map | null>(null);
-  const [zones, setZones] = useState<Zone[]>(initialZones || []);
+  const [rawZones, setZones] = useState<Zone[]>(initialZones || []);
   const [loading, setLoading] = useState(false);
   const [, setError] = useState<Error | null>(null);
+  const [drillPath, setDrillPath] = useState<string[]>([]);
+  const [previewZoneIds, setPreviewZoneIds] = useState<string[]>([]);
+  const reportedValidation = useRef<ValidationResult | null>(null);
+  // Latest rejection, counted so a repeated message restarts its timer
+  const [rejection, setRejection] = useState<{ message: string; count: number } | null>(null);
+
+  // Reprojection runs first so validation checks WGS84 bounds. Zones from a zoneSource are
+  // decoded as WGS84 and used as they are: the source tracks which of them are clipped by
+  // object, which repaired copies would lose.
+  const projectedZones = useMemo(
+    () => (zoneSource ? rawZones : reprojectZones(rawZones, crs)),
+    [zoneSource, rawZones, crs]
+  );
+
+  const validationOptions = typeof validateGeometry === 'object' ? validateGeometry : undefined;
+  const validation = useMemo(
+    () => (validateGeometry === false || zoneSource
+      ? null
+      : validateZones(projectedZones, {
+        repair: validationOptions?.repair,
+        checkSelfIntersections: validationOptions?.checkSelfIntersections
+      })),
+    [zoneSource, projectedZones, validateGeometry, validationOptions?.repair, validationOptions?.checkSelfIntersections]
+  );
+  const zones = validation ? validation.zones : projectedZones;
+
+  // Report what validation could not repair, once per loaded zone set
+  useEffect(() => {
+    const unresolved = validation?.issues.filter(issue => !issue.repaired) ?? [];
+    if (validation && unresolved.length > 0 && reportedValidation.current !== validation) {
+      reportedValidation.current = validation;
+      onError?.(new ZoneValidationError(unresolved));
+    }
+  }, [validation, onError]);
   
+  const handleRejection = useCallback((zone: Zone, reason: SelectionRejection) => {
+    setRejection(prev => ({ message: reason.message, count: (prev?.count ?? 0) + 1 }));
+    onSelectionRejected?.(zone, reason);
+  }, [onSelectionRejected]);
+
+  const dismissRejection = useCallback(() => setRejection(null), []);
+
+  const handleLoadError = useCallback((err: Error) => {
+    setError(err);
+    onError?.(err);
+  }, [onError]);
+
   const {
     selectedZones,
     hoveredZone,
@@ -73,15 +182,106 @@ export const LeafletZoneSelector = forwardRef<
     deselectZone,
     clearSelection,
     isZoneSelected,
-    setHoveredZone
+    setHoveredZone,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    batchChanges,
+    refreshSelectedZones,
+    applySelection,
+    invertSelection,
+    selectWithinDistance
   } = useZoneSelection({
-    initialSelection: selectedZoneIds,
+    initialSelection: defaultSelectedZoneIds,
+    selectedZoneIds,
     multiSelect,
     maxSelections,
+    selectionMode,
+    adjacencyOptions,
+    hierarchical,
+    confirmDisconnect,
+    historyLimit,
+    constraints,
     onSelectionChange,
+    onSelectionDelta,
+    onSelectionRejected: handleRejection,
     zones
   });
 
+  const baselineZones = useMemo(() => {
+    if (!comparisonBaseline) return null;
+    const baselineIds = new Set(comparisonBaseline);
+    return zones.filter(zone => baselineIds.has(zone.id));
+  }, [comparisonBaseline, zones]);
+
+  const comparison = useSelectionComparison(baselineZones, selectedZones, { areaUnit: 'km2', ...comparisonOptions });
+
+  useSelectionPersistence(persistence, {
+    zones,
+    selectedZones,
+    onRestore: (restored) => applySelection(restored, 'replace', 'restore')
+  });
+
+  const {
+    groups,
+    activeGroupId,
+    setActiveGroup,
+    createGroup,
+    removeGroup,
+    assignZones,
+    unassignZones,
+    toggleZone,
+    getGroupMetrics,
+    exportGroups
+  } = useZoneGroups({
+    zones,
+    initialGroups,
+    assignmentMode: groupAssignment,
+    onGroupsChange
+  });
+
+  const hierarchy = useMemo(
+    () => (hierarchical ? buildHierarchy(zones) : null),
+    [hierarchical, zones]
+  );
+
+  // Drop drilled-into parents that disappeared with a zone reload
+  const activePath = useMemo(
+    () => (hierarchy ? drillPath.filter(id => hierarchy.byId.has(id)) : []),
+    [hierarchy, drillPath]
+  );
+
+  const visibleZones = useMemo(
+    () => (hierarchy ? getChildren(hierarchy, activePath[activePath.length - 1] ?? null) : zones),
+    [hierarchy, activePath, zones]
+  );
+
+  // Same classification as the zone layer's, which is cached per zones array
+  const choropleth = useMemo(() => {
+    const options = getThemeChoropleth(theme);
+    return options && visibleZones.length > 0 ? getChoroplethClassification(visibleZones, options) : null;
+  }, [theme, visibleZones]);
+
+  // Zones drawn as selected: while drilled down, children of a selected parent count
+  const selectedIdsOnMap = useMemo(
+    () => (hierarchy
+      ? visibleZones.filter(zone => isZoneSelected(zone.id)).map(zone => zone.id)
+      : selectedZones.map(zone => zone.id)),
+    [hierarchy, visibleZones, selectedZones, isZoneSelected]
+  );
+
+  const updateDrillPath = useCallback((path: string[]) => {
+    setDrillPath(path);
+    onDrillChange?.(hierarchy ? path.map(id => hierarchy.byId.get(id)!) : []);
+  }, [hierarchy, onDrillChange]);
+
+  const drillDown = useCallback((zoneId: string) => {
+    if (hierarchy && getChildren(hierarchy, zoneId).length > 0) {
+      updateDrillPath([...activePath, zoneId]);
+    }
+  }, [hierarchy, activePath, updateDrillPath]);
+
   // Load zones asynchronously
   useEffect(() => {
     if (loadZonesAsync && !initialZones) {
@@ -96,6 +296,43 @@ export const LeafletZoneSelector = forwardRef<
     }
   }, [loadZonesAsync, initialZones, onError]);
 
+  // Zones from vector tiles may be cut at the edge of the tiles loaded so far. Once
+  // selected they are swapped for their full geometry, for callbacks and exports.
+  useEffect(() => {
+    const partial = zoneSource ? selectedZones.filter(zone => !zoneSource.isComplete(zone)) : [];
+    if (!zoneSource || partial.length === 0) return;
+
+    let cancelled = false;
+    zoneSource.resolveZones(partial)
+      .then(full => {
+        if (cancelled) return;
+        setZones(prev => prev.map(zone => full.find(resolved => resolved.id === zone.id) ?? zone));
+        refreshSelectedZones(full);
+      })
+      .catch(handleLoadError);
+    return () => {
+      cancelled = true;
+    };
+  }, [zoneSource, selectedZones, refreshSelectedZones, handleLoadError]);
+
+  // Zones on screen picked up by a drawn area. In single-select mode only the zone
+  // closest to the middle of the area is kept.
+  const selectInArea = useCallback((
+    area: Ring | ZoneGeometry,
+    match: CoverageThreshold,
+    mode: SelectionCombineMode,
+    reason: SelectionChangeReason
+  ) => {
+    let matches = findZonesInArea(visibleZones, area, match);
+
+    if (!multiSelect && matches.length > 1) {
+      matches = [closestZoneToArea(matches, area)!];
+    }
+
+    applySelection(matches, mode, reason);
+    return matches;
+  }, [visibleZones, multiSelect, applySelection]);
+
   // Imperative API
   useImperativeHandle(ref, () => ({
     setView: (center, zoom) => {
@@ -105,13 +342,71 @@ export const LeafletZoneSelector = forwardRef<
       mapRef.current?.fitBounds(bounds);
     },
     selectZones: (zoneIds) => {
-      zoneIds.forEach(id => {
-        const zone = zones.find(z => z.id === id);
-        if (zone) selectZone(zone);
+      batchChanges(() => {
+        zoneIds.forEach(id => {
+          const zone = zones.find(z => z.id === id);
+          if (zone) selectZone(zone);
+        });
       });
     },
     clearSelection,
     getSelectedZones: () => selectedZones,
+    undo,
+    redo,
+    canUndo: () => canUndo,
+    canRedo: () => canRedo,
+    selectByQuery: (query, options = {}) => {
+      const matches = queryZones(zones, query);
+      if (options.preview) {
+        setPreviewZoneIds(matches.map(zone => zone.id));
+      } else {
+        setPreviewZoneIds([]);
+        applySelection(matches, options.mode, 'query');
+      }
+      return matches;
+    },
+    clearPreview: () => setPreviewZoneIds([]),
+    selectInArea: (area, options = {}) =>
+      selectInArea(areaFromLatLngs(area), options.match ?? boxSelectionMatch, options.mode ?? 'replace', 'area'),
+    selectByShape: (shape, options = {}) => {
+      const geometry = shapeToGeometry(shape);
+      return geometry
+        ? selectInArea(geometry, options.match ?? drawingCoverage, options.mode ?? 'replace', 'shape')
+        : [];
+    },
+    invertSelection: () => invertSelection(visibleZones),
+    selectInViewport: (options = {}) => {
+      const bounds = mapRef.current?.getBounds();
+      if (!bounds) return [];
+      const { lat: south, lng: west } = bounds.getSouthWest();
+      const { lat: north, lng: east } = bounds.getNorthEast();
+      return selectInArea(
+        rectangleArea([south, west], [north, east]),
+        options.match ?? 'intersects',
+        options.mode ?? 'replace',
+        'area'
+      );
+    },
+    selectWithinDistance: (center, radiusKm, options) =>
+      selectWithinDistance(center, radiusKm, options, visibleZones),
+    getZoneAt: (latlng) => getSpatialIndex(visibleZones).zoneAt(latlng),
+    getNeighbors: (zoneId) => {
+      const neighborIds = new Set(getNeighbors(buildAdjacencyGraph(zones, adjacencyOptions), [zoneId]));
+      return zones.filter(zone => neighborIds.has(zone.id));
+    },
+    selectNeighbors: (zoneId, includeZone = true) => {
+      const neighborIds = getNeighbors(buildAdjacencyGraph(zones, adjacencyOptions), [zoneId]);
+      const ids = new Set(includeZone ? [zoneId, ...neighborIds] : neighborIds);
+      batchChanges(() => zones.filter(zone => ids.has(zone.id)).forEach(selectZone));
+    },
+    growSelection: (rings = 1) => {
+      const ids = new Set(growZoneIds(buildAdjacencyGraph(zones, adjacencyOptions), selectedZones.map(z => z.id), rings));
+      batchChanges(() => zones.filter(zone => ids.has(zone.id) && !isZoneSelected(zone.id)).forEach(selectZone));
+    },
+    shrinkSelection: (rings = 1) => {
+      const kept = new Set(shrinkZoneIds(buildAdjacencyGraph(zones, adjacencyOptions), selectedZones.map(z => z.id), rings));
+      batchChanges(() => selectedZones.filter(zone => !kept.has(zone.id)).forEach(zone => deselectZone(zone.id)));
+    },
     loadZones: setZones,
     refreshZones: async () => {
       if (loadZonesAsync) {
@@ -127,13 +422,68 @@ export const LeafletZoneSelector = forwardRef<
         }
       }
     },
+    drillDown,
+    drillUp: (levels = 1) => {
+      updateDrillPath(activePath.slice(0, Math.max(0, activePath.length - levels)));
+    },
+    getDrillPath: () => (hierarchy ? activePath.map(id => hierarchy.byId.get(id)!) : []),
     exportSelection: (format) => {
-      return exportToFormat(selectedZones, format);
+      // Selected parents are exported as the zones they contain
+      const exported = hierarchy
+        ? expandSelection(hierarchy, selectedZones.map(z => z.id)).map(id => hierarchy.byId.get(id)!)
+        : selectedZones;
+      return exportToFormat(exported, format);
     },
-    getSelectionMetrics: () => {
-      return calculateMetrics(selectedZones);
-    }
-  }), [zones, selectedZones, selectZone, clearSelection, loadZonesAsync, onError]);
+    getSelectionMetrics: (options) => {
+      return calculateMetrics(selectedZones, options);
+    },
+    compareSelection: (baselineIds, options) => {
+      const baselineIdSet = new Set(baselineIds);
+      return compareSelections(zones.filter(zone => baselineIdSet.has(zone.id)), selectedZones, options);
+    },
+    getGroups: () => groups,
+    createGroup,
+    removeGroup,
+    assignToGroup: (groupId, zoneIds = selectedZones.map(z => z.id)) => assignZones(groupId, zoneIds),
+    unassignFromGroup: unassignZones,
+    setActiveGroup,
+    getGroupMetrics,
+    exportGroups
+  }), [
+    zones,
+    selectedZones,
+    selectZone,
+    deselectZone,
+    isZoneSelected,
+    clearSelection,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    batchChanges,
+    applySelection,
+    invertSelection,
+    selectWithinDistance,
+    visibleZones,
+    selectInArea,
+    boxSelectionMatch,
+    drawingCoverage,
+    adjacencyOptions,
+    hierarchy,
+    activePath,
+    drillDown,
+    updateDrillPath,
+    loadZonesAsync,
+    onError,
+    groups,
+    createGroup,
+    removeGroup,
+    assignZones,
+    unassignZones,
+    setActiveGroup,
+    getGroupMetrics,
+    exportGroups
+  ]);
 
   const handleMapReady = useCallback((map: Map) => {
     mapRef.current = map;
@@ -144,12 +494,13 @@ export const LeafletZoneSelector = forwardRef<
     if (typeof theme === 'string') {
       return theme;
     }
-    return 'custom';
+    return 'colors' in theme ? 'custom' : theme.base ?? 'light';
   };
+  const themeClass = getThemeClass();
 
   const content = (
     <div 
-      className={`leaflet-zone-selector ${getThemeClass()} ${containerClassName || ''}`}
+      className={`leaflet-zone-selector ${themeClass} ${containerClassName || ''}`}
       style={containerStyle}
       role="application"
     >
@@ -163,8 +514,14 @@ export const LeafletZoneSelector = forwardRef<
         keyboard={enableKeyboardNavigation}
       >
         <MapRefHandler onMapReady={handleMapReady} />
+        {persistence?.viewport && (
+          <ViewportPersistence storage={persistence.storage} storageKey={persistence.key} />
+        )}
+        {zoneSource && (
+          <VectorTileZones source={zoneSource} onZonesLoaded={setZones} onError={handleLoadError} />
+        )}
         <EnhancedTileLayer
-          provider={tileProvider || (theme === 'dark' ? 'cartoDBDark' : theme === 'light' ? 'cartoDB' : 'openstreetmap')}
+          provider={tileProvider || (themeClass === 'dark' ? 'cartoDBDark' : themeClass === 'light' ? 'cartoDB' : 'openstreetmap')}
           fallbackProvider={fallbackTileProvider}
           detectRetina={detectRetina}
           onTileError={onTileError}
@@ -172,32 +529,59 @@ export const LeafletZoneSelector = forwardRef<
           onTileLoad={onTileLoad}
         />
         
-        {zones && zones.length > 0 && (
+        {visibleZones.length > 0 && (
           <ZoneLayer
-            zones={zones}
-            selectedZoneIds={selectedZones.map(z => z.id)}
+            zones={visibleZones}
+            selectedZoneIds={selectedIdsOnMap}
             hoveredZoneId={hoveredZone?.id}
+            highlightedZoneIds={previewZoneIds}
+            groups={groups}
+            comparisonStatus={comparison?.status}
             onZoneClick={(zone, event) => {
-              if (isZoneSelected(zone.id)) {
-                deselectZone(zone.id);
-              } else {
-                selectZone(zone);
+              if (activeGroupId) {
+                // Painting territories: clicks change the active group instead of the selection
+                toggleZone(activeGroupId, zone.id);
+                onZoneClick?.(zone, event);
+                return;
               }
+              batchChanges(() => {
+                if (isZoneSelected(zone.id)) {
+                  deselectZone(zone.id);
+                } else {
+                  selectZone(zone);
+                }
+              }, 'click');
               onZoneClick?.(zone, event);
             }}
+            onZoneDoubleClick={(zone) => drillDown(zone.id)}
             onZoneHover={(zone) => {
               setHoveredZone(zone);
               onZoneHover?.(zone);
             }}
             theme={theme}
+            simplifyTolerance={simplifyTolerance}
+            viewportPadding={viewportPadding}
           />
         )}
         
+        {labels && visibleZones.length > 0 && (
+          <ZoneLabels
+            zones={visibleZones}
+            selectedZoneIds={selectedIdsOnMap}
+            options={labels === true ? undefined : labels}
+          />
+        )}
+        
+        {enableBoxSelection && (
+          <BoxSelect onAreaSelected={(area) => selectInArea(areaFromLatLngs(area), boxSelectionMatch, 'add', 'area')} />
+        )}
+        
         {enableDrawing && (
           <DrawingTools
             onShapeCreated={(shape) => {
-              // Handle custom drawn shapes
-              console.log('Shape created:', shape);
+              const geometry = shapeToGeometry(shape);
+              const matches = geometry ? selectInArea(geometry, drawingCoverage, drawingSelectionMode, 'shape') : [];
+              onShapeCreated?.(shape, matches);
             }}
           />
         )}
@@ -211,6 +595,21 @@ export const LeafletZoneSelector = forwardRef<
         />
       )}
       
+      {hierarchy && (
+        <DrillBreadcrumb
+          path={activePath.map(id => hierarchy.byId.get(id)!)}
+          onNavigate={(depth) => updateDrillPath(activePath.slice(0, depth))}
+        />
+      )}
+      
+      {comparison && <ComparisonSummary comparison={comparison} />}
+      
+      {choropleth && showLegend && <Legend classification={choropleth} />}
+      
+      {rejection && (
+        <SelectionMessage key={rejection.count} message={rejection.message} onDismiss={dismissRejection} />
+      )}
+      
       {loading && <LoadingOverlay />}
       
       {children}
@@ -0,0 +1,756 @@
+import React from 'react';
+import { render, act, screen, fireEvent } from '@testing-library/react';
+import { LeafletZoneSelector } from '../LeafletZoneSelector';
+import type { LeafletZoneSelectorRef } from '../types';
+import type { Zone } from '@/types';
+import { ZoneValidationError } from '@/utils/validation';
+import { QueryParseError } from '@/utils/query';
+import type { VectorTileSource } from '@/utils/vectorTileSource';
+import { createCellGrid, square } from '../../../../tests/utils/mapTestUtils';
+
+jest.mock('react-leaflet', () => ({
+  MapContainer: ({ children }: { children: React.ReactNode }) => (
+    <div data-testid="map-container">{children}</div>
+  ),
+  useMap: jest.fn(() => ({
+    on: jest.fn(),
+    off: jest.fn(),
+    setView: jest.fn(),
+    fitBounds: jest.fn(),
+    getZoom: jest.fn(() => 10),
+    // Inside the southern row
+    getBounds: jest.fn(() => ({
+      getSouthWest: () => ({ lat: 48.801, lng: 2.305 }),
+      getNorthEast: () => ({ lat: 48.809, lng: 2.315 })
+    }))
+  }))
+}));
+
+jest.mock('../../TileLayer', () => ({
+  EnhancedTileLayer: () => <div data-testid="enhanced-tile-layer" />
+}));
+
+jest.mock('../../ZoneLayer', () => ({
+  ZoneLayer: ({ zones, highlightedZoneIds = [], onZoneClick }: {
+    zones: Zone[];
+    highlightedZoneIds?: string[];
+    onZoneClick: (zone: Zone, event: unknown) => void;
+  }) => (
+    <div
+      data-testid="zone-layer"
+      data-zone-ids={zones.map(zone => zone.id).join(',')}
+      data-highlighted-ids={highlightedZoneIds.join(',')}
+    >
+      {zones.map(zone => (
+        <button key={zone.id} type="button" onClick={event => onZoneClick(zone, event)}>
+          {`Zone ${zone.id}`}
+        </button>
+      ))}
+    </div>
+  )
+}));
+
+jest.mock('../../SearchInput', () => ({
+  SearchInput: () => <div data-testid="search-input" />
+}));
+
+// Draws a rectangle over the southern row, from the middle of column 0 to the middle of column 2
+jest.mock('../../DrawingTools', () => ({
+  DrawingTools: ({ onShapeCreated }: { onShapeCreated: (shape: GeoJSON.Feature) => void }) => (
+    <button
+      type="button"
+      onClick={() => onShapeCreated({
+        type: 'Feature',
+        geometry: {
+          type: 'Polygon',
+          coordinates: [[[2.305, 48.801], [2.325, 48.801], [2.325, 48.809], [2.305, 48.809], [2.305, 48.801]]]
+        },
+        properties: {}
+      })}
+    >
+      Draw
+    </button>
+  )
+}));
+
+jest.mock('../../VectorTileZones', () => ({
+  VectorTileZones: ({ source, onZonesLoaded }: {
+    source: VectorTileSource;
+    onZonesLoaded: (zones: Zone[]) => void;
+  }) => (
+    <button type="button" onClick={() => source.loadZones([2.3, 48.8, 2.33, 48.83], 10).then(onZonesLoaded)}>
+      Load tiles
+    </button>
+  )
+}));
+
+// 3x3 grid of 0.01° cells near Paris, ids "row-col"
+const grid = createCellGrid();
+
+const selectedIds = (ref: React.RefObject<LeafletZoneSelectorRef | null>) =>
+  ref.current!.getSelectedZones().map(zone => zone.id).sort();
+
+describe('LeafletZoneSelector - Selection API', () => {
+  describe('adjacency', () => {
+    it('should list and select the neighbours of a zone', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} />);
+
+      expect(ref.current!.getNeighbors('0-0').map(zone => zone.id).sort()).toEqual(['0-1', '1-0']);
+
+      act(() => ref.current!.selectNeighbors('1-1'));
+      expect(selectedIds(ref)).toEqual(['0-1', '1-0', '1-1', '1-2', '2-1']);
+    });
+
+    it('should find the zone at a position', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} />);
+
+      expect(ref.current!.getZoneAt([48.815, 2.325])?.id).toBe('1-2');
+      expect(ref.current!.getZoneAt([48.9, 2.325])).toBeUndefined();
+    });
+
+    it('should grow and shrink the selection by one ring', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} />);
+
+      act(() => ref.current!.selectZones(['1-1']));
+      act(() => ref.current!.growSelection());
+      expect(selectedIds(ref)).toEqual(['0-1', '1-0', '1-1', '1-2', '2-1']);
+
+      act(() => ref.current!.shrinkSelection());
+      expect(selectedIds(ref)).toEqual(['1-1']);
+    });
+  });
+
+  describe('contiguous mode', () => {
+    it('should only accept zones touching the selection', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} selectionMode="contiguous" />);
+
+      act(() => ref.current!.selectZones(['0-0']));
+      act(() => ref.current!.selectZones(['2-2']));
+      expect(selectedIds(ref)).toEqual(['0-0']);
+
+      act(() => ref.current!.selectZones(['0-1', '0-2']));
+      expect(selectedIds(ref)).toEqual(['0-0', '0-1', '0-2']);
+    });
+
+    it('should ask the host before splitting the selection', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      const confirmDisconnect = jest.fn(() => true);
+      render(
+        <LeafletZoneSelector
+          ref={ref}
+          zones={grid}
+          selectionMode="contiguous"
+          confirmDisconnect={confirmDisconnect}
+        />
+      );
+
+      // The middle cell comes first, so shrinking the row removes it while both ends remain
+      act(() => ref.current!.selectZones(['0-1', '0-0', '0-2']));
+      act(() => ref.current!.shrinkSelection());
+
+      expect(confirmDisconnect).toHaveBeenCalledWith(
+        expect.objectContaining({ id: '0-1' }),
+        [[expect.objectContaining({ id: '0-0' })], [expect.objectContaining({ id: '0-2' })]]
+      );
+      expect(selectedIds(ref)).toEqual([]);
+    });
+  });
+
+  describe('hierarchy', () => {
+    const paris: Zone = { id: 'paris', name: 'Paris', coordinates: square(2.3, 48.8, 0.03) };
+    const family = [paris, ...grid.map(zone => ({ ...zone, parentId: 'paris' }))];
+
+    it('should drill into a parent and back up', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      const onDrillChange = jest.fn();
+      render(<LeafletZoneSelector ref={ref} zones={family} hierarchical onDrillChange={onDrillChange} />);
+
+      expect(screen.getByTestId('zone-layer').getAttribute('data-zone-ids')).toBe('paris');
+
+      act(() => ref.current!.drillDown('paris'));
+      expect(onDrillChange).toHaveBeenLastCalledWith([paris]);
+      expect(screen.getByTestId('zone-layer').getAttribute('data-zone-ids')!.split(',')).toHaveLength(9);
+      expect(screen.getByRole('navigation').textContent).toContain('Paris');
+
+      fireEvent.click(screen.getByText('All zones'));
+      expect(onDrillChange).toHaveBeenLastCalledWith([]);
+      expect(ref.current!.getDrillPath()).toEqual([]);
+    });
+
+    it('should not drill into zones without children', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={family} hierarchical />);
+
+      act(() => ref.current!.drillDown('paris'));
+      act(() => ref.current!.drillDown('1-1'));
+      expect(ref.current!.getDrillPath().map(zone => zone.id)).toEqual(['paris']);
+    });
+
+    it('should export a selected parent as its children', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={family} hierarchical />);
+
+      act(() => ref.current!.selectZones(['paris']));
+      expect(selectedIds(ref)).toEqual(['paris']);
+
+      const exported = JSON.parse(ref.current!.exportSelection('geojson') as string);
+      expect(exported.features).toHaveLength(9);
+    });
+  });
+
+  describe('geometry validation', () => {
+    const broken: Zone[] = [
+      { id: 'open', name: 'Open', coordinates: square(2.3, 48.8, 0.01).slice(0, 4) },
+      { id: 'empty', name: 'Empty', coordinates: [] }
+    ];
+
+    it('should repair zones and report the rest through onError', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      const onError = jest.fn();
+      render(<LeafletZoneSelector ref={ref} zones={broken} onError={onError} />);
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      const error = onError.mock.calls[0][0];
+      expect(error).toBeInstanceOf(ZoneValidationError);
+      expect(error.zoneIds).toEqual(['empty']);
+
+      act(() => ref.current!.selectZones(['open', 'empty']));
+      expect(selectedIds(ref)).toEqual(['open']);
+    });
+
+    it('should validate zones loaded through the ref', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      const onError = jest.fn();
+      render(<LeafletZoneSelector ref={ref} onError={onError} />);
+
+      act(() => ref.current!.loadZones(broken));
+      expect(onError).toHaveBeenCalledWith(expect.any(ZoneValidationError));
+    });
+
+    it('should skip validation when disabled', () => {
+      const onError = jest.fn();
+      render(<LeafletZoneSelector zones={broken} validateGeometry={false} onError={onError} />);
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('crs', () => {
+    const projected: Zone[] = [{
+      id: 'l93',
+      name: 'Lambert-93',
+      coordinates: [[700000, 6600000], [701000, 6600000], [701000, 6601000], [700000, 6601000], [700000, 6600000]]
+    }];
+
+    it('should reproject zones declared in another CRS before validating them', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      const onError = jest.fn();
+      render(<LeafletZoneSelector ref={ref} zones={projected} crs="EPSG:2154" onError={onError} />);
+
+      act(() => ref.current!.selectZones(['l93']));
+      const [lng, lat] = ref.current!.getSelectionMetrics().center;
+      expect(onError).not.toHaveBeenCalled();
+      expect(lng).toBeCloseTo(3.0066, 3);
+      expect(lat).toBeCloseTo(46.5045, 3);
+    });
+
+    it('should reject projected coordinates without a declared CRS', () => {
+      const onError = jest.fn();
+      render(<LeafletZoneSelector zones={projected} onError={onError} />);
+      expect(onError).toHaveBeenCalledWith(expect.any(ZoneValidationError));
+    });
+  });
+
+  describe('history', () => {
+    it('should undo a bulk selection in one step', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} />);
+
+      act(() => ref.current!.selectZones(['0-0']));
+      act(() => ref.current!.selectZones(['1-1', '1-2', '2-2']));
+      expect(ref.current!.canUndo()).toBe(true);
+
+      act(() => ref.current!.undo());
+      expect(selectedIds(ref)).toEqual(['0-0']);
+      expect(ref.current!.canRedo()).toBe(true);
+
+      act(() => ref.current!.redo());
+      expect(selectedIds(ref)).toEqual(['0-0', '1-1', '1-2', '2-2']);
+    });
+
+    it('should restore a cleared selection', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} />);
+
+      act(() => ref.current!.selectZones(['0-0', '0-1']));
+      act(() => ref.current!.clearSelection());
+      act(() => ref.current!.undo());
+
+      expect(selectedIds(ref)).toEqual(['0-0', '0-1']);
+    });
+  });
+
+  describe('query selection', () => {
+    const zones = grid.map(zone => ({ ...zone, properties: { row: Number(zone.id[0]), col: Number(zone.id[2]) } }));
+
+    it('should replace the selection with the matches by default', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={zones} />);
+
+      act(() => ref.current!.selectZones(['2-2']));
+      act(() => {
+        ref.current!.selectByQuery('row = 0 AND col < 2');
+      });
+      expect(selectedIds(ref)).toEqual(['0-0', '0-1']);
+
+      act(() => ref.current!.undo());
+      expect(selectedIds(ref)).toEqual(['2-2']);
+    });
+
+    it('should combine matches with the selection', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={zones} />);
+
+      act(() => ref.current!.selectZones(['0-0', '1-1']));
+      act(() => {
+        ref.current!.selectByQuery('row = 2', { mode: 'add' });
+      });
+      expect(selectedIds(ref)).toEqual(['0-0', '1-1', '2-0', '2-1', '2-2']);
+
+      act(() => {
+        ref.current!.selectByQuery('col = 1', { mode: 'subtract' });
+      });
+      expect(selectedIds(ref)).toEqual(['0-0', '2-0', '2-2']);
+
+      act(() => {
+        ref.current!.selectByQuery('col IN (0, 1)', { mode: 'intersect' });
+      });
+      expect(selectedIds(ref)).toEqual(['0-0', '2-0']);
+    });
+
+    it('should highlight matches in preview mode without selecting them', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={zones} />);
+
+      let matches: Zone[] = [];
+      act(() => {
+        matches = ref.current!.selectByQuery('row = 1', { preview: true });
+      });
+
+      expect(matches.map(zone => zone.id)).toEqual(['1-0', '1-1', '1-2']);
+      expect(selectedIds(ref)).toEqual([]);
+      expect(screen.getByTestId('zone-layer').getAttribute('data-highlighted-ids')).toBe('1-0,1-1,1-2');
+
+      act(() => ref.current!.clearPreview());
+      expect(screen.getByTestId('zone-layer').getAttribute('data-highlighted-ids')).toBe('');
+    });
+
+    it('should throw parse errors', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={zones} />);
+
+      expect(() => ref.current!.selectByQuery('row >')).toThrow(QueryParseError);
+    });
+  });
+
+  describe('area selection', () => {
+    // Covers column 0 entirely and the western half of column 1, rows 0 and 1
+    const area: [number, number][] = [[48.799, 2.299], [48.799, 2.315], [48.815, 2.315], [48.815, 2.299]];
+
+    it('should select zones in a drawn area', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} />);
+
+      act(() => {
+        ref.current!.selectInArea(area);
+      });
+      expect(selectedIds(ref)).toEqual(['0-0', '0-1', '1-0', '1-1']);
+
+      act(() => {
+        ref.current!.selectInArea(area, { match: 'contains' });
+      });
+      expect(selectedIds(ref)).toEqual(['0-0']);
+    });
+
+    it('should respect maxSelections', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} maxSelections={3} />);
+
+      act(() => {
+        ref.current!.selectInArea(area);
+      });
+      expect(selectedIds(ref)).toHaveLength(3);
+    });
+
+    it('should keep the zone closest to the middle of the area in single-select mode', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} multiSelect={false} />);
+
+      act(() => {
+        ref.current!.selectInArea([[48.806, 2.306], [48.806, 2.318], [48.818, 2.318], [48.818, 2.306]]);
+      });
+      expect(selectedIds(ref)).toEqual(['1-1']);
+    });
+  });
+
+  describe('drawn shapes', () => {
+    it('should select the zones a drawn shape covers and pass the shape on', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      const onShapeCreated = jest.fn();
+      render(<LeafletZoneSelector ref={ref} zones={grid} enableDrawing onShapeCreated={onShapeCreated} />);
+
+      fireEvent.click(screen.getByText('Draw'));
+
+      expect(selectedIds(ref)).toEqual(['0-0', '0-1', '0-2']);
+      expect(onShapeCreated).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'Feature' }),
+        expect.arrayContaining([expect.objectContaining({ id: '0-1' })])
+      );
+    });
+
+    it('should apply the coverage threshold', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} enableDrawing drawingCoverage={0.5} />);
+
+      fireEvent.click(screen.getByText('Draw'));
+      // Columns 0 and 2 are only 40% covered
+      expect(selectedIds(ref)).toEqual(['0-1']);
+    });
+
+    it('should deselect in subtract mode', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} enableDrawing drawingSelectionMode="subtract" />);
+
+      act(() => ref.current!.selectZones(['0-0', '0-1', '1-1']));
+      fireEvent.click(screen.getByText('Draw'));
+      expect(selectedIds(ref)).toEqual(['1-1']);
+    });
+
+    it('should select by shape through the ref', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} />);
+
+      act(() => {
+        ref.current!.selectByShape(
+          { type: 'Feature', geometry: { type: 'Point', coordinates: [2.315, 48.815] }, properties: { radius: 300 } },
+          { match: 'centroid' }
+        );
+      });
+      expect(selectedIds(ref)).toEqual(['1-1']);
+    });
+  });
+
+  describe('controlled selection', () => {
+    it('should only change when the parent applies the change', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      const Parent = ({ accept }: { accept: boolean }) => {
+        const [ids, setIds] = React.useState(['0-0']);
+        return (
+          <LeafletZoneSelector
+            ref={ref}
+            zones={grid}
+            selectedZoneIds={ids}
+            onSelectionChange={zones => accept && setIds(zones.map(zone => zone.id))}
+          />
+        );
+      };
+
+      const { rerender } = render(<Parent accept={false} />);
+      act(() => ref.current!.selectZones(['1-1']));
+      expect(selectedIds(ref)).toEqual(['0-0']);
+
+      rerender(<Parent accept />);
+      act(() => ref.current!.selectZones(['1-1']));
+      expect(selectedIds(ref)).toEqual(['0-0', '1-1']);
+    });
+
+    it('should start from defaultSelectedZoneIds', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} defaultSelectedZoneIds={['2-2']} />);
+
+      act(() => ref.current!.selectZones(['2-1']));
+      expect(selectedIds(ref)).toEqual(['2-1', '2-2']);
+    });
+
+    it('should report what changed and why', () => {
+      const onSelectionDelta = jest.fn();
+      render(<LeafletZoneSelector zones={grid} enableDrawing onSelectionDelta={onSelectionDelta} />);
+
+      fireEvent.click(screen.getByText('Draw'));
+
+      expect(onSelectionDelta).toHaveBeenCalledTimes(1);
+      expect(onSelectionDelta).toHaveBeenCalledWith({
+        added: [grid[0], grid[1], grid[2]],
+        removed: [],
+        reason: 'shape'
+      });
+    });
+  });
+
+  describe('groups', () => {
+    const couriers = [
+      { id: 'alice', name: 'Alice', color: '#ff0000', zoneIds: ['0-0'] },
+      { id: 'bob', name: 'Bob', color: '#0000ff', zoneIds: [] }
+    ];
+    const members = (ref: React.RefObject<LeafletZoneSelectorRef | null>) =>
+      Object.fromEntries(ref.current!.getGroups().map(group => [group.id, group.zoneIds]));
+
+    it('should assign the selected zones to a group', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      const onGroupsChange = jest.fn();
+      render(<LeafletZoneSelector ref={ref} zones={grid} groups={couriers} onGroupsChange={onGroupsChange} />);
+
+      act(() => ref.current!.selectZones(['0-0', '0-1']));
+      act(() => ref.current!.assignToGroup('bob'));
+
+      expect(members(ref)).toEqual({ alice: [], bob: ['0-0', '0-1'] });
+      expect(onGroupsChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep zones in several groups when overlapping', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} groups={couriers} groupAssignment="overlapping" />);
+
+      act(() => ref.current!.assignToGroup('bob', ['0-0']));
+      expect(members(ref)).toEqual({ alice: ['0-0'], bob: ['0-0'] });
+    });
+
+    it('should toggle membership of the active group on click', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} groups={couriers} />);
+
+      act(() => ref.current!.setActiveGroup('bob'));
+      fireEvent.click(screen.getByText('Zone 1-1'));
+      fireEvent.click(screen.getByText('Zone 0-0'));
+      expect(members(ref)).toEqual({ alice: [], bob: ['1-1', '0-0'] });
+
+      fireEvent.click(screen.getByText('Zone 1-1'));
+      expect(members(ref)).toEqual({ alice: [], bob: ['0-0'] });
+      expect(selectedIds(ref)).toEqual([]);
+    });
+
+    it('should create groups with palette colours and report metrics per group', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} />);
+
+      let created: ReturnType<LeafletZoneSelectorRef['createGroup']> | undefined;
+      act(() => {
+        created = ref.current!.createGroup({ id: 'east', name: 'East', zoneIds: ['0-2', '1-2', '2-2'] });
+      });
+
+      expect(created?.color).toMatch(/^#/);
+      expect(ref.current!.getGroupMetrics().east.zoneCount).toBe(3);
+      expect(ref.current!.exportGroups('csv').split('\n')).toHaveLength(4);
+    });
+  });
+
+  describe('persistence', () => {
+    beforeEach(() => {
+      window.localStorage.clear();
+      window.history.replaceState(null, '', '/');
+    });
+
+    it('should restore stored ids that still exist once zones load', () => {
+      window.localStorage.setItem('zones', JSON.stringify({ zoneIds: ['1-1', 'gone', '2-2'] }));
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      const onSelectionDelta = jest.fn();
+      render(
+        <LeafletZoneSelector
+          ref={ref}
+          zones={[]}
+          persistence={{ storage: 'localStorage' }}
+          onSelectionDelta={onSelectionDelta}
+        />
+      );
+      expect(JSON.parse(window.localStorage.getItem('zones')!).zoneIds).toHaveLength(3);
+
+      act(() => ref.current!.loadZones(grid));
+
+      expect(selectedIds(ref)).toEqual(['1-1', '2-2']);
+      expect(onSelectionDelta).toHaveBeenCalledWith(expect.objectContaining({ reason: 'restore' }));
+      expect(JSON.parse(window.localStorage.getItem('zones')!).zoneIds).toEqual(['1-1', '2-2']);
+    });
+
+    it('should write the selection to the hash under the configured key', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} persistence={{ storage: 'hash', key: 'sel' }} />);
+
+      act(() => ref.current!.selectZones(['0-0', '0-1']));
+      expect(window.location.hash).toBe('#sel=0-0,0-1');
+    });
+  });
+
+  describe('constraints', () => {
+    const zones = grid.map(zone => ({ ...zone, properties: { population: 1000 } }));
+
+    it('should show why a clicked zone was not selected', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      const onSelectionRejected = jest.fn();
+      render(
+        <LeafletZoneSelector
+          ref={ref}
+          zones={zones}
+          constraints={[{ type: 'maxSum', property: 'population', max: 2000 }]}
+          onSelectionRejected={onSelectionRejected}
+        />
+      );
+
+      fireEvent.click(screen.getByText('Zone 0-0'));
+      fireEvent.click(screen.getByText('Zone 0-1'));
+      expect(screen.queryByRole('alert')).toBeNull();
+
+      fireEvent.click(screen.getByText('Zone 0-2'));
+      expect(selectedIds(ref)).toEqual(['0-0', '0-1']);
+      expect(onSelectionRejected).toHaveBeenCalledWith(
+        expect.objectContaining({ id: '0-2' }),
+        expect.objectContaining({ type: 'maxSum' })
+      );
+      expect(screen.getByRole('alert').textContent).toContain(
+        'Selecting Cell 0-2 would exceed the maximum population of 2,000'
+      );
+
+      fireEvent.click(screen.getByLabelText('Dismiss'));
+      expect(screen.queryByRole('alert')).toBeNull();
+    });
+
+    it('should hide the message after a while', () => {
+      jest.useFakeTimers();
+      try {
+        render(<LeafletZoneSelector zones={zones} maxSelections={1} />);
+
+        fireEvent.click(screen.getByText('Zone 0-0'));
+        fireEvent.click(screen.getByText('Zone 0-1'));
+        expect(screen.getByRole('alert').textContent).toContain('Cannot select more than 1 zone');
+
+        act(() => jest.advanceTimersByTime(4000));
+        expect(screen.queryByRole('alert')).toBeNull();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('spatial helpers', () => {
+    it('should invert the selection among the zones on screen', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} />);
+
+      act(() => ref.current!.selectZones(['0-0', '1-1', '2-2']));
+      act(() => ref.current!.invertSelection());
+      expect(selectedIds(ref)).toEqual(['0-1', '0-2', '1-0', '1-2', '2-0', '2-1']);
+    });
+
+    it('should select the zones in the current viewport', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} />);
+
+      act(() => ref.current!.selectZones(['2-2']));
+      act(() => {
+        ref.current!.selectInViewport({ mode: 'add' });
+      });
+      expect(selectedIds(ref)).toEqual(['0-0', '0-1', '2-2']);
+    });
+
+    it('should select zones within a radius of a point', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={grid} />);
+
+      // Centre of the grid; edge cells are 370-560 m away, corner cells about 670 m
+      let found: Zone[] = [];
+      act(() => {
+        found = ref.current!.selectWithinDistance([48.815, 2.315], 0.6);
+      });
+      expect(found.map(zone => zone.id).sort()).toEqual(['0-1', '1-0', '1-1', '1-2', '2-1']);
+      expect(selectedIds(ref)).toEqual(['0-1', '1-0', '1-1', '1-2', '2-1']);
+    });
+  });
+
+  describe('comparison', () => {
+    const zones = grid.map(zone => ({ ...zone, properties: { population: 1000 } }));
+
+    it('should summarise the change from the baseline', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(
+        <LeafletZoneSelector
+          ref={ref}
+          zones={zones}
+          defaultSelectedZoneIds={['0-1', '0-2', '1-1']}
+          comparisonBaseline={['0-0', '0-1']}
+          comparisonOptions={{ properties: ['population'] }}
+        />
+      );
+
+      const summary = screen.getByLabelText('Selection comparison');
+      expect(summary.textContent).toContain('2 added');
+      expect(summary.textContent).toContain('1 removed');
+      expect(summary.textContent).toContain('1 unchanged');
+      expect(summary.textContent).toContain('population+1,000 (2,000 → 3,000)');
+      expect(summary.textContent).toMatch(/Area\+0\.\d+ km²/);
+
+      act(() => ref.current!.clearSelection());
+      expect(screen.getByLabelText('Selection comparison').textContent).toContain('2 removed');
+    });
+
+    it('should compare through the ref without the map mode', () => {
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zones={zones} defaultSelectedZoneIds={['2-2']} />);
+
+      expect(screen.queryByLabelText('Selection comparison')).toBeNull();
+      const comparison = ref.current!.compareSelection(['2-2', '2-1', 'gone']);
+      expect(comparison.removed.map(zone => zone.id)).toEqual(['2-1']);
+      expect(comparison.unchanged.map(zone => zone.id)).toEqual(['2-2']);
+    });
+  });
+
+  describe('vector tiles', () => {
+    it('should report the full geometry of zones selected from tiles', async () => {
+      const partial: Zone = { ...grid[0], coordinates: square(2.3, 48.8, 0.005) };
+      const zoneSource: VectorTileSource = {
+        loadZones: jest.fn(async () => [partial, grid[1]]),
+        isComplete: zone => zone !== partial,
+        resolveZones: jest.fn(async () => [grid[0]])
+      };
+      const onSelectionChange = jest.fn();
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zoneSource={zoneSource} onSelectionChange={onSelectionChange} />);
+
+      await act(async () => {
+        fireEvent.click(screen.getByText('Load tiles'));
+      });
+      expect(screen.getByTestId('zone-layer').getAttribute('data-zone-ids')).toBe('0-0,0-1');
+
+      await act(async () => {
+        fireEvent.click(screen.getByText('Zone 0-0'));
+      });
+
+      expect(zoneSource.resolveZones).toHaveBeenCalledWith([partial]);
+      expect(onSelectionChange).toHaveBeenLastCalledWith([grid[0]]);
+      expect(ref.current!.getSelectedZones()).toEqual([grid[0]]);
+    });
+
+    it('should keep clipped zones incomplete where validation would repair them', async () => {
+      // Wound clockwise, which validation would rewind into a new object
+      const partial: Zone = { ...grid[0], coordinates: [...square(2.3, 48.8, 0.005)].reverse() };
+      const zoneSource: VectorTileSource = {
+        loadZones: jest.fn(async () => [partial]),
+        isComplete: zone => zone !== partial,
+        resolveZones: jest.fn(async () => [grid[0]])
+      };
+      const ref = React.createRef<LeafletZoneSelectorRef>();
+      render(<LeafletZoneSelector ref={ref} zoneSource={zoneSource} crs="EPSG:3857" />);
+
+      await act(async () => {
+        fireEvent.click(screen.getByText('Load tiles'));
+      });
+      await act(async () => {
+        fireEvent.click(screen.getByText('Zone 0-0'));
+      });
+
+      expect(zoneSource.resolveZones).toHaveBeenCalledWith([partial]);
+      expect(ref.current!.getSelectedZones()).toEqual([grid[0]]);
+    });
+  });
+});
@@ -1,2 +1,16 @@
 export { LeafletZoneSelector } from './LeafletZoneSelector';
-export type { LeafletZoneSelectorProps, LeafletZoneSelectorRef } from './types';
\ No newline at end of file
+export type {
+  LeafletZoneSelectorProps,
+  LeafletZoneSelectorRef,
+  SelectionMetrics,
+  ZoneMetrics,
+  MetricsOptions,
+  AreaUnit,
+  LengthUnit,
+  QuerySelectionOptions,
+  AreaSelectionOptions,
+  DistanceSelectionOptions,
+  ThemeConfig,
+  ChoroplethTheme,
+  ZoneTheme
+} from './types';
\ No newline at end of file
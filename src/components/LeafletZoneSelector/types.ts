@@ -1,7 +1,29 @@
 import type { CSSProperties } from 'react';
 import type { LatLngBoundsExpression, LeafletMouseEvent, Map } from 'leaflet';
-import type { Zone, ExportFormat } from '@/types';
+import type {
+  Zone,
+  ExportFormat,
+  SelectionMode,
+  SelectionCombineMode,
+  SelectionChange,
+  ZoneGroup,
+  GroupAssignmentMode,
+  LatLng,
+  LngLat,
+  ZoneCrs
+} from '@/types';
 import type { TileProvider } from '@/config/tileProviders';
+import type { AdjacencyOptions } from '@/utils/adjacency';
+import type { ValidationOptions } from '@/utils/validation';
+import type { AreaSelectionMode, CoverageThreshold } from '@/utils/areaSelection';
+import type { GroupExportFormat } from '@/utils/groups';
+import type { PersistenceOptions } from '@/utils/persistence';
+import type { SelectionConstraint, SelectionRejection } from '@/utils/constraints';
+import type { ComparisonOptions, ComparisonStatus, SelectionComparison } from '@/utils/comparison';
+import type { VectorTileSource } from '@/utils/vectorTileSource';
+import type { ChoroplethOptions } from '@/utils/choropleth';
+import type { ZoneLabelOptions } from '@/utils/labels';
+import type { NewZoneGroup } from '@/hooks/useZoneGroups';
 
 // Theme configuration
 export interface ThemeConfig {
@@ -21,8 +43,17 @@ export interface ThemeConfig {
   borderRadius?: BorderRadiusScale;
   shadows?: ShadowScale;
   transitions?: TransitionConfig;
+  choropleth?: ChoroplethOptions; // Fill zones by class of a numeric property
 }
 
+// Built-in theme with zones filled by class of a numeric property
+export interface ChoroplethTheme {
+  base?: 'light' | 'dark';
+  choropleth: ChoroplethOptions;
+}
+
+export type ZoneTheme = 'light' | 'dark' | ThemeConfig | ChoroplethTheme;
+
 export interface SpacingScale {
   xs: string;
   sm: string;
@@ -53,39 +84,98 @@ export interface TransitionConfig {
 }
 
 // Selection metrics
+export type AreaUnit = 'm2' | 'ha' | 'km2' | 'acres' | 'mi2';
+export type LengthUnit = 'm' | 'km' | 'mi';
+
+export interface MetricsOptions {
+  areaUnit?: AreaUnit;
+  lengthUnit?: LengthUnit;
+}
+
+export interface ZoneMetrics {
+  zoneId: string;
+  name: string;
+  area: number;
+  perimeter: number;
+  centroid: LngLat;
+}
+
 export interface SelectionMetrics {
   totalArea: number;
-  totalPerimeter: number;
+  totalPerimeter: number; // Outline of the merged selection, shared inner borders excluded
   zoneCount: number;
-  boundingBox: [[number, number], [number, number]];
-  center: [number, number];
+  boundingBox: [LngLat, LngLat];
+  center: LngLat; // Area-weighted centroid
+  units: { area: AreaUnit; length: LengthUnit };
+  zones: ZoneMetrics[];
+}
+
+export interface QuerySelectionOptions {
+  mode?: SelectionCombineMode; // Defaults to 'replace'
+  preview?: boolean; // Highlight matches without touching the selection
+}
+
+export interface AreaSelectionOptions {
+  match?: CoverageThreshold; // Defaults to the boxSelectionMatch prop, or drawingCoverage for shapes
+  mode?: SelectionCombineMode; // Defaults to 'replace'
+}
+
+export interface DistanceSelectionOptions {
+  match?: AreaSelectionMode; // Defaults to 'intersects': any part of the zone within the radius
+  mode?: SelectionCombineMode; // Defaults to 'replace'
 }
 
 // Component props
 export interface LeafletZoneSelectorProps {
   // Map Configuration
-  initialCenter?: [number, number];
+  initialCenter?: LatLng;
   initialZoom?: number;
   minZoom?: number;
   maxZoom?: number;
-  bounds?: [[number, number], [number, number]];
+  bounds?: [LatLng, LatLng];
   
   // Data
   zones?: Zone[];
   loadZonesAsync?: () => Promise<Zone[]>;
+  zoneSource?: VectorTileSource; // Zones loaded from vector tiles as the map moves, instead of `zones`
+  crs?: ZoneCrs; // CRS of the zone coordinates, reprojected to WGS84 on load; not applied to zoneSource zones
+  validateGeometry?: boolean | ValidationOptions; // Repair loaded zones, report the rest via onError; not applied to zoneSource zones
   
   // Selection
   multiSelect?: boolean;
   maxSelections?: number;
-  selectedZoneIds?: string[];
+  constraints?: SelectionConstraint[]; // Checked in order before a zone is selected
+  selectedZoneIds?: string[]; // Controlled: apply changes from onSelectionChange to update
+  defaultSelectedZoneIds?: string[]; // Uncontrolled initial selection
+  selectionMode?: SelectionMode;
+  adjacencyOptions?: AdjacencyOptions;
+  hierarchical?: boolean; // Show zones level by level, using Zone.parentId
+  historyLimit?: number; // Undo steps kept, defaults to 50
+  persistence?: PersistenceOptions; // Restore the selection on reload and from shared links
+  
+  // Comparison
+  comparisonBaseline?: string[]; // Show zones as added / removed / unchanged against these
+  comparisonOptions?: ComparisonOptions; // Summary units and properties, area in km² by default
+  
+  // Groups
+  groups?: ZoneGroup[]; // Initial groups, e.g. one territory per courier
+  groupAssignment?: GroupAssignmentMode; // Defaults to 'exclusive'
   
   // Behavior
   enableSearch?: boolean;
   enableDrawing?: boolean;
+  enableBoxSelection?: boolean; // Shift-drag rectangle, alt-drag lasso; replaces shift-drag box zoom
+  boxSelectionMatch?: AreaSelectionMode;
+  drawingCoverage?: CoverageThreshold; // Zones a drawn shape picks up; a number is the minimum share covered
+  drawingSelectionMode?: SelectionCombineMode; // 'subtract' makes drawing deselect
   enableKeyboardNavigation?: boolean;
   
   // Styling
-  theme?: 'light' | 'dark' | ThemeConfig;
+  theme?: ZoneTheme;
+  showLegend?: boolean; // Legend of the choropleth classes, when the theme has one
+  simplifyTolerance?: number; // Rendering only, in screen pixels; 0 disables simplification
+  viewportPadding?: number; // Share of the view size around it where zones stay drawn
+  labels?: boolean | ZoneLabelOptions; // Zone names on the map, overlapping ones hidden
   containerClassName?: string;
   containerStyle?: CSSProperties;
   
@@ -96,8 +186,14 @@ export interface LeafletZoneSelectorProps {
   
   // Callbacks
   onSelectionChange?: (zones: Zone[]) => void;
+  onSelectionDelta?: (change: SelectionChange) => void;
+  onSelectionRejected?: (zone: Zone, reason: SelectionRejection) => void;
+  onGroupsChange?: (groups: ZoneGroup[]) => void;
   onZoneClick?: (zone: Zone, event: LeafletMouseEvent) => void;
   onZoneHover?: (zone: Zone | null) => void;
+  confirmDisconnect?: (zone: Zone, parts: Zone[][]) => boolean;
+  onDrillChange?: (path: Zone[]) => void;
+  onShapeCreated?: (shape: GeoJSON.Feature, zones: Zone[]) => void; // Circles need properties.radius in metres
   onMapReady?: (map: Map) => void;
   onError?: (error: Error) => void;
   onTileError?: (error: Error) => void;
@@ -111,13 +207,39 @@ export interface LeafletZoneSelectorProps {
 // Component ref interface
 export interface LeafletZoneSelectorRef {
   // Map Control
-  setView: (center: [number, number], zoom?: number) => void;
+  setView: (center: LatLng, zoom?: number) => void;
   fitBounds: (bounds: LatLngBoundsExpression) => void;
   
   // Selection
   selectZones: (zoneIds: string[]) => void;
   clearSelection: () => void;
   getSelectedZones: () => Zone[];
+  selectByQuery: (query: string, options?: QuerySelectionOptions) => Zone[]; // Throws QueryParseError
+  clearPreview: () => void;
+  selectInArea: (area: LatLng[], options?: AreaSelectionOptions) => Zone[];
+  // A circle is a Point feature with properties.radius in metres, e.g. from Leaflet.draw's layer.getRadius()
+  selectByShape: (shape: GeoJSON.Feature | GeoJSON.Geometry, options?: AreaSelectionOptions) => Zone[];
+  invertSelection: () => void;
+  selectInViewport: (options?: AreaSelectionOptions) => Zone[];
+  selectWithinDistance: (center: LatLng, radiusKm: number, options?: DistanceSelectionOptions) => Zone[];
+  getZoneAt: (latlng: LatLng) => Zone | undefined; // Topmost zone at a position
+  
+  // History
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  
+  // Adjacency
+  getNeighbors: (zoneId: string) => Zone[];
+  selectNeighbors: (zoneId: string, includeZone?: boolean) => void;
+  growSelection: (rings?: number) => void;
+  shrinkSelection: (rings?: number) => void;
+  
+  // Hierarchy
+  drillDown: (zoneId: string) => void;
+  drillUp: (levels?: number) => void;
+  getDrillPath: () => Zone[];
   
   // Data
   loadZones: (zones: Zone[]) => void;
@@ -125,7 +247,20 @@ export interface LeafletZoneSelectorRef {
   
   // Export
   exportSelection: (format: ExportFormat) => string | Blob;
-  getSelectionMetrics: () => SelectionMetrics;
+  getSelectionMetrics: (options?: MetricsOptions) => SelectionMetrics;
+  
+  // Comparison
+  compareSelection: (baselineIds: string[], options?: ComparisonOptions) => SelectionComparison;
+  
+  // Groups
+  getGroups: () => ZoneGroup[];
+  createGroup: (group: NewZoneGroup) => ZoneGroup;
+  removeGroup: (groupId: string) => void;
+  assignToGroup: (groupId: string, zoneIds?: string[]) => void; // Defaults to the selected zones
+  unassignFromGroup: (zoneIds: string[], groupId?: string) => void; // All groups when groupId is omitted
+  setActiveGroup: (groupId: string | null) => void; // While set, clicks toggle membership of that group
+  getGroupMetrics: (options?: MetricsOptions) => Record<string, SelectionMetrics>;
+  exportGroups: (format: GroupExportFormat) => string;
 }
 
 // Child component props
@@ -133,19 +268,34 @@ export interface ZoneLayerProps {
   zones: Zone[];
   selectedZoneIds: string[];
   hoveredZoneId?: string;
+  highlightedZoneIds?: string[];
+  groups?: ZoneGroup[]; // Members are drawn in their group's colour
+  comparisonStatus?: Record<string, ComparisonStatus>; // By zone id, while comparing
   onZoneClick: (zone: Zone, event: LeafletMouseEvent) => void;
+  onZoneDoubleClick?: (zone: Zone, event: LeafletMouseEvent) => void;
   onZoneHover: (zone: Zone | null) => void;
-  theme: 'light' | 'dark' | ThemeConfig;
+  theme: ZoneTheme;
+  simplifyTolerance?: number; // Screen pixels; 0 renders full resolution
+  viewportPadding?: number; // Share of the view size; zones beyond it get no layer
 }
 
 export interface SearchInputProps {
-  onLocationFound: (location: { center: [number, number]; bounds?: LatLngBoundsExpression }) => void;
+  onLocationFound: (location: { center: LatLng; bounds?: LatLngBoundsExpression }) => void;
 }
 
 export interface DrawingToolsProps {
   onShapeCreated: (shape: GeoJSON.Feature) => void;
 }
 
+export interface BoxSelectProps {
+  onAreaSelected: (area: LatLng[]) => void;
+}
+
+export interface DrillBreadcrumbProps {
+  path: Zone[];
+  onNavigate: (depth: number) => void;
+}
+
 export interface LoadingOverlayProps {
   message?: string;
 }
@@ -0,0 +1,38 @@
+import { render, screen } from '@testing-library/react';
+import { Legend } from '../index';
+import { classifyZones } from '@/utils/choropleth';
+import type { Zone } from '@/types';
+
+const zones: Zone[] = [1200, 3400, 5600, undefined].map((population, i) => ({
+  id: `zone-${i}`,
+  name: `Zone ${i}`,
+  coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]],
+  properties: population === undefined ? {} : { population }
+}));
+
+describe('Legend', () => {
+  const classification = classifyZones(zones, {
+    property: 'population',
+    method: 'manual',
+    breaks: [0, 2000, 10000],
+    ramp: ['#000000', '#ffffff']
+  });
+
+  it('should list the classes with their colours, then zones without data', () => {
+    render(<Legend classification={classification} />);
+
+    const items = screen.getAllByRole('listitem');
+    expect(screen.getByRole('heading').textContent).toBe('population');
+    expect(items.map(item => item.textContent)).toEqual(['0 – 2,000', '2,000 – 10,000', 'No data']);
+    expect(items[0].title).toBe('1 zones');
+    expect(items[1].title).toBe('2 zones');
+    expect((items[1].firstChild as HTMLElement).style.backgroundColor).toBe('rgb(255, 255, 255)');
+  });
+
+  it('should format values and use the given title', () => {
+    render(<Legend classification={classification} title="Inhabitants" formatValue={value => `${value / 1000}k`} />);
+
+    expect(screen.getByRole('heading').textContent).toBe('Inhabitants');
+    expect(screen.getAllByRole('listitem')[1].textContent).toBe('2k – 10k');
+  });
+});
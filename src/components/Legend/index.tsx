@@ -0,0 +1,35 @@
+import type { ChoroplethClassification } from '@/utils/choropleth';
+
+interface LegendProps {
+  classification: ChoroplethClassification;
+  title?: string; // Defaults to the classified property
+  formatValue?: (value: number) => string;
+  className?: string;
+}
+
+const format = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+// Colour and value range of each choropleth class, with the zone counts
+export const Legend = ({ classification, title, formatValue = format, className }: LegendProps) => {
+  const { property, classes, noDataCount, noDataColor } = classification;
+
+  return (
+    <section className={`leaflet-zone-selector__legend ${className || ''}`} aria-label="Legend">
+      <h2>{title ?? property}</h2>
+      <ul>
+        {classes.map(({ from, to, color, count }) => (
+          <li key={`${from}-${to}`} title={`${count} zones`}>
+            <span className="leaflet-zone-selector__legend-swatch" style={{ backgroundColor: color }} />
+            {from === to ? formatValue(from) : `${formatValue(from)} – ${formatValue(to)}`}
+          </li>
+        ))}
+        {noDataCount > 0 && (
+          <li title={`${noDataCount} zones`}>
+            <span className="leaflet-zone-selector__legend-swatch" style={{ backgroundColor: noDataColor }} />
+            No data
+          </li>
+        )}
+      </ul>
+    </section>
+  );
+};
@@ -1,7 +1,8 @@
 import type { LatLngBoundsExpression } from 'leaflet';
+import type { LatLng } from '@/types';
 
 interface SearchInputProps {
-  onLocationFound: (location: { center: [number, number]; bounds?: LatLngBoundsExpression }) => void;
+  onLocationFound: (location: { center: LatLng; bounds?: LatLngBoundsExpression }) => void;
 }
 
 // Mock implementation for testing
@@ -0,0 +1,24 @@
+import { useEffect } from 'react';
+
+interface SelectionMessageProps {
+  message: string;
+  onDismiss: () => void;
+  duration?: number; // Milliseconds before the message hides itself
+}
+
+// Tells the user why a click did not change the selection
+export const SelectionMessage = ({ message, onDismiss, duration = 4000 }: SelectionMessageProps) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss, duration]);
+
+  return (
+    <div className="leaflet-zone-selector__message" role="alert">
+      <span>{message}</span>
+      <button type="button" aria-label="Dismiss" onClick={onDismiss}>
+        ×
+      </button>
+    </div>
+  );
+};
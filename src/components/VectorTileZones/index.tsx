@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useMap, useMapEvents } from 'react-leaflet';
+import type { Zone } from '@/types';
+import type { VectorTileSource } from '@/utils/vectorTileSource';
+
+interface VectorTileZonesProps {
+  source: VectorTileSource;
+  onZonesLoaded: (zones: Zone[]) => void;
+  onError?: (error: Error) => void;
+}
+
+// Loads the zones of the tiles in view, on mount and after every pan or zoom
+export const VectorTileZones = ({ source, onZonesLoaded, onError }: VectorTileZonesProps) => {
+  const map = useMap();
+  const callbacks = useRef({ onZonesLoaded, onError });
+  callbacks.current = { onZonesLoaded, onError };
+  // Only the latest view's zones are applied when loads overlap
+  const request = useRef(0);
+
+  const load = useCallback(() => {
+    const current = ++request.current;
+    const bounds = map.getBounds();
+    source
+      .loadZones([bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()], map.getZoom())
+      .then(zones => {
+        if (current === request.current) callbacks.current.onZonesLoaded(zones);
+      })
+      .catch((error: Error) => {
+        if (current === request.current) callbacks.current.onError?.(error);
+      });
+  }, [map, source]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useMapEvents({
+    moveend: load
+  });
+
+  return null;
+};
@@ -0,0 +1,44 @@
+import { render } from '@testing-library/react';
+import { ViewportPersistence } from '../index';
+import { readPersistedSelection, writePersistedSelection } from '@/utils/persistence';
+
+let handlers: Record<string, () => void> = {};
+const mockMap = {
+  setView: jest.fn(),
+  getCenter: () => ({ lat: 43.6, lng: 1.44 }),
+  getZoom: () => 9
+};
+
+jest.mock('react-leaflet', () => ({
+  useMap: () => mockMap,
+  useMapEvents: (next: Record<string, () => void>) => {
+    handlers = next;
+    return null;
+  }
+}));
+
+describe('ViewportPersistence', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    window.localStorage.clear();
+  });
+
+  it('should move the map to the stored viewport', () => {
+    writePersistedSelection({ zoneIds: ['a'], view: { center: [48.85, 2.35], zoom: 12 } }, { storage: 'localStorage' });
+    render(<ViewportPersistence storage="localStorage" />);
+
+    expect(mockMap.setView).toHaveBeenCalledWith([48.85, 2.35], 12);
+  });
+
+  it('should store the viewport after the map moves, keeping the selection', () => {
+    writePersistedSelection({ zoneIds: ['a'] }, { storage: 'localStorage', key: 'app' });
+    render(<ViewportPersistence storage="localStorage" storageKey="app" />);
+    expect(mockMap.setView).not.toHaveBeenCalled();
+
+    handlers.moveend();
+    expect(readPersistedSelection({ storage: 'localStorage', key: 'app' })).toEqual({
+      zoneIds: ['a'],
+      view: { center: [43.6, 1.44], zoom: 9 }
+    });
+  });
+});
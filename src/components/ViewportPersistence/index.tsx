@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { useMap, useMapEvents } from 'react-leaflet';
+import { readPersistedSelection, writePersistedSelection } from '@/utils/persistence';
+import type { PersistenceOptions } from '@/utils/persistence';
+
+interface ViewportPersistenceProps {
+  storage: PersistenceOptions['storage'];
+  storageKey?: string;
+}
+
+// Moves the map to the stored viewport on mount and stores it after every pan or zoom
+export const ViewportPersistence = ({ storage, storageKey }: ViewportPersistenceProps) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const view = readPersistedSelection({ storage, key: storageKey })?.view;
+    if (view) {
+      map.setView(view.center, view.zoom);
+    }
+  }, [map, storage, storageKey]);
+
+  useMapEvents({
+    moveend: () => {
+      const { lat, lng } = map.getCenter();
+      writePersistedSelection({ view: { center: [lat, lng], zoom: map.getZoom() } }, { storage, key: storageKey });
+    }
+  });
+
+  return null;
+};
@@ -0,0 +1,122 @@
+import { render, act } from '@testing-library/react';
+import { ZoneLabels } from '../index';
+import type { Zone } from '@/types';
+
+type Handler = () => void;
+
+let handlers: Record<string, Handler> = {};
+let mockZoom = 10;
+const mockPane = document.createElement('div');
+
+// 100 px per degree, y growing southwards
+const mockMap = {
+  getZoom: () => mockZoom,
+  getBounds: () => ({ getWest: () => -1, getSouth: () => -1, getEast: () => 20, getNorth: () => 5 }),
+  getPane: () => undefined,
+  createPane: () => mockPane,
+  latLngToLayerPoint: jest.fn(([lat, lng]: [number, number]) => ({ x: lng * 100, y: -lat * 100 }))
+};
+
+jest.mock('react-leaflet', () => ({
+  useMap: () => mockMap,
+  useMapEvents: (next: Record<string, Handler>) => {
+    handlers = next;
+    return null;
+  }
+}));
+
+// Half a degree tall, so labels of neighbouring zones share a row
+const strip = (id: string, lng: number, width: number, properties?: Record<string, unknown>): Zone => ({
+  id,
+  name: `Zone ${id}`,
+  coordinates: [[[lng, 0], [lng + width, 0], [lng + width, 0.5], [lng, 0.5], [lng, 0]]],
+  properties
+});
+
+const labelIds = () => [...mockPane.querySelectorAll('[data-zone-id]')].map(label => label.getAttribute('data-zone-id'));
+
+describe('ZoneLabels', () => {
+  beforeEach(() => {
+    mockZoom = 10;
+    mockPane.innerHTML = '';
+  });
+
+  it('should label zones at their interior point in the label pane', () => {
+    render(<ZoneLabels zones={[strip('a', 0, 2)]} selectedZoneIds={[]} />);
+
+    const label = mockPane.querySelector<HTMLElement>('[data-zone-id="a"]')!;
+    expect(label.textContent).toBe('Zone a');
+    expect(label.style.transform).toBe('translate(100px, -25px) translate(-50%, -50%)');
+  });
+
+  it('should hide overlapping labels, keeping the larger zone', () => {
+    // Label points 70 px apart, closer than the width of the labels
+    render(<ZoneLabels zones={[strip('small', 0, 0.5), strip('large', 0.5, 0.9)]} selectedZoneIds={[]} />);
+
+    expect(labelIds()).toEqual(['large']);
+  });
+
+  it('should keep the labels of selected zones and style them', () => {
+    render(
+      <ZoneLabels
+        zones={[strip('small', 0, 0.5), strip('large', 0.5, 0.9)]}
+        selectedZoneIds={['small']}
+        options={{ selectedClassName: 'is-selected' }}
+      />
+    );
+
+    expect(labelIds()).toEqual(['small']);
+    expect(mockPane.querySelector('[data-zone-id="small"]')!.className)
+      .toBe('leaflet-zone-selector__label leaflet-zone-selector__label--selected is-selected');
+  });
+
+  it('should rank by a property and fill text templates', () => {
+    render(
+      <ZoneLabels
+        zones={[strip('small', 0, 0.5, { population: 900 }), strip('large', 0.5, 0.9, { population: 100 })]}
+        selectedZoneIds={[]}
+        options={{ priority: 'population', text: '{name}: {population}' }}
+      />
+    );
+
+    expect(labelIds()).toEqual(['small']);
+    expect(mockPane.textContent).toBe('Zone small: 900');
+  });
+
+  it('should only show labels within the zoom range', () => {
+    const zones = [strip('a', 0, 2)];
+    render(<ZoneLabels zones={zones} selectedZoneIds={[]} options={{ minZoom: 12 }} />);
+    expect(labelIds()).toEqual([]);
+
+    mockZoom = 12;
+    act(() => handlers.moveend());
+    expect(labelIds()).toEqual(['a']);
+  });
+
+  it('should not place labels again for equal inline options', () => {
+    const zones = [strip('a', 0, 2)];
+    const selectedZoneIds: string[] = [];
+    const labels = () => (
+      <ZoneLabels
+        zones={zones}
+        selectedZoneIds={selectedZoneIds}
+        options={{ text: zone => zone.id, priority: 'population', padding: 2 }}
+      />
+    );
+    const { rerender } = render(labels());
+    mockMap.latLngToLayerPoint.mockClear();
+
+    rerender(labels());
+    expect(mockMap.latLngToLayerPoint).not.toHaveBeenCalled();
+    expect(mockPane.textContent).toBe('a');
+  });
+
+  it('should hide labels while zooming', () => {
+    render(<ZoneLabels zones={[strip('a', 0, 2)]} selectedZoneIds={[]} />);
+
+    act(() => handlers.zoomstart());
+    expect(labelIds()).toEqual([]);
+    act(() => handlers.zoomend());
+    expect(labelIds()).toEqual(['a']);
+  });
+});
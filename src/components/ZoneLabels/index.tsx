@@ -0,0 +1,115 @@
+import { useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useMap, useMapEvents } from 'react-leaflet';
+import type { Map as LeafletMap } from 'leaflet';
+import type { Zone } from '@/types';
+import { getSpatialIndex } from '@/utils/spatialIndex';
+import type { Bbox } from '@/utils/spatialIndex';
+import {
+  estimateLabelSize,
+  formatLabel,
+  getLabelPoint,
+  getLabelPriority,
+  placeLabels
+} from '@/utils/labels';
+import type { ZoneLabelOptions } from '@/utils/labels';
+
+interface ZoneLabelsProps {
+  zones: Zone[];
+  selectedZoneIds: string[];
+  options?: ZoneLabelOptions;
+}
+
+// Above the zone polygons in the overlay pane, below markers and popups
+const LABEL_PANE = 'zoneLabels';
+
+const viewBbox = (map: LeafletMap): Bbox => {
+  const bounds = map.getBounds();
+  return [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()];
+};
+
+// Zone names at an interior point of each zone on screen. Labels that would overlap are
+// hidden, lowest priority first; selected zones keep theirs. Labels are placed in layer
+// pixels, which only change on zoom, so panning moves them with the map.
+// Placement depends on the option values rather than the options object, so an inline
+// object doesn't re-place labels on every render. Neither does an inline text or priority
+// function: the latest one is used whenever labels are placed.
+export const ZoneLabels = ({ zones, selectedZoneIds, options = {} }: ZoneLabelsProps) => {
+  const { text, priority, minZoom, maxZoom, fontSize = 12, padding = 4, className, selectedClassName } = options;
+  const formatters = useRef({ text, priority });
+  formatters.current = { text, priority };
+  const textTemplate = typeof text === 'function' ? undefined : text;
+  const priorityProperty = typeof priority === 'function' ? undefined : priority;
+  const hasTextFunction = typeof text === 'function';
+  const hasPriorityFunction = typeof priority === 'function';
+  const map = useMap();
+  const [pane] = useState(() => map.getPane(LABEL_PANE) ?? map.createPane(LABEL_PANE));
+  const [view, setView] = useState(() => ({ zoom: map.getZoom(), bbox: viewBbox(map) }));
+  // Positions are stale while a zoom animates
+  const [zooming, setZooming] = useState(false);
+
+  useMapEvents({
+    zoomstart: () => setZooming(true),
+    zoomend: () => setZooming(false),
+    moveend: () => setView({ zoom: map.getZoom(), bbox: viewBbox(map) }),
+    resize: () => setView({ zoom: map.getZoom(), bbox: viewBbox(map) })
+  });
+
+  const selectedIds = useMemo(() => new Set(selectedZoneIds), [selectedZoneIds]);
+  const inZoomRange = view.zoom >= (minZoom ?? -Infinity) && view.zoom <= (maxZoom ?? Infinity);
+
+  const labels = useMemo(() => {
+    if (!inZoomRange) return [];
+    const labelText = hasTextFunction ? formatters.current.text : textTemplate;
+    const labelPriority = hasPriorityFunction ? formatters.current.priority : priorityProperty;
+
+    const candidates = getSpatialIndex(zones).search(view.bbox).flatMap(zone => {
+      const label = formatLabel(zone, labelText);
+      if (label.trim() === '') return [];
+
+      const [lng, lat] = getLabelPoint(zone);
+      const { x, y } = map.latLngToLayerPoint([lat, lng]);
+      const selected = selectedIds.has(zone.id);
+      return [{
+        zone,
+        label,
+        selected,
+        candidate: {
+          id: zone.id,
+          x,
+          y,
+          ...estimateLabelSize(label, fontSize),
+          priority: getLabelPriority(zone, labelPriority),
+          selected
+        }
+      }];
+    });
+
+    const placed = placeLabels(candidates.map(({ candidate }) => candidate), padding);
+    return candidates.filter(({ zone }) => placed.has(zone.id));
+  }, [
+    inZoomRange, zones, view, map, textTemplate, hasTextFunction, priorityProperty, hasPriorityFunction,
+    fontSize, padding, selectedIds
+  ]);
+
+  if (zooming || labels.length === 0) return null;
+
+  return createPortal(
+    labels.map(({ zone, label, selected, candidate }) => (
+      <div
+        key={zone.id}
+        className={[
+          'leaflet-zone-selector__label',
+          className,
+          selected && 'leaflet-zone-selector__label--selected',
+          selected && selectedClassName
+        ].filter(Boolean).join(' ')}
+        style={{ transform: `translate(${candidate.x}px, ${candidate.y}px) translate(-50%, -50%)`, fontSize }}
+        data-zone-id={zone.id}
+      >
+        {label}
+      </div>
+    )),
+    pane
+  );
+};
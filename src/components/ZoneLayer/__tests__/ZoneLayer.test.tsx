@@ -0,0 +1,267 @@
+import { render, act, fireEvent, screen } from '@testing-library/react';
+import { ZoneLayer } from '../index';
+import type { Zone, Ring } from '@/types';
+import type { PathOptions } from 'leaflet';
+import { createZone, square } from '../../../../tests/utils/mapTestUtils';
+
+const zoomEndHandlers: Array<() => void> = [];
+const moveEndHandlers: Array<() => void> = [];
+let mockZoom = 6;
+let mockBounds = { west: -10, south: 40, east: 10, north: 55 };
+
+let polygonRenders = 0;
+
+jest.mock('react-leaflet', () => ({
+  useMap: () => ({
+    getZoom: () => mockZoom,
+    getBounds: () => ({
+      getWest: () => mockBounds.west,
+      getSouth: () => mockBounds.south,
+      getEast: () => mockBounds.east,
+      getNorth: () => mockBounds.north
+    })
+  }),
+  useMapEvents: (handlers: { zoomend: () => void; moveend: () => void }) => {
+    zoomEndHandlers.push(handlers.zoomend);
+    moveEndHandlers.push(handlers.moveend);
+    return null;
+  },
+  // Stands in for the Leaflet layer: exposes what react-leaflet would pass to it
+  Polygon: ({ positions, pathOptions, eventHandlers }: {
+    positions: unknown;
+    pathOptions: PathOptions;
+    eventHandlers: Record<string, (event?: unknown) => void>;
+  }) => {
+    polygonRenders++;
+    return (
+      <div
+        data-testid="polygon"
+        data-positions={JSON.stringify(positions)}
+        data-path-options={JSON.stringify(pathOptions)}
+        onClick={() => eventHandlers.click({})}
+        onDoubleClick={() => eventHandlers.dblclick({})}
+        onMouseEnter={() => eventHandlers.mouseover()}
+        onMouseLeave={() => eventHandlers.mouseout()}
+      />
+    );
+  }
+}));
+
+const circle: Ring = Array.from({ length: 500 }, (_, i): [number, number] => {
+  const angle = (i / 500) * 2 * Math.PI;
+  return [2.3522 + 0.01 * Math.cos(angle), 48.8566 + 0.01 * Math.sin(angle)];
+});
+const zone: Zone = { id: 'complex', name: 'Complex', coordinates: [[...circle, circle[0]]] };
+
+// One degree square at `lng`
+const cell = (id: string, lng: number) => createZone(id, [square(lng, 48, 1)]);
+
+const polygons = () => screen.getAllByTestId('polygon');
+// Single polygons are drawn as a list of rings, the outer ring first
+const outerRing = (): number[][] => JSON.parse(polygons()[0].getAttribute('data-positions')!)[0];
+const vertexCount = () => outerRing().length;
+const pathOptions = (index = 0): PathOptions => JSON.parse(polygons()[index].getAttribute('data-path-options')!);
+
+describe('ZoneLayer', () => {
+  beforeEach(() => {
+    mockZoom = 6;
+    mockBounds = { west: -10, south: 40, east: 10, north: 55 };
+    zoomEndHandlers.length = 0;
+    moveEndHandlers.length = 0;
+    polygonRenders = 0;
+  });
+
+  it('should render simplified geometry and re-simplify on zoom', () => {
+    render(
+      <ZoneLayer zones={[zone]} selectedZoneIds={[]} onZoneClick={jest.fn()} onZoneHover={jest.fn()} theme="light" />
+    );
+    const far = vertexCount();
+
+    mockZoom = 16;
+    act(() => zoomEndHandlers.forEach(handler => handler()));
+
+    expect(far).toBeLessThan(vertexCount());
+    expect(vertexCount()).toBeLessThanOrEqual(501);
+  });
+
+  it('should render full resolution when simplification is disabled', () => {
+    render(
+      <ZoneLayer zones={[zone]} selectedZoneIds={[]} onZoneClick={jest.fn()} onZoneHover={jest.fn()} theme="light" simplifyTolerance={0} />
+    );
+    expect(vertexCount()).toBe(501);
+  });
+
+  it('should pass the full-resolution zone to click handlers', () => {
+    const onZoneClick = jest.fn();
+    render(
+      <ZoneLayer zones={[zone]} selectedZoneIds={[]} onZoneClick={onZoneClick} onZoneHover={jest.fn()} theme="light" />
+    );
+
+    fireEvent.click(polygons()[0]);
+    expect(onZoneClick.mock.calls[0][0]).toBe(zone);
+  });
+
+  it('should draw positions as [lat, lng]', () => {
+    render(
+      <ZoneLayer zones={[cell('a', 2)]} selectedZoneIds={[]} onZoneClick={jest.fn()} onZoneHover={jest.fn()} theme="light" />
+    );
+
+    expect(outerRing()[0]).toEqual([48, 2]);
+  });
+
+  it('should report hover and double-click', () => {
+    const onZoneHover = jest.fn();
+    const onZoneDoubleClick = jest.fn();
+    const target = cell('a', 2);
+    render(
+      <ZoneLayer
+        zones={[target]}
+        selectedZoneIds={[]}
+        onZoneClick={jest.fn()}
+        onZoneDoubleClick={onZoneDoubleClick}
+        onZoneHover={onZoneHover}
+        theme="light"
+      />
+    );
+
+    fireEvent.mouseEnter(polygons()[0]);
+    fireEvent.mouseLeave(polygons()[0]);
+    fireEvent.doubleClick(polygons()[0]);
+
+    expect(onZoneHover.mock.calls).toEqual([[target], [null]]);
+    expect(onZoneDoubleClick.mock.calls[0][0]).toBe(target);
+  });
+
+  it('should style normal, hovered and selected zones from the theme', () => {
+    const zones = [cell('a', 0), cell('b', 1), cell('c', 2)];
+    render(
+      <ZoneLayer
+        zones={zones}
+        selectedZoneIds={['c']}
+        hoveredZoneId="b"
+        onZoneClick={jest.fn()}
+        onZoneHover={jest.fn()}
+        theme={{ colors: { primary: '#111111', secondary: '#222222', background: '#fff', surface: '#fff', text: '#000', border: '#ccc', hover: '#333333', selected: '#444444' } }}
+      />
+    );
+
+    expect(pathOptions(0).color).toBe('#111111');
+    expect(pathOptions(1).color).toBe('#333333');
+    expect(pathOptions(2).color).toBe('#444444');
+    expect(pathOptions(2).fillOpacity).toBeGreaterThan(pathOptions(0).fillOpacity!);
+  });
+
+  it('should only re-render zones whose selection changed', () => {
+    const zones = [cell('a', 0), cell('b', 1), cell('c', 2)];
+    const props = { zones, onZoneClick: jest.fn(), onZoneHover: jest.fn(), theme: 'light' as const };
+    const { rerender } = render(<ZoneLayer {...props} selectedZoneIds={[]} />);
+    polygonRenders = 0;
+
+    rerender(<ZoneLayer {...props} selectedZoneIds={['b']} />);
+
+    expect(polygonRenders).toBe(1);
+    expect(pathOptions(1).color).toBe('#1d4ed8');
+  });
+
+  it('should keep polygons as they are for an equal inline theme', () => {
+    const zones = [{ ...cell('a', 0), properties: { population: 10 } }, { ...cell('b', 1), properties: { population: 20 } }];
+    const props = { zones, selectedZoneIds: [], onZoneClick: jest.fn(), onZoneHover: jest.fn() };
+    const theme = () => ({ choropleth: { property: 'population', classes: 2 } });
+    const { rerender } = render(<ZoneLayer {...props} theme={theme()} />);
+    polygonRenders = 0;
+
+    rerender(<ZoneLayer {...props} theme={theme()} />);
+    expect(polygonRenders).toBe(0);
+  });
+
+  it('should add and remove layers as zones change', () => {
+    const props = { selectedZoneIds: [], onZoneClick: jest.fn(), onZoneHover: jest.fn(), theme: 'light' as const };
+    const a = cell('a', 0);
+    const { rerender } = render(<ZoneLayer {...props} zones={[a]} />);
+    polygonRenders = 0;
+
+    rerender(<ZoneLayer {...props} zones={[a, cell('b', 1)]} />);
+    expect(polygons()).toHaveLength(2);
+    expect(polygonRenders).toBe(1);
+
+    rerender(<ZoneLayer {...props} zones={[cell('b', 1)]} />);
+    expect(polygons()).toHaveLength(1);
+  });
+
+  it('should colour zones by their first group', () => {
+    const groups = [
+      { id: 'a', name: 'A', color: '#ff0000', zoneIds: ['complex'] },
+      { id: 'b', name: 'B', color: '#0000ff', zoneIds: ['complex'] }
+    ];
+    render(
+      <ZoneLayer zones={[zone]} selectedZoneIds={[]} groups={groups} onZoneClick={jest.fn()} onZoneHover={jest.fn()} theme="light" />
+    );
+
+    expect(pathOptions().color).toBe('#ff0000');
+    expect(pathOptions().fillColor).toBe('#ff0000');
+  });
+
+  it('should colour zones by their comparison status', () => {
+    render(
+      <ZoneLayer
+        zones={[zone]}
+        selectedZoneIds={[]}
+        comparisonStatus={{ complex: 'removed' }}
+        onZoneClick={jest.fn()}
+        onZoneHover={jest.fn()}
+        theme="light"
+      />
+    );
+
+    expect(pathOptions().color).toBe('#dc2626');
+    expect(pathOptions().dashArray).toBe('6 4');
+  });
+
+  it('should fill zones by choropleth class and outline the selection', () => {
+    const zones = [
+      { ...cell('low', 2), properties: { population: 10 } },
+      { ...cell('mid', 4), properties: { population: 600 } },
+      // Off screen, but still part of the classification
+      { ...cell('high', 40), properties: { population: 1000 } }
+    ];
+    const theme = {
+      choropleth: { property: 'population', method: 'equalInterval' as const, classes: 2, ramp: ['#000000', '#ffffff'] }
+    };
+    render(
+      <ZoneLayer zones={zones} selectedZoneIds={['mid']} onZoneClick={jest.fn()} onZoneHover={jest.fn()} theme={theme} />
+    );
+
+    expect(polygons()).toHaveLength(2);
+    expect(pathOptions(0)).toMatchObject({ fillColor: '#000000', color: '#ffffff', fillOpacity: 0.7 });
+    expect(pathOptions(1)).toMatchObject({ fillColor: '#ffffff', color: '#1d4ed8', weight: 3 });
+  });
+
+  it('should only draw zones near the viewport', () => {
+    const zones = [cell('near', 2), cell('margin', 12), cell('far', 40)];
+    render(
+      <ZoneLayer zones={zones} selectedZoneIds={[]} onZoneClick={jest.fn()} onZoneHover={jest.fn()} theme="light" />
+    );
+
+    // The view spans 20° of longitude, so the default half-view margin reaches 20°E
+    const drawn = () => polygons().map(element => JSON.parse(element.getAttribute('data-positions')!)[0][0][1]);
+    expect(drawn()).toEqual([2, 12]);
+
+    mockBounds = { west: 30, south: 40, east: 50, north: 55 };
+    act(() => moveEndHandlers.forEach(handler => handler()));
+    expect(drawn()).toEqual([40]);
+  });
+
+  it('should keep layers that stay on screen when panning', () => {
+    const zones = [cell('a', 0), cell('b', 1)];
+    render(
+      <ZoneLayer zones={zones} selectedZoneIds={[]} onZoneClick={jest.fn()} onZoneHover={jest.fn()} theme="light" />
+    );
+    polygonRenders = 0;
+
+    mockBounds = { west: -9, south: 40, east: 11, north: 55 };
+    act(() => moveEndHandlers.forEach(handler => handler()));
+
+    expect(polygons()).toHaveLength(2);
+    expect(polygonRenders).toBe(0);
+  });
+});
@@ -1,30 +1,166 @@
-import type { Zone } from '@/types';
-import type { LeafletMouseEvent } from 'leaflet';
+import { memo, useMemo, useRef, useState } from 'react';
+import { Polygon, useMap, useMapEvents } from 'react-leaflet';
+import type { Zone, ZoneGroup } from '@/types';
+import type { LeafletMouseEvent, Map as LeafletMap, PathOptions } from 'leaflet';
+import type { ZoneTheme } from '@/components/LeafletZoneSelector/types';
+import { zoneToLatLngs } from '@/utils/geometry';
+import { simplifyZoneForZoom } from '@/utils/simplify';
+import { getGroupsByZone } from '@/utils/groups';
+import { createZoneStyler, getThemeChoropleth } from '@/utils/zoneStyles';
+import { getChoroplethClassification } from '@/utils/choropleth';
+import { getSpatialIndex } from '@/utils/spatialIndex';
+import type { Bbox } from '@/utils/spatialIndex';
+import type { ComparisonStatus } from '@/utils/comparison';
 
 interface ZoneLayerProps {
   zones: Zone[];
   selectedZoneIds: string[];
   hoveredZoneId?: string;
+  highlightedZoneIds?: string[];
+  groups?: ZoneGroup[];
+  comparisonStatus?: Record<string, ComparisonStatus>;
   onZoneClick: (zone: Zone, event: LeafletMouseEvent) => void;
+  onZoneDoubleClick?: (zone: Zone, event: LeafletMouseEvent) => void;
   onZoneHover: (zone: Zone | null) => void;
-  theme: string | object;
+  theme: ZoneTheme;
+  simplifyTolerance?: number;
+  viewportPadding?: number; // Share of the view size kept rendered around it
 }
 
-// Mock implementation for testing
-export const ZoneLayer = ({ zones, onZoneClick, onZoneHover }: ZoneLayerProps) => {
+type ZoneHandlers = Pick<ZoneLayerProps, 'onZoneClick' | 'onZoneDoubleClick' | 'onZoneHover'>;
+
+interface ZonePolygonProps {
+  zone: Zone;
+  geometry: Zone; // Simplified copy of the zone, used for drawing only
+  pathOptions: PathOptions;
+  handlers: React.RefObject<ZoneHandlers>;
+}
+
+const viewBbox = (map: LeafletMap): Bbox => {
+  const bounds = map.getBounds();
+  return [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()];
+};
+
+// View grown by `padding` times its size on each side, so short pans don't reveal
+// undrawn zones before the next moveend
+const padBbox = ([west, south, east, north]: Bbox, padding: number): Bbox => {
+  const lngPad = (east - west) * padding;
+  const latPad = (north - south) * padding;
+  return [west - lngPad, south - latPad, east + lngPad, north + latPad];
+};
+
+// One Leaflet polygon per zone. Memoised so a change to one zone's style or geometry
+// only updates that zone's layer; react-leaflet turns the prop change into setStyle or
+// setLatLngs on the existing layer.
+const ZonePolygon = memo(({ zone, geometry, pathOptions, handlers }: ZonePolygonProps) => {
+  const positions = useMemo(() => {
+    const polygons = zoneToLatLngs(geometry);
+    return polygons.length === 1 ? polygons[0] : polygons;
+  }, [geometry]);
+
+  // Handlers read the latest callbacks, so the layer's listeners never need rebinding
+  const eventHandlers = useMemo(() => ({
+    click: (event: LeafletMouseEvent) => handlers.current?.onZoneClick(zone, event),
+    dblclick: (event: LeafletMouseEvent) => handlers.current?.onZoneDoubleClick?.(zone, event),
+    mouseover: () => handlers.current?.onZoneHover(zone),
+    mouseout: () => handlers.current?.onZoneHover(null)
+  }), [zone, handlers]);
+
+  return <Polygon positions={positions} pathOptions={pathOptions} eventHandlers={eventHandlers} />;
+});
+
+ZonePolygon.displayName = 'ZonePolygon';
+
+export const ZoneLayer = ({
+  zones,
+  selectedZoneIds,
+  hoveredZoneId,
+  highlightedZoneIds = [],
+  groups = [],
+  comparisonStatus,
+  onZoneClick,
+  onZoneDoubleClick,
+  onZoneHover,
+  theme,
+  simplifyTolerance = 1,
+  viewportPadding = 0.5
+}: ZoneLayerProps) => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  const [view, setView] = useState(() => viewBbox(map));
+  const handlers = useRef<ZoneHandlers>({ onZoneClick, onZoneDoubleClick, onZoneHover });
+  handlers.current = { onZoneClick, onZoneDoubleClick, onZoneHover };
+
+  useMapEvents({
+    zoomend: () => setZoom(map.getZoom()),
+    moveend: () => setView(viewBbox(map)),
+    resize: () => setView(viewBbox(map))
+  });
+
+  // Only zones near the view get a layer; the rest are added as the map pans to them
+  const onScreen = useMemo(
+    () => getSpatialIndex(zones).search(padBbox(view, viewportPadding)),
+    [zones, view, viewportPadding]
+  );
+
+  // Simplified geometry per zone for the current zoom, kept across pans so zones
+  // that stay on screen keep their layer untouched
+  const simplified = useRef({ zoom, simplifyTolerance, geometries: new WeakMap<Zone, Zone>() });
+
+  // Handlers receive the full-resolution zone, only the drawn geometry is simplified
+  const rendered = useMemo(() => {
+    if (simplified.current.zoom !== zoom || simplified.current.simplifyTolerance !== simplifyTolerance) {
+      simplified.current = { zoom, simplifyTolerance, geometries: new WeakMap() };
+    }
+    const { geometries } = simplified.current;
+
+    return onScreen.map(zone => {
+      let geometry = geometries.get(zone);
+      if (!geometry) {
+        geometry = simplifyZoneForZoom(zone, zoom, simplifyTolerance);
+        geometries.set(zone, geometry);
+      }
+      return { zone, geometry };
+    });
+  }, [onScreen, zoom, simplifyTolerance]);
+
+  // Themes are plain data compared by value, so an inline theme object keeps the styles,
+  // and with them every polygon's pathOptions, across renders
+  const themeRef = useRef(theme);
+  if (JSON.stringify(themeRef.current) !== JSON.stringify(theme)) {
+    themeRef.current = theme;
+  }
+  const stableTheme = themeRef.current;
+
+  const styleZone = useMemo(() => createZoneStyler(stableTheme), [stableTheme]);
+  // Classes come from every zone, not only those on screen, so colours don't shift while panning
+  const choropleth = useMemo(() => {
+    const options = getThemeChoropleth(stableTheme);
+    return options ? getChoroplethClassification(zones, options) : null;
+  }, [zones, stableTheme]);
+  const selectedIds = useMemo(() => new Set(selectedZoneIds), [selectedZoneIds]);
+  const highlightedIds = useMemo(() => new Set(highlightedZoneIds), [highlightedZoneIds]);
+  const groupsByZone = useMemo(() => getGroupsByZone(groups), [groups]);
+
   return (
     <>
-      {zones.map((zone) => (
-        <div
+      {rendered.map(({ zone, geometry }) => (
+        <ZonePolygon
           key={zone.id}
-          data-testid={`zone-${zone.id}`}
-          onClick={(e) => onZoneClick(zone, e as unknown as LeafletMouseEvent)}
-          onMouseEnter={() => onZoneHover(zone)}
-          onMouseLeave={() => onZoneHover(null)}
-        >
-          Zone: {zone.name}
-        </div>
+          zone={zone}
+          geometry={geometry}
+          handlers={handlers}
+          pathOptions={styleZone({
+            selected: selectedIds.has(zone.id),
+            hovered: zone.id === hoveredZoneId,
+            highlighted: highlightedIds.has(zone.id),
+            // A zone in several groups takes the colour of the first one
+            groupColor: groupsByZone.get(zone.id)?.[0].color,
+            comparison: comparisonStatus?.[zone.id],
+            fillColor: choropleth?.colorOf(zone)
+          })}
+        />
       ))}
     </>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,83 @@
+import { renderHook } from '@testing-library/react';
+import { useZoneMetrics } from '../useZoneMetrics';
+import * as metricsModule from '@/utils/metrics';
+import type { Zone } from '@/types';
+import { square } from '../../../tests/utils/mapTestUtils';
+
+const zoneA: Zone = { id: 'a', name: 'A', coordinates: square(2.3, 48.8, 0.01), properties: { population: 100 } };
+const zoneB: Zone = { id: 'b', name: 'B', coordinates: square(2.31, 48.8, 0.01), properties: { population: 300 } };
+const zoneC: Zone = { id: 'c', name: 'C', coordinates: square(2.5, 48.8, 0.01), properties: { population: 'n/a' } };
+
+describe('useZoneMetrics', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return empty metrics for an empty selection', () => {
+    const { result } = renderHook(() => useZoneMetrics([]));
+    expect(result.current.metrics.zoneCount).toBe(0);
+    expect(result.current.metrics.totalArea).toBe(0);
+  });
+
+  it('should match calculateMetrics for tiled zones', () => {
+    const { result } = renderHook(() => useZoneMetrics([zoneA, zoneB, zoneC], { areaUnit: 'km2', lengthUnit: 'km' }));
+    const full = metricsModule.calculateMetrics([zoneA, zoneB, zoneC], { areaUnit: 'km2', lengthUnit: 'km' });
+
+    expect(result.current.metrics.totalArea).toBeCloseTo(full.totalArea, 4);
+    expect(result.current.metrics.totalPerimeter).toBeCloseTo(full.totalPerimeter, 3);
+    expect(result.current.metrics.center[0]).toBeCloseTo(full.center[0], 6);
+    expect(result.current.metrics.boundingBox).toEqual(full.boundingBox);
+    expect(result.current.metrics.units).toEqual({ area: 'km2', length: 'km' });
+  });
+
+  it('should accept a selection state', () => {
+    const { result } = renderHook(() => useZoneMetrics({ selectedZones: [zoneA] }));
+    expect(result.current.metrics.zoneCount).toBe(1);
+  });
+
+  it('should only measure zones added since the last render', () => {
+    const zoneSpy = jest.spyOn(metricsModule, 'calculateZoneMetrics');
+    const pairSpy = jest.spyOn(metricsModule, 'measureZonePair');
+
+    const { result, rerender } = renderHook(({ zones }) => useZoneMetrics(zones), {
+      initialProps: { zones: [zoneA] }
+    });
+    expect(zoneSpy).toHaveBeenCalledTimes(1);
+
+    rerender({ zones: [zoneA, zoneB] });
+    expect(zoneSpy).toHaveBeenCalledTimes(2);
+    expect(pairSpy).toHaveBeenCalledTimes(1);
+
+    // zone C is far away: no pair measurement needed
+    rerender({ zones: [zoneA, zoneB, zoneC] });
+    expect(zoneSpy).toHaveBeenCalledTimes(3);
+    expect(pairSpy).toHaveBeenCalledTimes(1);
+
+    rerender({ zones: [zoneA, zoneC] });
+    expect(zoneSpy).toHaveBeenCalledTimes(3);
+    expect(result.current.metrics.zoneCount).toBe(2);
+
+    const full = metricsModule.calculateMetrics([zoneA, zoneC]);
+    expect(result.current.metrics.totalPerimeter).toBeCloseTo(full.totalPerimeter, 0);
+  });
+
+  it('should aggregate numeric properties', () => {
+    const { result } = renderHook(() =>
+      useZoneMetrics([zoneA, zoneB, zoneC], { properties: ['population', 'households'] })
+    );
+
+    expect(result.current.aggregations.population).toEqual({
+      sum: 400,
+      average: 200,
+      min: 100,
+      max: 300,
+      count: 2
+    });
+    expect(result.current.aggregations.households.count).toBe(0);
+  });
+
+  it('should expose a full recalculation', () => {
+    const { result } = renderHook(() => useZoneMetrics([zoneA, zoneB]));
+    expect(result.current.calculateMetrics().zoneCount).toBe(2);
+  });
+});
@@ -0,0 +1,38 @@
+import { renderHook } from '@testing-library/react';
+import { useZoneQuery } from '../useZoneQuery';
+import { QueryParseError } from '@/utils/query';
+import type { Zone } from '@/types';
+
+const zones: Zone[] = [1, 2, 3].map(index => ({
+  id: `zone-${index}`,
+  name: `Zone ${index}`,
+  coordinates: [[0, 0], [1, 0], [1, 1], [0, 0]],
+  properties: { population: index * 1000 }
+}));
+
+describe('useZoneQuery', () => {
+  it('should return the matching zones', () => {
+    const { result } = renderHook(() => useZoneQuery(zones, 'population >= 2000'));
+    expect(result.current.matches.map(zone => zone.id)).toEqual(['zone-2', 'zone-3']);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should return parse errors instead of throwing', () => {
+    const { result } = renderHook(() => useZoneQuery(zones, 'population >='));
+    expect(result.current.matches).toEqual([]);
+    expect(result.current.error).toBeInstanceOf(QueryParseError);
+  });
+
+  it('should match nothing for an empty query', () => {
+    const { result } = renderHook(() => useZoneQuery(zones, ''));
+    expect(result.current.matches).toEqual([]);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should keep matches stable while inputs are unchanged', () => {
+    const { result, rerender } = renderHook(() => useZoneQuery(zones, 'population > 0'));
+    const first = result.current.matches;
+    rerender();
+    expect(result.current.matches).toBe(first);
+  });
+});
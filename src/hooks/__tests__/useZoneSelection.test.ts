@@ -0,0 +1,315 @@
+import { renderHook, act } from '@testing-library/react';
+import { useZoneSelection } from '../useZoneSelection';
+import type { Zone } from '@/types';
+import { createCellRow, square } from '../../../tests/utils/mapTestUtils';
+
+// Row of three touching cells
+const zones = createCellRow();
+
+const ids = (selected: Zone[]) => selected.map(zone => zone.id);
+
+describe('useZoneSelection', () => {
+  describe('contiguous mode', () => {
+    it('should reject zones that do not touch the selection', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones, selectionMode: 'contiguous' }));
+
+      act(() => result.current.selectZone(zones[0]));
+      act(() => result.current.selectZone(zones[2]));
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0']);
+
+      act(() => result.current.selectZone(zones[1]));
+      act(() => result.current.selectZone(zones[2]));
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-1', 'cell-2']);
+    });
+
+    it('should refuse deselecting a zone that splits the selection', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones, selectionMode: 'contiguous' }));
+
+      act(() => zones.forEach(result.current.selectZone));
+      act(() => result.current.deselectZone('cell-1'));
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-1', 'cell-2']);
+
+      act(() => result.current.deselectZone('cell-2'));
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-1']);
+    });
+
+    it('should let the host confirm a split', () => {
+      const confirmDisconnect = jest.fn(() => true);
+      const { result } = renderHook(() =>
+        useZoneSelection({ zones, selectionMode: 'contiguous', confirmDisconnect })
+      );
+
+      act(() => zones.forEach(result.current.selectZone));
+      act(() => result.current.deselectZone('cell-1'));
+
+      expect(confirmDisconnect).toHaveBeenCalledWith(zones[1], [[zones[0]], [zones[2]]]);
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-2']);
+    });
+
+    it('should check splits against changes made earlier in the same batch', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones, selectionMode: 'contiguous' }));
+
+      act(() => zones.forEach(result.current.selectZone));
+      act(() => result.current.batchChanges(() => {
+        result.current.deselectZone('cell-2');
+        result.current.deselectZone('cell-1');
+      }));
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0']);
+    });
+
+    it('should add matches that only reach the selection through a later match', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones, selectionMode: 'contiguous' }));
+
+      act(() => result.current.selectZone(zones[0]));
+      act(() => result.current.applySelection([zones[2], zones[1]], 'add'));
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-1', 'cell-2']);
+
+      act(() => result.current.applySelection([zones[0], zones[2], zones[1]]));
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-1', 'cell-2']);
+    });
+
+    it('should apply the rules to the initial selection', () => {
+      const onSelectionRejected = jest.fn();
+      const { result } = renderHook(() => useZoneSelection({
+        zones,
+        selectionMode: 'contiguous',
+        initialSelection: ['cell-0', 'cell-2'],
+        onSelectionRejected
+      }));
+
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0']);
+      expect(onSelectionRejected).toHaveBeenCalledWith(zones[2], expect.objectContaining({ type: 'contiguous' }));
+    });
+
+    it('should not constrain free mode', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones }));
+
+      act(() => result.current.selectZone(zones[0]));
+      act(() => result.current.selectZone(zones[2]));
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-2']);
+    });
+  });
+
+  describe('hierarchical selection', () => {
+    const parent: Zone = { id: 'paris', name: 'Paris', coordinates: square(2.3, 48.8, 0.03) };
+    const children = zones.map(zone => ({ ...zone, parentId: 'paris' }));
+    const family = [parent, ...children];
+
+    it('should roll up into the parent once every child is selected', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones: family, hierarchical: true }));
+
+      act(() => children.forEach(result.current.selectZone));
+      expect(ids(result.current.selectedZones)).toEqual(['paris']);
+      expect(result.current.isZoneSelected('cell-1')).toBe(true);
+    });
+
+    it('should keep siblings when a child of a selected parent is deselected', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones: family, hierarchical: true }));
+
+      act(() => result.current.selectZone(parent));
+      act(() => result.current.deselectZone('cell-1'));
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-2']);
+    });
+
+    it('should absorb selected children when the parent is selected', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones: family, hierarchical: true }));
+
+      act(() => result.current.selectZone(children[0]));
+      act(() => result.current.selectZone(parent));
+      expect(ids(result.current.selectedZones)).toEqual(['paris']);
+    });
+  });
+
+  describe('history', () => {
+    it('should undo and redo selection changes', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones }));
+
+      act(() => result.current.selectZone(zones[0]));
+      act(() => result.current.selectZone(zones[1]));
+      act(() => result.current.clearSelection());
+      expect(result.current.canRedo).toBe(false);
+
+      act(() => result.current.undo());
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-1']);
+      act(() => result.current.undo());
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0']);
+      expect(result.current.canRedo).toBe(true);
+
+      act(() => result.current.redo());
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-1']);
+    });
+
+    it('should drop the redo stack on a new change', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones }));
+
+      act(() => result.current.selectZone(zones[0]));
+      act(() => result.current.undo());
+      act(() => result.current.selectZone(zones[2]));
+
+      expect(result.current.canRedo).toBe(false);
+      expect(ids(result.current.selectedZones)).toEqual(['cell-2']);
+    });
+
+    it('should not record changes that leave the selection as it was', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones }));
+
+      act(() => result.current.clearSelection());
+      act(() => result.current.deselectZone('cell-0'));
+      act(() => result.current.selectZone(zones[0]));
+      act(() => result.current.selectZone(zones[0]));
+
+      act(() => result.current.undo());
+      expect(result.current.selectedZones).toEqual([]);
+      expect(result.current.canUndo).toBe(false);
+    });
+
+    it('should record a batch as a single step', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones }));
+
+      act(() => result.current.batchChanges(() => zones.forEach(result.current.selectZone)));
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-1', 'cell-2']);
+
+      act(() => result.current.undo());
+      expect(result.current.selectedZones).toEqual([]);
+    });
+
+    it('should keep at most historyLimit steps', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones, historyLimit: 2 }));
+
+      zones.forEach(zone => act(() => result.current.selectZone(zone)));
+      act(() => result.current.undo());
+      act(() => result.current.undo());
+      act(() => result.current.undo());
+
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0']);
+      expect(result.current.canUndo).toBe(false);
+    });
+  });
+
+  describe('controlled selection', () => {
+    it('should apply initialSelection without reporting a change', () => {
+      const onSelectionChange = jest.fn();
+      const { result } = renderHook(() =>
+        useZoneSelection({ zones, initialSelection: ['cell-1'], onSelectionChange })
+      );
+
+      expect(ids(result.current.selectedZones)).toEqual(['cell-1']);
+      expect(onSelectionChange).not.toHaveBeenCalled();
+    });
+
+    it('should follow selectedZoneIds and report changes without applying them', () => {
+      const onSelectionChange = jest.fn();
+      const { result, rerender } = renderHook(
+        ({ selected }) => useZoneSelection({ zones, selectedZoneIds: selected, onSelectionChange }),
+        { initialProps: { selected: ['cell-0'] } }
+      );
+
+      act(() => result.current.selectZone(zones[1]));
+      expect(onSelectionChange).toHaveBeenCalledWith([zones[0], zones[1]]);
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0']);
+
+      rerender({ selected: ['cell-2'] });
+      expect(ids(result.current.selectedZones)).toEqual(['cell-2']);
+    });
+
+    it('should report added and removed zones with the reason', () => {
+      const onSelectionDelta = jest.fn();
+      const { result } = renderHook(() => useZoneSelection({ zones, onSelectionDelta }));
+
+      act(() => result.current.selectZone(zones[0]));
+      expect(onSelectionDelta).toHaveBeenLastCalledWith({ added: [zones[0]], removed: [], reason: 'api' });
+
+      act(() => result.current.applySelection([zones[1], zones[2]], 'replace', 'query'));
+      expect(onSelectionDelta).toHaveBeenLastCalledWith({
+        added: [zones[1], zones[2]],
+        removed: [zones[0]],
+        reason: 'query'
+      });
+
+      act(() => result.current.undo());
+      expect(onSelectionDelta).toHaveBeenLastCalledWith({
+        added: [zones[0]],
+        removed: [zones[1], zones[2]],
+        reason: 'undo'
+      });
+      expect(onSelectionDelta).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('constraints', () => {
+    it('should report zones the constraints reject', () => {
+      const onSelectionRejected = jest.fn();
+      const { result } = renderHook(() =>
+        useZoneSelection({
+          zones,
+          constraints: [{ type: 'custom', validate: zone => (zone.id === 'cell-1' ? 'Reserved' : null) }],
+          onSelectionRejected
+        })
+      );
+
+      act(() => result.current.applySelection(zones));
+
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-2']);
+      expect(onSelectionRejected).toHaveBeenCalledTimes(1);
+      expect(onSelectionRejected).toHaveBeenCalledWith(zones[1], expect.objectContaining({ type: 'custom', message: 'Reserved' }));
+    });
+
+    it('should report hitting maxSelections', () => {
+      const onSelectionRejected = jest.fn();
+      const { result } = renderHook(() => useZoneSelection({ zones, maxSelections: 1, onSelectionRejected }));
+
+      act(() => result.current.selectZone(zones[0]));
+      act(() => result.current.selectZone(zones[1]));
+
+      expect(onSelectionRejected).toHaveBeenCalledWith(zones[1], {
+        type: 'maxSelections',
+        message: 'Cannot select more than 1 zone'
+      });
+    });
+  });
+
+  describe('spatial helpers', () => {
+    it('should invert the selection', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones }));
+
+      act(() => result.current.selectZone(zones[1]));
+      act(() => result.current.invertSelection());
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-2']);
+
+      act(() => result.current.undo());
+      expect(ids(result.current.selectedZones)).toEqual(['cell-1']);
+    });
+
+    it('should select the nearest zone within a radius in single-select mode', () => {
+      const { result } = renderHook(() => useZoneSelection({ zones, multiSelect: false }));
+
+      act(() => {
+        result.current.selectWithinDistance([48.805, 2.3225], 2);
+      });
+      expect(ids(result.current.selectedZones)).toEqual(['cell-2']);
+    });
+  });
+
+  describe('refreshing zones', () => {
+    it('should swap selected zones for updated objects without a history step', () => {
+      const onSelectionChange = jest.fn();
+      const { result } = renderHook(() => useZoneSelection({ zones, onSelectionChange }));
+      act(() => result.current.selectZone(zones[0]));
+      act(() => result.current.selectZone(zones[1]));
+      onSelectionChange.mockClear();
+
+      const full = { ...zones[1], properties: { complete: true } };
+      act(() => result.current.refreshSelectedZones([full, { ...zones[2] }]));
+
+      expect(result.current.selectedZones[1]).toBe(full);
+      expect(ids(result.current.selectedZones)).toEqual(['cell-0', 'cell-1']);
+      expect(onSelectionChange).toHaveBeenCalledWith([zones[0], full]);
+
+      act(() => result.current.undo());
+      expect(result.current.selectedZones).toEqual([zones[0]]);
+      act(() => result.current.redo());
+      expect(result.current.selectedZones[1]).toBe(full);
+    });
+  });
+});
+
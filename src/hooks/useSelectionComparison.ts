@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import type { Zone } from '@/types';
+import { compareSelections } from '@/utils/comparison';
+import type { ComparisonOptions, SelectionComparison } from '@/utils/comparison';
+
+// Comparison of the current selection against a baseline, or null without a baseline
+export function useSelectionComparison(
+  baseline: Zone[] | null | undefined,
+  current: Zone[],
+  options: ComparisonOptions = {}
+): SelectionComparison | null {
+  const { areaUnit, lengthUnit, properties } = options;
+  const propertyKey = properties?.join('\u0000') ?? '';
+
+  return useMemo(
+    () => (baseline
+      ? compareSelections(baseline, current, {
+        areaUnit,
+        lengthUnit,
+        properties: propertyKey.split('\u0000').filter(Boolean)
+      })
+      : null),
+    [baseline, current, areaUnit, lengthUnit, propertyKey]
+  );
+}
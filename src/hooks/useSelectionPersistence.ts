@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+import type { Zone } from '@/types';
+import { readPersistedSelection, writePersistedSelection } from '@/utils/persistence';
+import type { PersistenceOptions } from '@/utils/persistence';
+
+interface UseSelectionPersistenceOptions {
+  zones: Zone[];
+  selectedZones: Zone[];
+  onRestore: (zones: Zone[]) => void;
+}
+
+// Restore the stored selection once zones are loaded, then store every change.
+// Stored ids that are no longer among the zones are dropped.
+export function useSelectionPersistence(
+  options: PersistenceOptions | undefined,
+  { zones, selectedZones, onRestore }: UseSelectionPersistenceOptions
+) {
+  const storage = options?.storage;
+  const key = options?.key;
+  const restored = useRef(false);
+  const restore = useRef(onRestore);
+  restore.current = onRestore;
+
+  useEffect(() => {
+    if (!storage) return;
+
+    if (!restored.current) {
+      if (zones.length === 0) return;
+      restored.current = true;
+
+      // Nothing is written until the restored selection has rendered, so an early write
+      // can't replace the stored ids with an empty selection
+      const byId = new Map(zones.map(zone => [zone.id, zone]));
+      const stored = readPersistedSelection({ storage, key })?.zoneIds ?? [];
+      const existing = stored.map(id => byId.get(id)).filter((zone): zone is Zone => zone !== undefined);
+      if (existing.length > 0) {
+        restore.current(existing);
+      }
+      return;
+    }
+
+    writePersistedSelection({ zoneIds: selectedZones.map(zone => zone.id) }, { storage, key });
+  }, [storage, key, zones, selectedZones]);
+}
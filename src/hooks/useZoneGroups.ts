@@ -0,0 +1,130 @@
+import { useState, useCallback, useMemo, useRef } from 'react';
+import type { Zone, ZoneGroup, GroupAssignmentMode } from '@/types';
+import type { MetricsOptions } from '@/components/LeafletZoneSelector/types';
+import {
+  assignZonesToGroup,
+  calculateGroupMetrics,
+  exportGroupMembership,
+  getGroupsByZone,
+  getGroupZones,
+  nextGroupColor,
+  removeZonesFromGroups
+} from '@/utils/groups';
+import type { GroupExportFormat } from '@/utils/groups';
+
+interface UseZoneGroupsOptions {
+  zones?: Zone[];
+  initialGroups?: ZoneGroup[];
+  assignmentMode?: GroupAssignmentMode;
+  onGroupsChange?: (groups: ZoneGroup[]) => void;
+}
+
+export interface NewZoneGroup {
+  id?: string; // Generated when omitted
+  name: string;
+  color?: string; // Next unused palette colour when omitted
+  zoneIds?: string[];
+}
+
+let groupCounter = 0;
+
+// Named groups of zones on top of the selection, e.g. one territory per courier
+export function useZoneGroups(options: UseZoneGroupsOptions = {}) {
+  const {
+    zones = [],
+    initialGroups = [],
+    assignmentMode = 'exclusive',
+    onGroupsChange
+  } = options;
+
+  const [groups, setGroups] = useState<ZoneGroup[]>(initialGroups);
+  const [activeGroupId, setActiveGroupId] = useState<string | null>(null);
+
+  // Groups including changes made earlier in the same event, before React re-renders
+  const latest = useRef(groups);
+  latest.current = groups;
+
+  const commit = useCallback((next: ZoneGroup[]) => {
+    if (next === latest.current) return;
+    latest.current = next;
+    setGroups(next);
+    onGroupsChange?.(next);
+  }, [onGroupsChange]);
+
+  const createGroup = useCallback((group: NewZoneGroup): ZoneGroup => {
+    const id = group.id ?? `group-${++groupCounter}`;
+    if (latest.current.some(existing => existing.id === id)) {
+      throw new Error(`Zone group already exists: ${id}`);
+    }
+
+    const created = { id, name: group.name, color: group.color ?? nextGroupColor(latest.current), zoneIds: [] };
+    const withGroup = [...latest.current, created];
+    const next = assignZonesToGroup(withGroup, id, group.zoneIds ?? [], assignmentMode);
+    commit(next);
+    return next.find(existing => existing.id === id)!;
+  }, [assignmentMode, commit]);
+
+  const removeGroup = useCallback((groupId: string) => {
+    if (!latest.current.some(group => group.id === groupId)) return;
+    commit(latest.current.filter(group => group.id !== groupId));
+    setActiveGroupId(active => (active === groupId ? null : active));
+  }, [commit]);
+
+  const updateGroup = useCallback((groupId: string, changes: Partial<Pick<ZoneGroup, 'name' | 'color'>>) => {
+    commit(latest.current.map(group => (group.id === groupId ? { ...group, ...changes } : group)));
+  }, [commit]);
+
+  const assignZones = useCallback((groupId: string, zoneIds: string[]) => {
+    commit(assignZonesToGroup(latest.current, groupId, zoneIds, assignmentMode));
+  }, [assignmentMode, commit]);
+
+  // Remove zones from one group, or from every group when groupId is omitted
+  const unassignZones = useCallback((zoneIds: string[], groupId?: string) => {
+    commit(removeZonesFromGroups(latest.current, zoneIds, groupId));
+  }, [commit]);
+
+  // Add the zone to the group, or take it out if it is already a member
+  const toggleZone = useCallback((groupId: string, zoneId: string) => {
+    const group = latest.current.find(existing => existing.id === groupId);
+    if (group?.zoneIds.includes(zoneId)) {
+      unassignZones([zoneId], groupId);
+    } else {
+      assignZones(groupId, [zoneId]);
+    }
+  }, [assignZones, unassignZones]);
+
+  const groupsByZone = useMemo(() => getGroupsByZone(groups), [groups]);
+
+  const getZoneGroups = useCallback((zoneId: string) => groupsByZone.get(zoneId) ?? [], [groupsByZone]);
+
+  const getMembers = useCallback((groupId: string) => {
+    const group = groups.find(existing => existing.id === groupId);
+    return group ? getGroupZones(group, zones) : [];
+  }, [groups, zones]);
+
+  const getGroupMetrics = useCallback(
+    (metricsOptions?: MetricsOptions) => calculateGroupMetrics(groups, zones, metricsOptions),
+    [groups, zones]
+  );
+
+  const exportGroups = useCallback(
+    (format: GroupExportFormat) => exportGroupMembership(groups, zones, format),
+    [groups, zones]
+  );
+
+  return {
+    groups,
+    activeGroupId,
+    setActiveGroup: setActiveGroupId,
+    createGroup,
+    removeGroup,
+    updateGroup,
+    assignZones,
+    unassignZones,
+    toggleZone,
+    getZoneGroups,
+    getGroupZones: getMembers,
+    getGroupMetrics,
+    exportGroups
+  };
+}
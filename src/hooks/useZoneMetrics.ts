@@ -1,8 +1,188 @@
-// Placeholder for useZoneMetrics hook (to be implemented in Issue #12)
+import { useCallback, useMemo, useRef } from 'react';
+import { bbox } from '@turf/turf';
+import type { Zone, SelectionState } from '@/types';
+import type { MetricsOptions, SelectionMetrics, ZoneMetrics } from '@/components/LeafletZoneSelector/types';
+import {
+  calculateMetrics,
+  calculateZoneMetrics,
+  convertArea,
+  convertLength,
+  measureZonePair
+} from '@/utils/metrics';
+import { zoneToFeature } from '@/utils/geometry';
+
+export interface PropertyAggregation {
+  sum: number;
+  average: number;
+  min: number;
+  max: number;
+  count: number; // Zones with a numeric value for the property
+}
+
+interface UseZoneMetricsOptions extends MetricsOptions {
+  properties?: string[];
+}
+
+interface CachedZone {
+  zone: Zone;
+  metrics: ZoneMetrics; // Always in m² and m, converted on output
+  bbox: [number, number, number, number];
+}
+
+interface CachedPair {
+  a: Zone;
+  b: Zone;
+  sharedBorder: number;
+  overlapArea: number;
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`);
+
+// Same snapping tolerance as mergeAdjacentZones, so float drift on shared edges still counts
+const BBOX_EPSILON = 1e-7;
+
+const bboxesTouch = (a: CachedZone['bbox'], b: CachedZone['bbox']) =>
+  a[0] <= b[2] + BBOX_EPSILON &&
+  b[0] <= a[2] + BBOX_EPSILON &&
+  a[1] <= b[3] + BBOX_EPSILON &&
+  b[1] <= a[3] + BBOX_EPSILON;
+
+const aggregate = (zones: Zone[], key: string): PropertyAggregation => {
+  const values = zones
+    .map(zone => zone.properties?.[key])
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+
+  if (values.length === 0) {
+    return { sum: 0, average: 0, min: 0, max: 0, count: 0 };
+  }
+
+  return values.reduce(
+    (result, value, index) => {
+      const sum = result.sum + value;
+      return {
+        sum,
+        average: sum / (index + 1),
+        min: Math.min(result.min, value),
+        max: Math.max(result.max, value),
+        count: index + 1
+      };
+    },
+    { sum: 0, average: 0, min: Infinity, max: -Infinity, count: 0 }
+  );
+};
+
+// Live metrics for a selection. Per-zone measurements and pairwise shared borders are
+// cached, so adding or removing one zone only measures that zone against its neighbours.
+// Totals are exact for zones that tile without overlapping more than pairwise.
+export function useZoneMetrics(selection: Zone[] | SelectionState, options: UseZoneMetricsOptions = {}) {
+  const { areaUnit = 'm2', lengthUnit = 'm', properties } = options;
+  const zones = Array.isArray(selection) ? selection : selection.selectedZones;
+
+  const zoneCache = useRef(new Map<string, CachedZone>());
+  const pairCache = useRef(new Map<string, CachedPair>());
+
+  const metrics = useMemo<SelectionMetrics>(() => {
+    const units = { area: areaUnit, length: lengthUnit };
+    const cache = zoneCache.current;
+    const pairs = pairCache.current;
+    const current = new Map(zones.map(zone => [zone.id, zone]));
+
+    // Forget zones that left the selection, or whose object was replaced
+    cache.forEach((entry, id) => {
+      if (current.get(id) !== entry.zone) {
+        cache.delete(id);
+      }
+    });
+    pairs.forEach((pair, key) => {
+      if (cache.get(pair.a.id)?.zone !== pair.a || cache.get(pair.b.id)?.zone !== pair.b) {
+        pairs.delete(key);
+      }
+    });
+
+    const added = zones.filter(zone => !cache.has(zone.id));
+    added.forEach(zone => {
+      cache.set(zone.id, {
+        zone,
+        metrics: calculateZoneMetrics(zone),
+        bbox: bbox(zoneToFeature(zone)) as CachedZone['bbox']
+      });
+    });
+
+    // Only newly added zones need measuring against the rest
+    added.forEach(zone => {
+      const entry = cache.get(zone.id)!;
+      cache.forEach((other, otherId) => {
+        const key = pairKey(zone.id, otherId);
+        if (otherId === zone.id || pairs.has(key) || !bboxesTouch(entry.bbox, other.bbox)) return;
+        pairs.set(key, { a: zone, b: other.zone, ...measureZonePair(zone, other.zone) });
+      });
+    });
+
+    const entries = zones.map(zone => cache.get(zone.id)!);
+    if (entries.length === 0) {
+      return calculateMetrics([], { areaUnit, lengthUnit });
+    }
+
+    let area = 0;
+    let perimeter = 0;
+    let centerX = 0;
+    let centerY = 0;
+    const bounds = [Infinity, Infinity, -Infinity, -Infinity];
+
+    entries.forEach(({ metrics: zoneMetrics, bbox: zoneBbox }) => {
+      area += zoneMetrics.area;
+      perimeter += zoneMetrics.perimeter;
+      centerX += zoneMetrics.centroid[0] * zoneMetrics.area;
+      centerY += zoneMetrics.centroid[1] * zoneMetrics.area;
+      bounds[0] = Math.min(bounds[0], zoneBbox[0]);
+      bounds[1] = Math.min(bounds[1], zoneBbox[1]);
+      bounds[2] = Math.max(bounds[2], zoneBbox[2]);
+      bounds[3] = Math.max(bounds[3], zoneBbox[3]);
+    });
+
+    pairs.forEach(({ sharedBorder, overlapArea }) => {
+      area -= overlapArea;
+      perimeter -= 2 * sharedBorder;
+    });
+
+    const weight = entries.reduce((sum, entry) => sum + entry.metrics.area, 0);
+
+    return {
+      totalArea: convertArea(Math.max(0, area), areaUnit),
+      totalPerimeter: convertLength(Math.max(0, perimeter), lengthUnit),
+      zoneCount: entries.length,
+      boundingBox: [[bounds[0], bounds[1]], [bounds[2], bounds[3]]],
+      center: weight > 0
+        ? [centerX / weight, centerY / weight]
+        : [(bounds[0] + bounds[2]) / 2, (bounds[1] + bounds[3]) / 2],
+      units,
+      zones: entries.map(({ metrics: zoneMetrics }) => ({
+        ...zoneMetrics,
+        area: convertArea(zoneMetrics.area, areaUnit),
+        perimeter: convertLength(zoneMetrics.perimeter, lengthUnit)
+      }))
+    };
+  }, [zones, areaUnit, lengthUnit]);
+
+  const propertyKey = properties?.join('\u0000') ?? '';
+
+  const aggregations = useMemo(() => {
+    const result: Record<string, PropertyAggregation> = {};
+    propertyKey.split('\u0000').filter(Boolean).forEach(key => {
+      result[key] = aggregate(zones, key);
+    });
+    return result;
+  }, [zones, propertyKey]);
+
+  // Full recomputation with dissolved outlines, for exports and reports
+  const recalculate = useCallback(
+    () => calculateMetrics(zones, { areaUnit, lengthUnit }),
+    [zones, areaUnit, lengthUnit]
+  );
 
-export function useZoneMetrics() {
   return {
-    metrics: null,
-    calculateMetrics: () => {}
+    metrics,
+    aggregations,
+    calculateMetrics: recalculate
   };
-}
\ No newline at end of file
+}
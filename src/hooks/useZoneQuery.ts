@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+import type { Zone } from '@/types';
+import { compileQuery, QueryParseError } from '@/utils/query';
+
+// Zones matching a filter expression, recomputed as the query is typed.
+// An empty query matches nothing; a malformed one returns the parse error instead of throwing.
+export function useZoneQuery(zones: Zone[], query: string) {
+  const compiled = useMemo(() => {
+    if (query.trim() === '') {
+      return { predicate: null, error: null };
+    }
+    try {
+      return { predicate: compileQuery(query), error: null };
+    } catch (err) {
+      if (err instanceof QueryParseError) {
+        return { predicate: null, error: err };
+      }
+      throw err;
+    }
+  }, [query]);
+
+  const matches = useMemo(
+    () => (compiled.predicate ? zones.filter(compiled.predicate) : []),
+    [zones, compiled]
+  );
+
+  return {
+    matches,
+    error: compiled.error
+  };
+}
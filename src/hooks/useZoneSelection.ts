@@ -1,89 +1,440 @@
-import { useState, useCallback, useEffect } from 'react';
-import type { Zone } from '@/types';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type {
+  Zone,
+  LatLng,
+  SelectionMode,
+  SelectionCombineMode,
+  SelectionChange,
+  SelectionChangeReason
+} from '@/types';
+import { buildAdjacencyGraph, getConnectedComponents } from '@/utils/adjacency';
+import type { AdjacencyGraph, AdjacencyOptions } from '@/utils/adjacency';
+import {
+  buildHierarchy,
+  deselectFromHierarchy,
+  getDescendants,
+  isCoveredBySelection,
+  rollUpSelection
+} from '@/utils/hierarchy';
+import { checkConstraints } from '@/utils/constraints';
+import type { SelectionConstraint, SelectionRejection } from '@/utils/constraints';
+import { distanceToZone, findZonesWithinDistance } from '@/utils/areaSelection';
+import type { DistanceSelectionOptions } from '@/components/LeafletZoneSelector/types';
 
 interface UseZoneSelectionOptions {
+  // Uncontrolled: selection applied once the zones are available
   initialSelection?: string[];
+  // Controlled: the caller owns the selection and applies changes from onSelectionChange
+  selectedZoneIds?: string[];
   multiSelect?: boolean;
   maxSelections?: number;
+  selectionMode?: SelectionMode;
+  adjacencyOptions?: AdjacencyOptions;
+  // Roll complete sets of children up into their parent zone
+  hierarchical?: boolean;
+  // Contiguous mode: return true to deselect a zone even though it splits the selection
+  confirmDisconnect?: (zone: Zone, parts: Zone[][]) => boolean;
+  // Number of undo steps kept
+  historyLimit?: number;
+  constraints?: SelectionConstraint[];
+  onSelectionRejected?: (zone: Zone, reason: SelectionRejection) => void;
   onSelectionChange?: (zones: Zone[]) => void;
+  onSelectionDelta?: (change: SelectionChange) => void;
 }
 
+type SelectionUpdate = (prev: Zone[]) => Zone[];
+
+interface SelectionHistory {
+  past: Zone[][];
+  future: Zone[][];
+}
+
+interface PendingBatch {
+  from: Zone[];
+  reason: SelectionChangeReason;
+}
+
+const diffSelection = (from: Zone[], to: Zone[]) => {
+  const fromIds = new Set(from.map(z => z.id));
+  const toIds = new Set(to.map(z => z.id));
+  return {
+    added: to.filter(z => !fromIds.has(z.id)),
+    removed: from.filter(z => !toIds.has(z.id))
+  };
+};
+
+// Zones to add, ordered breadth-first from the selection (or the first zone when it is
+// empty), so each one touches the selection or a zone added before it. Zones that can't
+// be reached come last, to be rejected.
+const contiguousOrder = (zones: Zone[], selection: Zone[], graph: AdjacencyGraph) => {
+  const pending = new Map(zones.map(zone => [zone.id, zone]));
+  selection.forEach(zone => pending.delete(zone.id));
+  const ordered: Zone[] = [];
+  const queue = selection.map(zone => zone.id);
+
+  const visit = (zone: Zone) => {
+    pending.delete(zone.id);
+    ordered.push(zone);
+    queue.push(zone.id);
+  };
+
+  const [first] = pending.values();
+  if (queue.length === 0 && first) visit(first);
+  while (queue.length > 0) {
+    graph.get(queue.shift()!)?.forEach(id => {
+      const zone = pending.get(id);
+      if (zone) visit(zone);
+    });
+  }
+  return [...ordered, ...pending.values()];
+};
+
 export function useZoneSelection(options: UseZoneSelectionOptions & { zones?: Zone[] } = {}) {
   const {
     initialSelection = [],
+    selectedZoneIds,
     multiSelect = true,
     maxSelections = Infinity,
+    selectionMode = 'free',
+    adjacencyOptions,
+    hierarchical = false,
+    confirmDisconnect,
+    historyLimit = 50,
+    constraints,
+    onSelectionRejected,
     onSelectionChange,
+    onSelectionDelta,
     zones = []
   } = options;
 
-  const [selectedZones, setSelectedZones] = useState<Zone[]>([]);
+  const controlled = selectedZoneIds !== undefined;
+  const [uncontrolledZones, setUncontrolledZones] = useState<Zone[]>([]);
   const [hoveredZone, setHoveredZone] = useState<Zone | null>(null);
-  const [zoneMap, setZoneMap] = useState<Map<string, Zone>>(new Map());
+  const [, setRevision] = useState(0);
+  const history = useRef<SelectionHistory>({ past: [], future: [] });
+  const batch = useRef<PendingBatch | null>(null);
+  const initialized = useRef(false);
 
-  // Populate zone map from zones prop
-  useEffect(() => {
-    const map = new Map<string, Zone>();
-    zones.forEach(zone => map.set(zone.id, zone));
-    setZoneMap(map);
-  }, [zones]);
+  // Zones passed to selectZone that may not be part of `zones`
+  const knownZones = useRef(new Map<string, Zone>());
 
-  // Initialize with selected zone IDs
-  useEffect(() => {
-    if (initialSelection.length > 0 && (zoneMap.size > 0 || zones.length > 0)) {
-      const initialZones = initialSelection
-        .map(id => {
-          // First check zoneMap, then check zones array
-          return zoneMap.get(id) || zones.find(z => z.id === id);
-        })
-        .filter((zone): zone is Zone => zone !== undefined);
-      setSelectedZones(initialZones);
-    }
-  }, [initialSelection, zoneMap, zones]);
-
-  // Notify selection changes
-  useEffect(() => {
-    onSelectionChange?.(selectedZones);
-  }, [selectedZones, onSelectionChange]);
+  const controlledZones = useMemo(() => {
+    const byId = new Map(zones.map(zone => [zone.id, zone]));
+    return (selectedZoneIds ?? [])
+      .map(id => byId.get(id) ?? knownZones.current.get(id))
+      .filter((zone): zone is Zone => zone !== undefined);
+  }, [selectedZoneIds, zones]);
 
-  const selectZone = useCallback((zone: Zone) => {
-    // Store zone in map for reference
-    setZoneMap(prev => new Map(prev).set(zone.id, zone));
+  const selectedZones = controlled ? controlledZones : uncontrolledZones;
+
+  // Selection including changes made earlier in the same event, before React re-renders.
+  // Reset from the rendered selection, so a controlling parent that ignores a change wins.
+  const latest = useRef(selectedZones);
+  latest.current = selectedZones;
+
+  const commit = useCallback((from: Zone[], to: Zone[], reason: SelectionChangeReason, record = true) => {
+    const { added, removed } = diffSelection(from, to);
+    if (added.length === 0 && removed.length === 0) return;
+
+    if (record) {
+      history.current = {
+        past: [...history.current.past, from].slice(-historyLimit),
+        future: reason === 'redo' ? history.current.future : []
+      };
+    }
 
-    setSelectedZones(prev => {
-      const isSelected = prev.some(z => z.id === zone.id);
-      
-      if (isSelected) {
-        // Zone is already selected, do nothing
+    if (!controlled) {
+      setUncontrolledZones(to);
+    }
+    // Re-render even when controlled, so history flags update and ignored changes roll back
+    setRevision(revision => revision + 1);
+
+    onSelectionChange?.(to);
+    onSelectionDelta?.({ added, removed, reason });
+  }, [controlled, historyLimit, onSelectionChange, onSelectionDelta]);
+
+  // Apply a change to the latest selection; inside a batch it is committed when the batch ends
+  const update = useCallback((change: SelectionUpdate) => {
+    const from = latest.current;
+    const to = change(from);
+    if (to === from) return;
+
+    latest.current = to;
+    if (!batch.current) {
+      commit(from, to, 'api');
+    }
+  }, [commit]);
+
+  // Run several selection changes as a single undo step and a single change event
+  const batchChanges = useCallback((changes: () => void, reason: SelectionChangeReason = 'api') => {
+    if (batch.current) {
+      changes();
+      return;
+    }
+
+    batch.current = { from: latest.current, reason };
+    try {
+      changes();
+    } finally {
+      const { from } = batch.current;
+      batch.current = null;
+      commit(from, latest.current, reason);
+    }
+  }, [commit]);
+
+  // Swap selected zones for updated objects with the same ids, e.g. a zone's full geometry
+  // replacing the part loaded so far. Membership is unchanged, so there is no undo step
+  // or delta, but onSelectionChange reports the new objects.
+  const refreshSelectedZones = useCallback((updated: Zone[]) => {
+    const byId = new Map(updated.map(zone => [zone.id, zone]));
+    const swap = (selection: Zone[]) =>
+      selection.some(zone => byId.has(zone.id) && byId.get(zone.id) !== zone)
+        ? selection.map(zone => byId.get(zone.id) ?? zone)
+        : selection;
+
+    updated.forEach(zone => {
+      if (knownZones.current.has(zone.id)) knownZones.current.set(zone.id, zone);
+    });
+    history.current = { past: history.current.past.map(swap), future: history.current.future.map(swap) };
+
+    const from = latest.current;
+    const to = swap(from);
+    if (to === from) return;
+
+    latest.current = to;
+    if (!controlled) {
+      setUncontrolledZones(to);
+    }
+    setRevision(revision => revision + 1);
+    onSelectionChange?.(to);
+  }, [controlled, onSelectionChange]);
+
+  const adjacencyGraph = useMemo(
+    () => (selectionMode === 'contiguous' ? buildAdjacencyGraph(zones, adjacencyOptions) : null),
+    [selectionMode, zones, adjacencyOptions]
+  );
+
+  const hierarchy = useMemo(
+    () => (hierarchical ? buildHierarchy(zones) : null),
+    [hierarchical, zones]
+  );
+
+  // Check the constraints for a zone joining `selection`, reporting the first one it breaks
+  const isRejected = useCallback((zone: Zone, selection: Zone[]) => {
+    const rejection = constraints ? checkConstraints(zone, selection, constraints) : null;
+    if (rejection) {
+      onSelectionRejected?.(zone, rejection);
+    }
+    return rejection !== null;
+  }, [constraints, onSelectionRejected]);
+
+  // The selection once `zone` is added, or `prev` when a selection rule refuses it
+  const addZone = useCallback((prev: Zone[], zone: Zone): Zone[] => {
+    const isSelected = prev.some(z => z.id === zone.id);
+
+    if (isSelected) {
+      // Zone is already selected, do nothing
+      return prev;
+    }
+
+    if (!multiSelect) {
+      // Single selection mode: replace selection
+      return isRejected(zone, []) ? prev : [zone];
+    }
+
+    if (prev.length >= maxSelections) {
+      onSelectionRejected?.(zone, {
+        type: 'maxSelections',
+        message: `Cannot select more than ${maxSelections} zone${maxSelections === 1 ? '' : 's'}`
+      });
+      return prev;
+    }
+
+    if (adjacencyGraph && prev.length > 0) {
+      // Contiguous mode: the zone must touch the current selection
+      const neighbors = adjacencyGraph.get(zone.id);
+      if (!prev.some(z => neighbors?.has(z.id))) {
+        onSelectionRejected?.(zone, {
+          type: 'contiguous',
+          message: `${zone.name} does not touch the selection`
+        });
         return prev;
       }
+    }
 
-      if (!multiSelect) {
-        // Single selection mode: replace selection
-        return [zone];
+    if (hierarchy) {
+      const selectedIds = new Set(prev.map(z => z.id));
+      if (isCoveredBySelection(hierarchy, selectedIds, zone.id)) {
+        // An ancestor already covers this zone
+        return prev;
       }
 
-      if (prev.length >= maxSelections) {
-        // Maximum selections reached
+      // The zone replaces any selected descendants, then complete families roll up
+      const descendants = new Set(getDescendants(hierarchy, zone.id).map(z => z.id));
+      if (isRejected(zone, prev.filter(z => !descendants.has(z.id)))) {
         return prev;
       }
+      const ids = rollUpSelection(hierarchy, [...prev.map(z => z.id).filter(id => !descendants.has(id)), zone.id]);
+      const known = new Map([...prev, zone].map(z => [z.id, z]));
+      return ids.map(id => known.get(id) ?? hierarchy.byId.get(id)!);
+    }
 
-      // Add zone to selection
-      return [...prev, zone];
-    });
-  }, [multiSelect, maxSelections]);
+    if (isRejected(zone, prev)) {
+      return prev;
+    }
+
+    // Add zone to selection
+    return [...prev, zone];
+  }, [multiSelect, maxSelections, adjacencyGraph, hierarchy, isRejected, onSelectionRejected]);
+
+  const selectZone = useCallback((zone: Zone) => {
+    // Store zone in map for reference
+    knownZones.current.set(zone.id, zone);
+    update(prev => addZone(prev, zone));
+  }, [addZone, update]);
+
+  // Apply the initial selection once the zones it refers to are loaded. It goes through
+  // the same rules as selectZone, without an undo step or change event.
+  useEffect(() => {
+    if (controlled || initialized.current || zones.length === 0) return;
+    initialized.current = true;
+
+    const byId = new Map(zones.map(zone => [zone.id, zone]));
+    const initialZones = initialSelection
+      .map(id => byId.get(id))
+      .filter((zone): zone is Zone => zone !== undefined);
+    const ordered = adjacencyGraph ? contiguousOrder(initialZones, [], adjacencyGraph) : initialZones;
+    const selection = ordered.reduce(addZone, []);
+    if (selection.length > 0) {
+      setUncontrolledZones(selection);
+    }
+  }, [controlled, initialSelection, zones, adjacencyGraph, addZone]);
 
   const deselectZone = useCallback((zoneId: string) => {
-    setSelectedZones(prev => prev.filter(z => z.id !== zoneId));
-  }, []);
+    if (adjacencyGraph) {
+      // Contiguous mode: refuse to split the selection unless the host agrees
+      const zone = latest.current.find(z => z.id === zoneId);
+      const remaining = latest.current.filter(z => z.id !== zoneId);
+      const parts = getConnectedComponents(adjacencyGraph, remaining.map(z => z.id));
+
+      if (zone && parts.length > 1) {
+        const byId = new Map(remaining.map(z => [z.id, z]));
+        const zoneParts = parts.map(part => part.map(id => byId.get(id)!));
+        if (!confirmDisconnect?.(zone, zoneParts)) {
+          return;
+        }
+      }
+    }
+
+    if (hierarchy) {
+      // Deselecting a child of a selected parent keeps its siblings selected
+      update(prev => {
+        const known = new Map(prev.map(z => [z.id, z]));
+        const prevIds = prev.map(z => z.id);
+        const ids = deselectFromHierarchy(hierarchy, prevIds, zoneId);
+        return ids === prevIds ? prev : ids.map(id => known.get(id) ?? hierarchy.byId.get(id)!);
+      });
+      return;
+    }
+
+    update(prev => (prev.some(z => z.id === zoneId) ? prev.filter(z => z.id !== zoneId) : prev));
+  }, [adjacencyGraph, hierarchy, confirmDisconnect, update]);
 
   const clearSelection = useCallback(() => {
-    setSelectedZones([]);
-  }, []);
+    update(prev => (prev.length === 0 ? prev : []));
+  }, [update]);
+
+  const undo = useCallback(() => {
+    const { past, future } = history.current;
+    if (past.length === 0) return;
 
-  const isZoneSelected = useCallback((zoneId: string) => {
-    return selectedZones.some(z => z.id === zoneId);
-  }, [selectedZones]);
+    const from = latest.current;
+    const to = past[past.length - 1];
+    history.current = { past: past.slice(0, -1), future: [from, ...future] };
+    latest.current = to;
+    commit(from, to, 'undo', false);
+  }, [commit]);
+
+  const redo = useCallback(() => {
+    const { past, future } = history.current;
+    if (future.length === 0) return;
+
+    const from = latest.current;
+    const [to, ...rest] = future;
+    history.current = { past, future: rest };
+    latest.current = to;
+    commit(from, to, 'redo');
+  }, [commit]);
+
+  const isInSelection = useCallback((selection: Zone[], zoneId: string) => {
+    if (hierarchy) {
+      return isCoveredBySelection(hierarchy, new Set(selection.map(z => z.id)), zoneId);
+    }
+    return selection.some(z => z.id === zoneId);
+  }, [hierarchy]);
+
+  const isZoneSelected = useCallback(
+    (zoneId: string) => isInSelection(selectedZones, zoneId),
+    [selectedZones, isInSelection]
+  );
+
+  // Combine a set of zones with the selection as one undo step. Zones go through
+  // selectZone/deselectZone, so selection rules still apply; in contiguous mode they are
+  // added in connected order, so a match may reach the selection through a later one.
+  const applySelection = useCallback((
+    matches: Zone[],
+    mode: SelectionCombineMode = 'replace',
+    reason: SelectionChangeReason = 'api'
+  ) => {
+    const matchIds = new Set(matches.map(z => z.id));
+
+    batchChanges(() => {
+      if (mode === 'replace') {
+        update(prev => (prev.length === 0 ? prev : []));
+      }
+      if (mode === 'replace' || mode === 'add') {
+        const ordered = adjacencyGraph ? contiguousOrder(matches, latest.current, adjacencyGraph) : matches;
+        ordered.forEach(zone => selectZone(zone));
+      }
+      if (mode === 'subtract') {
+        matches.filter(z => isInSelection(latest.current, z.id)).forEach(z => deselectZone(z.id));
+      }
+      if (mode === 'intersect') {
+        latest.current.filter(z => !matchIds.has(z.id)).forEach(z => deselectZone(z.id));
+      }
+    }, reason);
+  }, [adjacencyGraph, batchChanges, update, selectZone, deselectZone, isInSelection]);
+
+  // Swap selected and unselected zones among the candidates
+  const invertSelection = useCallback((candidates: Zone[] = zones) => {
+    batchChanges(() => {
+      const selected = new Set(candidates.filter(z => isInSelection(latest.current, z.id)).map(z => z.id));
+      // Deselect first, so constraints and maxSelections apply to the new selection alone
+      selected.forEach(id => deselectZone(id));
+      candidates.filter(z => !selected.has(z.id)).forEach(z => selectZone(z));
+    });
+  }, [zones, batchChanges, isInSelection, deselectZone, selectZone]);
+
+  // Zones within `radiusKm` of a point, measured to their geometry. In single-select
+  // mode only the nearest one is selected.
+  const selectWithinDistance = useCallback((
+    center: LatLng,
+    radiusKm: number,
+    { match, mode }: DistanceSelectionOptions = {},
+    candidates: Zone[] = zones
+  ) => {
+    let matches = findZonesWithinDistance(candidates, center, radiusKm, match);
+
+    if (!multiSelect && matches.length > 1) {
+      const nearest = matches.reduce((best, zone) =>
+        (distanceToZone(zone, center) < distanceToZone(best, center) ? zone : best)
+      );
+      matches = [nearest];
+    }
+
+    applySelection(matches, mode, 'area');
+    return matches;
+  }, [zones, multiSelect, applySelection]);
 
   return {
     selectedZones,
@@ -92,6 +443,15 @@ export function useZoneSelection(options: UseZoneSelectionOptions & { zones?: Zo
     deselectZone,
     clearSelection,
     isZoneSelected,
-    setHoveredZone
+    setHoveredZone,
+    undo,
+    redo,
+    canUndo: history.current.past.length > 0,
+    canRedo: history.current.future.length > 0,
+    batchChanges,
+    refreshSelectedZones,
+    applySelection,
+    invertSelection,
+    selectWithinDistance
   };
-}
\ No newline at end of file
+}
@@ -8,18 +8,134 @@ export const VERSION = '0.1.0';
 
 // Main Component exports (to be implemented in Issue #4)
 export { LeafletZoneSelector } from './components/LeafletZoneSelector';
-export type { LeafletZoneSelectorProps, LeafletZoneSelectorRef } from './components/LeafletZoneSelector';
+export { Legend } from './components/Legend';
+export { ZoneLabels } from './components/ZoneLabels';
+export type {
+  LeafletZoneSelectorProps,
+  LeafletZoneSelectorRef,
+  SelectionMetrics,
+  ZoneMetrics,
+  MetricsOptions,
+  AreaUnit,
+  LengthUnit,
+  QuerySelectionOptions,
+  AreaSelectionOptions,
+  DistanceSelectionOptions,
+  ThemeConfig,
+  ChoroplethTheme,
+  ZoneTheme
+} from './components/LeafletZoneSelector';
 
 // Hook exports (to be implemented in Issue #8)
 export { useZoneSelection } from './hooks/useZoneSelection';
 export { useZoneMetrics } from './hooks/useZoneMetrics';
+export type { PropertyAggregation } from './hooks/useZoneMetrics';
+export { useZoneQuery } from './hooks/useZoneQuery';
+export { useZoneGroups } from './hooks/useZoneGroups';
+export { useSelectionComparison } from './hooks/useSelectionComparison';
+export type { NewZoneGroup } from './hooks/useZoneGroups';
 
 // Utility exports (to be implemented in Issue #9)
 export { mergeAdjacentZones } from './utils/mergeAdjacentZones';
+export type { MergeOptions } from './utils/mergeAdjacentZones';
 export { exportToGeoJSON, exportToKML, exportToCSV } from './utils/exportFormats';
+export { getZoneGeometry, zoneToFeature } from './utils/geometry';
+export { calculateMetrics, calculateZoneMetrics } from './utils/metrics';
+export {
+  buildAdjacencyGraph,
+  getNeighbors,
+  growSelection,
+  shrinkSelection,
+  getConnectedComponents
+} from './utils/adjacency';
+export type { AdjacencyGraph, AdjacencyOptions } from './utils/adjacency';
+export { buildHierarchy, rollUpSelection, expandSelection } from './utils/hierarchy';
+export type { ZoneHierarchy } from './utils/hierarchy';
+export { validateZone, validateZones, ZoneValidationError } from './utils/validation';
+export type { GeometryIssue, GeometryIssueType, ValidationOptions, ValidationResult } from './utils/validation';
+export { parseQuery, evaluateQuery, compileQuery, queryZones, QueryParseError } from './utils/query';
+export type { QueryExpression, QueryValue, ComparisonOperator } from './utils/query';
+export {
+  findZonesInArea,
+  closestZoneToArea,
+  rectangleArea,
+  areaFromLatLngs,
+  shapeToGeometry,
+  distanceToZone,
+  findZonesWithinDistance
+} from './utils/areaSelection';
+export type { AreaSelectionMode, CoverageThreshold } from './utils/areaSelection';
+export { simplifyZoneForZoom } from './utils/simplify';
+export { getZoneStyle, createZoneStyler } from './utils/zoneStyles';
+export { createSpatialIndex, getSpatialIndex } from './utils/spatialIndex';
+export type { Bbox, SpatialIndex } from './utils/spatialIndex';
+export { createVectorTileSource } from './utils/vectorTileSource';
+export type { VectorTileSource, VectorTileSourceOptions } from './utils/vectorTileSource';
+export { decodeVectorTile } from './utils/vectorTiles';
+export type { VectorTileFeature, VectorTileLayer, TileCoordinates } from './utils/vectorTiles';
+export { createPMTilesReader, PMTilesError } from './utils/pmtiles';
+export type { PMTilesHeader, PMTilesReader, TileCompression, Decompress } from './utils/pmtiles';
+export type { ZoneStyleState } from './utils/zoneStyles';
+export {
+  classify,
+  classifyZones,
+  getChoroplethClassification,
+  colorRamp,
+  COLOR_RAMPS
+} from './utils/choropleth';
+export type {
+  ChoroplethOptions,
+  ChoroplethClassification,
+  ChoroplethClass,
+  ClassificationMethod,
+  ColorRampName
+} from './utils/choropleth';
+export { getLabelPoint, formatLabel, placeLabels } from './utils/labels';
+export type { ZoneLabelOptions, LabelCandidate } from './utils/labels';
+export {
+  assignZonesToGroup,
+  removeZonesFromGroups,
+  calculateGroupMetrics,
+  exportGroupMembership,
+  nextGroupColor,
+  GROUP_COLORS
+} from './utils/groups';
+export type { GroupExportFormat } from './utils/groups';
+export { readPersistedSelection, writePersistedSelection } from './utils/persistence';
+export { checkConstraints } from './utils/constraints';
+export { compareSelections } from './utils/comparison';
+export type {
+  ComparisonOptions,
+  ComparisonStatus,
+  PropertyDelta,
+  SelectionComparison
+} from './utils/comparison';
+export type { SelectionConstraint, SelectionRejection } from './utils/constraints';
+export type { PersistenceOptions, PersistedSelection, PersistedView } from './utils/persistence';
+export { toWGS84, reprojectZone, reprojectZones, toLatLng, toLngLat, isSupportedCrs } from './utils/projection';
 
 // Type exports (to be implemented in Issue #7)
-export type { Zone, Coordinates, SelectionState, ExportFormat } from './types';
+export type {
+  Zone,
+  LngLat,
+  LatLng,
+  ZoneCrs,
+  Coordinates,
+  Ring,
+  PolygonCoordinates,
+  MultiPolygonCoordinates,
+  ZoneCoordinates,
+  ZoneGeometry,
+  MergedZone,
+  SelectionMode,
+  SelectionCombineMode,
+  SelectionChange,
+  SelectionChangeReason,
+  ZoneGroup,
+  GroupAssignmentMode,
+  SelectionState,
+  ExportFormat
+} from './types';
 
 // Export a simple test function to verify TypeScript compilation
 export function getVersion(): string {
@@ -1,20 +1,79 @@
 // Type definitions for Leaflet Zone Selector (to be implemented in Issue #7)
 
-export type Coordinates = [number, number];
+// Phantom tag telling the two axis orders apart. It is optional, so plain tuple literals
+// still fit either type, but a value typed as one order won't assign to the other.
+declare const coordinateOrder: unique symbol;
+
+// GeoJSON order, used by zone geometry and metrics
+export type LngLat = [lng: number, lat: number] & { readonly [coordinateOrder]?: 'lnglat' };
+
+// Leaflet order, used by map centers, bounds and views
+export type LatLng = [lat: number, lng: number] & { readonly [coordinateOrder]?: 'latlng' };
+
+export type Coordinates = LngLat;
+
+// A closed linear ring of [lng, lat] positions
+export type Ring = Coordinates[];
+
+// Outer ring followed by any interior rings (holes, enclaves)
+export type PolygonCoordinates = Ring[];
+
+// One polygon per part (islands, exclaves)
+export type MultiPolygonCoordinates = PolygonCoordinates[];
+
+// Zones accept a bare outer ring, a polygon with holes or a multipolygon
+export type ZoneCoordinates = Ring | PolygonCoordinates | MultiPolygonCoordinates;
+
+export type ZoneGeometry = GeoJSON.Polygon | GeoJSON.MultiPolygon;
+
+// Coordinate reference systems zones can be declared in; everything is stored as WGS84
+export type ZoneCrs = 'EPSG:4326' | 'EPSG:3857' | 'EPSG:2154' | 'EPSG:27700';
 
 export interface Zone {
   id: string;
   name: string;
-  coordinates: Coordinates[];
+  coordinates: ZoneCoordinates;
+  parentId?: string; // Enclosing zone, e.g. département -> région
   properties?: {
     postalCode?: string;
     [key: string]: unknown;
   };
 }
 
+// Outline produced by dissolving the shared borders of contiguous zones
+export interface MergedZone extends Zone {
+  sourceZoneIds: string[];
+}
+
+// 'contiguous' only accepts zones touching the selection and refuses to split it
+export type SelectionMode = 'free' | 'contiguous';
+
+// How a set of zones found by a query or a spatial tool combines with the selection
+export type SelectionCombineMode = 'replace' | 'add' | 'subtract' | 'intersect';
+
+// What triggered a selection change
+export type SelectionChangeReason = 'click' | 'api' | 'query' | 'area' | 'shape' | 'undo' | 'redo' | 'restore';
+
+export interface SelectionChange {
+  added: Zone[];
+  removed: Zone[];
+  reason: SelectionChangeReason;
+}
+
+// Named set of zones, e.g. one courier's territory
+export interface ZoneGroup {
+  id: string;
+  name: string;
+  color: string;
+  zoneIds: string[];
+}
+
+// 'exclusive' moves a zone out of its other groups when it joins one
+export type GroupAssignmentMode = 'exclusive' | 'overlapping';
+
 export interface SelectionState {
   selectedZones: Zone[];
   hoveredZone?: Zone;
 }
 
-export type ExportFormat = 'geojson' | 'kml' | 'csv';
\ No newline at end of file
+export type ExportFormat = 'geojson' | 'kml' | 'csv';
@@ -0,0 +1,92 @@
+import {
+  buildAdjacencyGraph,
+  getConnectedComponents,
+  getNeighbors,
+  growSelection,
+  shrinkSelection
+} from '../adjacency';
+import type { Zone } from '@/types';
+import { createCellGrid, square } from '../../../tests/utils/mapTestUtils';
+
+// 3x3 grid of 0.01° cells near Paris, ids "row-col"
+const grid = createCellGrid();
+
+describe('adjacency', () => {
+  describe('buildAdjacencyGraph', () => {
+    it('should link zones sharing an edge', () => {
+      const graph = buildAdjacencyGraph(grid);
+      expect(Array.from(graph.get('1-1')!).sort()).toEqual(['0-1', '1-0', '1-2', '2-1']);
+      expect(Array.from(graph.get('0-0')!).sort()).toEqual(['0-1', '1-0']);
+    });
+
+    it('should include corner contacts when asked', () => {
+      const graph = buildAdjacencyGraph(grid, { includePointContacts: true });
+      expect(graph.get('1-1')!.size).toBe(8);
+      expect(graph.get('0-0')!.has('1-1')).toBe(true);
+    });
+
+    it('should link zones whose shared edges are offset', () => {
+      const zones: Zone[] = [
+        { id: 'a', name: 'A', coordinates: square(2.3, 48.8, 0.01) },
+        // Shifted half a cell east on top of A: no vertex of one lies on a vertex of the other
+        { id: 'b', name: 'B', coordinates: square(2.305, 48.81, 0.01) }
+      ];
+
+      expect(buildAdjacencyGraph(zones).get('a')!.has('b')).toBe(true);
+    });
+
+    it('should bridge gaps within tolerance only', () => {
+      const zones: Zone[] = [
+        { id: 'a', name: 'A', coordinates: square(2.3, 48.8, 0.01) },
+        // ~0.5m gap to the east of A
+        { id: 'b', name: 'B', coordinates: square(2.310007, 48.8, 0.01) }
+      ];
+
+      expect(buildAdjacencyGraph(zones).get('a')!.has('b')).toBe(true);
+      expect(buildAdjacencyGraph(zones, { tolerance: 0.1 }).get('a')!.has('b')).toBe(false);
+    });
+
+    it('should link zones that overlap without touching boundaries', () => {
+      const zones: Zone[] = [
+        { id: 'outer', name: 'Outer', coordinates: square(2.3, 48.8, 0.05) },
+        { id: 'inner', name: 'Inner', coordinates: square(2.32, 48.82, 0.01) }
+      ];
+      expect(buildAdjacencyGraph(zones).get('outer')!.has('inner')).toBe(true);
+    });
+
+    it('should cache graphs per zone set and options', () => {
+      expect(buildAdjacencyGraph(grid)).toBe(buildAdjacencyGraph(grid));
+      expect(buildAdjacencyGraph(grid)).not.toBe(buildAdjacencyGraph(grid, { tolerance: 5 }));
+      expect(buildAdjacencyGraph([...grid])).not.toBe(buildAdjacencyGraph(grid));
+    });
+  });
+
+  describe('selection helpers', () => {
+    const graph = buildAdjacencyGraph(grid);
+
+    it('should list neighbours outside the source set', () => {
+      expect(getNeighbors(graph, ['0-0', '0-1']).sort()).toEqual(['0-2', '1-0', '1-1']);
+    });
+
+    it('should grow the selection ring by ring', () => {
+      expect(growSelection(graph, ['1-1']).sort()).toEqual(['0-1', '1-0', '1-1', '1-2', '2-1']);
+      expect(growSelection(graph, ['0-0'], 4)).toHaveLength(9);
+    });
+
+    it('should split ids into connected components', () => {
+      expect(getConnectedComponents(graph, ['0-0', '0-1', '2-2', '2-1', '0-2'])).toEqual([
+        ['0-0', '0-1', '0-2'],
+        ['2-2', '2-1']
+      ]);
+      expect(getConnectedComponents(graph, [])).toEqual([]);
+    });
+
+    it('should shrink the selection from its edge', () => {
+      const all = grid.map(zone => zone.id);
+      const cross = ['0-1', '1-0', '1-1', '1-2', '2-1'];
+      expect(shrinkSelection(graph, cross)).toEqual(['1-1']);
+      expect(shrinkSelection(graph, cross, 2)).toEqual([]);
+      expect(shrinkSelection(graph, all)).toHaveLength(9);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  findZonesInArea,
+  closestZoneToArea,
+  rectangleArea,
+  areaFromLatLngs,
+  shapeToGeometry,
+  distanceToZone,
+  findZonesWithinDistance
+} from '../areaSelection';
+import type { Zone } from '@/types';
+import { createCellRow, square } from '../../../tests/utils/mapTestUtils';
+
+// Row of three 0.01° cells
+const zones = createCellRow();
+
+const ids = (found: Zone[]) => found.map(zone => zone.id);
+
+describe('areaSelection', () => {
+  // Covers all of cell-0 and the western 40% of cell-1
+  const area = rectangleArea([48.799, 2.299], [48.811, 2.314]);
+
+  it('should build closed [lng, lat] rectangles from map corners', () => {
+    expect(area).toEqual([[2.299, 48.799], [2.314, 48.799], [2.314, 48.811], [2.299, 48.811], [2.299, 48.799]]);
+  });
+
+  it('should close lasso paths', () => {
+    expect(areaFromLatLngs([[48.8, 2.3], [48.8, 2.31], [48.81, 2.31]])).toEqual([
+      [2.3, 48.8], [2.31, 48.8], [2.31, 48.81], [2.3, 48.8]
+    ]);
+  });
+
+  it('should pick zones touching the area in intersects mode', () => {
+    expect(ids(findZonesInArea(zones, area, 'intersects'))).toEqual(['cell-0', 'cell-1']);
+  });
+
+  it('should pick zones entirely inside the area in contains mode', () => {
+    expect(ids(findZonesInArea(zones, area, 'contains'))).toEqual(['cell-0']);
+  });
+
+  it('should pick zones whose centroid is inside the area in centroid mode', () => {
+    expect(ids(findZonesInArea(zones, rectangleArea([48.799, 2.299], [48.811, 2.316]), 'centroid'))).toEqual(['cell-0', 'cell-1']);
+    expect(ids(findZonesInArea(zones, area, 'centroid'))).toEqual(['cell-0']);
+  });
+
+  it('should handle lasso shapes', () => {
+    // Triangle reaching into cell-2 only through its south-west corner region
+    const lasso = areaFromLatLngs([[48.801, 2.301], [48.801, 2.325], [48.809, 2.301]]);
+    expect(ids(findZonesInArea(zones, lasso))).toEqual(['cell-0', 'cell-1', 'cell-2']);
+    expect(ids(findZonesInArea(zones, lasso, 'centroid'))).toEqual(['cell-0']);
+  });
+
+  it('should ignore degenerate areas', () => {
+    expect(findZonesInArea(zones, rectangleArea([48.805, 2.305], [48.805, 2.305]))).toEqual([]);
+    expect(findZonesInArea(zones, [])).toEqual([]);
+  });
+
+  it('should pick zones covered above a share of their area', () => {
+    // Covers 40% of cell-1
+    expect(ids(findZonesInArea(zones, area, 0.3))).toEqual(['cell-0', 'cell-1']);
+    expect(ids(findZonesInArea(zones, area, 0.5))).toEqual(['cell-0']);
+  });
+
+  it('should accept GeoJSON geometries as the area', () => {
+    const shape: GeoJSON.MultiPolygon = {
+      type: 'MultiPolygon',
+      coordinates: [[square(2.301, 48.801, 0.002)], [square(2.321, 48.801, 0.002)]]
+    };
+    expect(ids(findZonesInArea(zones, shape))).toEqual(['cell-0', 'cell-2']);
+  });
+
+  describe('shapeToGeometry', () => {
+    it('should turn circles drawn as points with a radius into polygons', () => {
+      const geometry = shapeToGeometry({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [2.315, 48.805] },
+        properties: { radius: 300 }
+      });
+
+      expect(geometry?.type).toBe('Polygon');
+      // ~300 m radius only reaches the middle cell
+      expect(ids(findZonesInArea(zones, geometry!))).toEqual(['cell-1']);
+    });
+
+    it('should ignore shapes without an area', () => {
+      expect(shapeToGeometry({ type: 'LineString', coordinates: [[0, 0], [1, 1]] })).toBeNull();
+    });
+
+    it('should ignore points without a radius, as Leaflet.draw exports circles', () => {
+      const center: GeoJSON.Point = { type: 'Point', coordinates: [2.315, 48.805] };
+
+      expect(shapeToGeometry({ type: 'Feature', geometry: center, properties: {} })).toBeNull();
+      expect(shapeToGeometry({ type: 'Feature', geometry: center, properties: { radius: '300' } })).toBeNull();
+      expect(shapeToGeometry(center)).toBeNull();
+    });
+  });
+
+  it('should find the zone closest to the middle of an area', () => {
+    expect(closestZoneToArea(zones, rectangleArea([48.8, 2.312], [48.81, 2.322]))?.id).toBe('cell-1');
+    expect(closestZoneToArea([], area)).toBeUndefined();
+  });
+
+  describe('distance', () => {
+    // Half a cell west of cell-0, about 370 m from its western edge
+    const point: [number, number] = [48.805, 2.295];
+
+    it('should measure to the zone outline, 0 inside', () => {
+      expect(distanceToZone(zones[0], point)).toBeCloseTo(0.366, 2);
+      expect(distanceToZone(zones[1], [48.805, 2.315])).toBe(0);
+    });
+
+    it('should pick zones reaching into the radius', () => {
+      expect(ids(findZonesWithinDistance(zones, point, 0.5))).toEqual(['cell-0']);
+      expect(ids(findZonesWithinDistance(zones, point, 1.2))).toEqual(['cell-0', 'cell-1']);
+      expect(findZonesWithinDistance(zones, point, 0.3)).toEqual([]);
+    });
+
+    it('should use the centroid or the whole zone in the other modes', () => {
+      // cell-0 reaches into 500 m but its centroid is about 730 m away
+      expect(findZonesWithinDistance(zones, point, 0.5, 'centroid')).toEqual([]);
+      expect(ids(findZonesWithinDistance(zones, point, 0.8, 'centroid'))).toEqual(['cell-0']);
+      expect(ids(findZonesWithinDistance(zones, point, 1.3, 'contains'))).toEqual(['cell-0']);
+    });
+  });
+});
+
@@ -0,0 +1,123 @@
+import { classify, classIndex, classifyZones, colorRamp, getChoroplethClassification } from '../choropleth';
+import type { Zone } from '@/types';
+
+const zoneWith = (id: string, population?: unknown): Zone => ({
+  id,
+  name: id,
+  coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]],
+  properties: population === undefined ? {} : { population }
+});
+
+describe('choropleth', () => {
+  describe('classify', () => {
+    const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+    it('should split the range into equal intervals', () => {
+      expect(classify(values, 'equalInterval', 3)).toEqual([1, 4, 7, 10]);
+    });
+
+    it('should split the values into quantiles', () => {
+      expect(classify(values, 'quantile', 2)).toEqual([1, 5.5, 10]);
+      expect(classify([10, 1, 5, 3, 8], 'quantile', 4)).toEqual([1, 3, 5, 8, 10]);
+    });
+
+    it('should find natural breaks between clusters', () => {
+      const clustered = [1, 2, 2, 3, 20, 21, 22, 50, 51, 53];
+      expect(classify(clustered, 'jenks', 3)).toEqual([1, 3, 22, 53]);
+    });
+
+    it('should classify large sets for natural breaks from a sample', () => {
+      const large = Array.from({ length: 5000 }, (_, i) => (i < 2500 ? i % 10 : 1000 + (i % 10)));
+      const breaks = classify(large, 'jenks', 2);
+
+      expect(breaks[0]).toBe(0);
+      expect(breaks[1]).toBe(9);
+      expect(breaks[2]).toBe(1009);
+    });
+
+    it('should use manual breaks as given, sorted', () => {
+      expect(classify(values, 'manual', 5, [100, 0, 5])).toEqual([0, 5, 100]);
+    });
+
+    it('should not make more classes than distinct values', () => {
+      expect(classify([3, 3, 3, 7], 'quantile', 5)).toEqual([3, 7]);
+      expect(classify([4, 4], 'equalInterval', 5)).toEqual([4]);
+      expect(classify([], 'jenks')).toEqual([]);
+    });
+
+    it('should find the class of a value, with upper bounds inclusive', () => {
+      const breaks = [0, 10, 20, 30];
+
+      expect(classIndex(breaks, 10)).toBe(0);
+      expect(classIndex(breaks, 10.5)).toBe(1);
+      expect(classIndex(breaks, -5)).toBe(0);
+      expect(classIndex(breaks, 99)).toBe(2);
+    });
+  });
+
+  describe('colorRamp', () => {
+    it('should interpolate colours along the stops', () => {
+      expect(colorRamp(['#000000', '#ffffff'], 3)).toEqual(['#000000', '#808080', '#ffffff']);
+      expect(colorRamp(['#000', '#fff'], 1)).toEqual(['#808080']);
+    });
+
+    it('should use named ramps and reverse them', () => {
+      const blues = colorRamp('blues', 4);
+
+      expect(blues).toHaveLength(4);
+      expect(blues[0]).toBe('#deebf7');
+      expect(blues[3]).toBe('#08306b');
+      expect(colorRamp('blues', 4, true)).toEqual([...blues].reverse());
+    });
+
+    it('should keep colours that cannot be interpolated', () => {
+      expect(colorRamp(['red', 'green', 'blue'], 3)).toEqual(['red', 'green', 'blue']);
+    });
+  });
+
+  describe('classifyZones', () => {
+    const zones = [
+      zoneWith('a', 100),
+      zoneWith('b', 200),
+      zoneWith('c', 300),
+      zoneWith('d', 400),
+      zoneWith('e'),
+      zoneWith('f', 'unknown')
+    ];
+
+    it('should colour zones by class and count them', () => {
+      const classification = classifyZones(zones, {
+        property: 'population',
+        method: 'equalInterval',
+        classes: 3,
+        ramp: ['#000000', '#ffffff'],
+        noDataColor: '#cccccc'
+      });
+
+      expect(classification.breaks).toEqual([100, 200, 300, 400]);
+      expect(classification.classes.map(({ color, count }) => [color, count])).toEqual([
+        ['#000000', 2],
+        ['#808080', 1],
+        ['#ffffff', 1]
+      ]);
+      expect(classification.colorOf(zones[0])).toBe('#000000');
+      expect(classification.colorOf(zones[3])).toBe('#ffffff');
+      expect(classification.noDataCount).toBe(2);
+      expect(classification.colorOf(zones[5])).toBe('#cccccc');
+    });
+
+    it('should make one class when every zone has the same value', () => {
+      const classification = classifyZones([zoneWith('a', 5), zoneWith('b', 5)], { property: 'population' });
+
+      expect(classification.classes).toHaveLength(1);
+      expect(classification.classes[0]).toMatchObject({ from: 5, to: 5, count: 2 });
+    });
+
+    it('should reuse the classification for equal options', () => {
+      const first = getChoroplethClassification(zones, { property: 'population', method: 'jenks' });
+
+      expect(getChoroplethClassification(zones, { property: 'population', method: 'jenks' })).toBe(first);
+      expect(getChoroplethClassification(zones, { property: 'population', method: 'quantile' })).not.toBe(first);
+    });
+  });
+});
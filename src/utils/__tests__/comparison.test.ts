@@ -0,0 +1,45 @@
+import { compareSelections } from '../comparison';
+import type { Zone } from '@/types';
+import { createCellRow } from '../../../tests/utils/mapTestUtils';
+
+// Row of four equal cells with a population each
+const zones: Zone[] = createCellRow(4).map((zone, col) => ({ ...zone, properties: { population: (col + 1) * 1000 } }));
+
+const ids = (list: Zone[]) => list.map(zone => zone.id);
+
+describe('compareSelections', () => {
+  it('should split zones into added, removed and unchanged', () => {
+    const comparison = compareSelections(zones.slice(0, 3), zones.slice(1));
+
+    expect(ids(comparison.added)).toEqual(['cell-3']);
+    expect(ids(comparison.removed)).toEqual(['cell-0']);
+    expect(ids(comparison.unchanged)).toEqual(['cell-1', 'cell-2']);
+    expect(comparison.status).toEqual({
+      'cell-0': 'removed',
+      'cell-1': 'unchanged',
+      'cell-2': 'unchanged',
+      'cell-3': 'added'
+    });
+  });
+
+  it('should report area and property deltas', () => {
+    const comparison = compareSelections(zones.slice(0, 1), zones.slice(0, 3), {
+      areaUnit: 'km2',
+      properties: ['population', 'missing']
+    });
+
+    expect(comparison.baseline.units.area).toBe('km2');
+    expect(comparison.areaDelta).toBeCloseTo(2 * comparison.baseline.totalArea, 3);
+    expect(comparison.properties).toEqual({
+      population: { baseline: 1000, current: 6000, delta: 5000 },
+      missing: { baseline: 0, current: 0, delta: 0 }
+    });
+  });
+
+  it('should compare against an empty baseline', () => {
+    const comparison = compareSelections([], zones.slice(0, 1));
+
+    expect(ids(comparison.added)).toEqual(['cell-0']);
+    expect(comparison.areaDelta).toBe(comparison.current.totalArea);
+  });
+});
@@ -0,0 +1,59 @@
+import { checkConstraints } from '../constraints';
+import type { SelectionConstraint } from '../constraints';
+import type { Zone } from '@/types';
+import { square } from '../../../tests/utils/mapTestUtils';
+
+// 0.01° cells at the equator, about 1.24 km² each
+const cell = (col: number, population: number, type = 'residential'): Zone => ({
+  id: `cell-${col}`,
+  name: `Cell ${col}`,
+  coordinates: square(col * 0.01, 0, 0.01),
+  properties: { population, type }
+});
+
+const [a, b, c] = [cell(0, 4000), cell(1, 5000), cell(2, 2000, 'industrial')];
+
+describe('checkConstraints', () => {
+  it('should accept zones that break no constraint', () => {
+    expect(checkConstraints(b, [a], [{ type: 'maxSum', property: 'population', max: 9000 }])).toBeNull();
+  });
+
+  it('should limit the total area', () => {
+    const constraints: SelectionConstraint[] = [{ type: 'maxArea', max: 3, unit: 'km2' }];
+
+    expect(checkConstraints(b, [a], constraints)).toBeNull();
+    expect(checkConstraints(c, [a, b], constraints)).toMatchObject({
+      type: 'maxArea',
+      message: 'Selecting Cell 2 would exceed the maximum area of 3 km²'
+    });
+  });
+
+  it('should limit the sum of a property', () => {
+    expect(checkConstraints(b, [a], [{ type: 'maxSum', property: 'population', max: 8000 }])).toMatchObject({
+      type: 'maxSum',
+      message: 'Selecting Cell 1 would exceed the maximum population of 8,000'
+    });
+  });
+
+  it('should only allow listed property values', () => {
+    const constraints: SelectionConstraint[] = [{ type: 'allowedValues', property: 'type', values: ['residential'] }];
+
+    expect(checkConstraints(a, [], constraints)).toBeNull();
+    expect(checkConstraints(c, [], constraints)?.message).toBe(
+      'Cell 2 cannot be selected: type "industrial" is not allowed'
+    );
+  });
+
+  it('should run custom validators and report the first broken constraint', () => {
+    const validate = jest.fn((_zone: Zone, selection: Zone[]) => (selection.length > 0 ? 'Only one zone' : null));
+    const result = checkConstraints(b, [a], [
+      { type: 'custom', validate },
+      { type: 'maxSum', property: 'population', max: 0, message: 'Too many people' }
+    ]);
+
+    expect(validate).toHaveBeenCalledWith(b, [a]);
+    expect(result).toMatchObject({ type: 'custom', message: 'Only one zone' });
+    expect(checkConstraints(a, [], [{ type: 'maxSum', property: 'population', max: 0, message: 'Too many people' }]))
+      .toMatchObject({ message: 'Too many people' });
+  });
+});
@@ -0,0 +1,103 @@
+import { getZoneGeometry, getZonePolygons, getZonePositions, zoneToFeature, zoneToLatLngs } from '../geometry';
+import { exportToCSV, exportToGeoJSON, exportToKML } from '../exportFormats';
+import { calculateMetrics } from '../metrics';
+import type { Zone } from '@/types';
+import { square } from '../../../tests/utils/mapTestUtils';
+
+describe('geometry', () => {
+  const ringZone: Zone = { id: 'ring', name: 'Ring', coordinates: square(0, 0, 1) };
+  const holeZone: Zone = {
+    id: 'hole',
+    name: 'Hole',
+    coordinates: [square(0, 0, 4), square(1, 1, 1)]
+  };
+  const islandsZone: Zone = {
+    id: 'islands',
+    name: 'Islands',
+    coordinates: [[square(0, 0, 1)], [square(5, 5, 1), square(5.25, 5.25, 0.5)]],
+    properties: { postalCode: '29242' }
+  };
+
+  describe('getZoneGeometry', () => {
+    it('should wrap a bare ring into a Polygon', () => {
+      expect(getZoneGeometry(ringZone)).toEqual({
+        type: 'Polygon',
+        coordinates: [square(0, 0, 1)]
+      });
+    });
+
+    it('should keep interior rings of a Polygon', () => {
+      const geometry = getZoneGeometry(holeZone);
+      expect(geometry.type).toBe('Polygon');
+      expect(geometry.coordinates).toHaveLength(2);
+    });
+
+    it('should detect MultiPolygons', () => {
+      const geometry = getZoneGeometry(islandsZone);
+      expect(geometry.type).toBe('MultiPolygon');
+      expect(geometry.coordinates).toHaveLength(2);
+    });
+
+    it('should look past empty rings and polygons', () => {
+      expect(getZoneGeometry({ id: 'p', name: 'Polygon', coordinates: [[], square(0, 0, 1)] }).type).toBe('Polygon');
+      expect(getZoneGeometry({ id: 'm', name: 'Multi', coordinates: [[[]], [square(0, 0, 1)]] }).type).toBe('MultiPolygon');
+    });
+
+    it('should handle empty coordinates', () => {
+      expect(getZoneGeometry({ id: 'e', name: 'Empty', coordinates: [] })).toEqual({
+        type: 'Polygon',
+        coordinates: []
+      });
+    });
+  });
+
+  describe('helpers', () => {
+    it('should list polygons and positions of every part', () => {
+      expect(getZonePolygons(islandsZone)).toHaveLength(2);
+      expect(getZonePositions(islandsZone)).toHaveLength(15);
+    });
+
+    it('should build a feature carrying zone properties', () => {
+      const feature = zoneToFeature(islandsZone);
+      expect(feature.id).toBe('islands');
+      expect(feature.properties).toEqual({ id: 'islands', name: 'Islands', postalCode: '29242' });
+      expect(feature.geometry.type).toBe('MultiPolygon');
+    });
+
+    it('should swap to [lat, lng] for Leaflet', () => {
+      const latLngs = zoneToLatLngs({ id: 'p', name: 'P', coordinates: [[2, 48], [3, 48], [3, 49], [2, 48]] });
+      expect(latLngs[0][0][0]).toEqual([48, 2]);
+      expect(latLngs[0][0][1]).toEqual([48, 3]);
+    });
+  });
+
+  describe('exports', () => {
+    it('should export holes and multipolygons to GeoJSON', () => {
+      const geojson = exportToGeoJSON([holeZone, islandsZone]) as GeoJSON.FeatureCollection;
+      expect(geojson.features[0].geometry).toEqual({ type: 'Polygon', coordinates: holeZone.coordinates });
+      expect(geojson.features[1].geometry).toEqual({ type: 'MultiPolygon', coordinates: islandsZone.coordinates });
+    });
+
+    it('should export interior rings and parts to KML', () => {
+      const kml = exportToKML([holeZone, islandsZone]);
+      expect(kml.match(/<innerBoundaryIs>/g)).toHaveLength(2);
+      expect(kml).toContain('<MultiGeometry>');
+      expect(kml).toContain('<Placemark id="hole"><name>Hole</name><Polygon>');
+    });
+
+    it('should include the geometry type in CSV', () => {
+      const csv = exportToCSV([ringZone, islandsZone]);
+      const [header, first, second] = csv.split('\n');
+      expect(header).toBe('id,name,geometryType,coordinates');
+      expect(first.startsWith('ring,Ring,Polygon,')).toBe(true);
+      expect(second.startsWith('islands,Islands,MultiPolygon,')).toBe(true);
+    });
+  });
+
+  describe('metrics', () => {
+    it('should compute the bounding box across all parts', () => {
+      const metrics = calculateMetrics([islandsZone]);
+      expect(metrics.boundingBox).toEqual([[0, 0], [6, 6]]);
+    });
+  });
+});
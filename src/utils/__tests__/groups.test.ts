@@ -0,0 +1,82 @@
+import {
+  assignZonesToGroup,
+  calculateGroupMetrics,
+  exportGroupMembership,
+  nextGroupColor,
+  removeZonesFromGroups,
+  GROUP_COLORS
+} from '../groups';
+import type { ZoneGroup } from '@/types';
+import { createCellRow } from '../../../tests/utils/mapTestUtils';
+
+// Row of three touching cells
+const zones = createCellRow();
+
+const groups: ZoneGroup[] = [
+  { id: 'north', name: 'North', color: '#ff0000', zoneIds: ['cell-0'] },
+  { id: 'south', name: 'South, east', color: '#0000ff', zoneIds: ['cell-1'] }
+];
+
+describe('zone groups', () => {
+  describe('assignZonesToGroup', () => {
+    it('should move zones out of other groups in exclusive mode', () => {
+      const next = assignZonesToGroup(groups, 'south', ['cell-0', 'cell-2']);
+      expect(next.map(group => group.zoneIds)).toEqual([[], ['cell-1', 'cell-0', 'cell-2']]);
+    });
+
+    it('should keep other memberships in overlapping mode', () => {
+      const next = assignZonesToGroup(groups, 'south', ['cell-0'], 'overlapping');
+      expect(next.map(group => group.zoneIds)).toEqual([['cell-0'], ['cell-1', 'cell-0']]);
+    });
+
+    it('should return the same groups when nothing changes', () => {
+      expect(assignZonesToGroup(groups, 'north', ['cell-0'])).toBe(groups);
+      expect(removeZonesFromGroups(groups, ['cell-2'])).toBe(groups);
+    });
+
+    it('should reject unknown groups', () => {
+      expect(() => assignZonesToGroup(groups, 'west', ['cell-0'])).toThrow('Unknown zone group: west');
+    });
+  });
+
+  it('should remove zones from one group or all of them', () => {
+    const overlapping = assignZonesToGroup(groups, 'south', ['cell-0'], 'overlapping');
+    expect(removeZonesFromGroups(overlapping, ['cell-0'], 'south').map(group => group.zoneIds))
+      .toEqual([['cell-0'], ['cell-1']]);
+    expect(removeZonesFromGroups(overlapping, ['cell-0']).map(group => group.zoneIds))
+      .toEqual([[], ['cell-1']]);
+  });
+
+  it('should pick the first unused palette colour', () => {
+    expect(nextGroupColor([])).toBe(GROUP_COLORS[0]);
+    expect(nextGroupColor([{ ...groups[0], color: GROUP_COLORS[0].toUpperCase() }])).toBe(GROUP_COLORS[1]);
+  });
+
+  it('should compute metrics per group', () => {
+    const metrics = calculateGroupMetrics(assignZonesToGroup(groups, 'south', ['cell-2']), zones, { areaUnit: 'km2' });
+
+    expect(metrics.north.zoneCount).toBe(1);
+    expect(metrics.south.zoneCount).toBe(2);
+    expect(metrics.south.totalArea / metrics.north.totalArea).toBeCloseTo(2, 2);
+  });
+
+  describe('exportGroupMembership', () => {
+    it('should export one CSV row per membership', () => {
+      expect(exportGroupMembership(groups, zones, 'csv')).toBe(
+        'groupId,groupName,zoneId,zoneName\nnorth,North,cell-0,Cell 0\nsouth,"South, east",cell-1,Cell 1'
+      );
+    });
+
+    it('should tag GeoJSON features with their group', () => {
+      const collection = JSON.parse(exportGroupMembership(groups, zones, 'geojson'));
+
+      expect(collection.features).toHaveLength(2);
+      expect(collection.features[1].properties).toMatchObject({
+        id: 'cell-1',
+        groupId: 'south',
+        groupName: 'South, east',
+        groupColor: '#0000ff'
+      });
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  buildHierarchy,
+  deselectFromHierarchy,
+  expandSelection,
+  getAncestors,
+  getChildren,
+  getDescendants,
+  isCoveredBySelection,
+  rollUpSelection
+} from '../hierarchy';
+import type { Zone } from '@/types';
+
+const zone = (id: string, parentId?: string): Zone => ({ id, name: id, coordinates: [], parentId });
+
+// idf -> (75 -> 75001, 75002), (92); orphan points to an unknown parent
+const zones = [
+  zone('idf'),
+  zone('75', 'idf'),
+  zone('92', 'idf'),
+  zone('75001', '75'),
+  zone('75002', '75'),
+  zone('orphan', 'missing')
+];
+
+describe('hierarchy', () => {
+  const hierarchy = buildHierarchy(zones);
+
+  it('should index children and roots', () => {
+    expect(getChildren(hierarchy, null).map(z => z.id)).toEqual(['idf', 'orphan']);
+    expect(getChildren(hierarchy, 'idf').map(z => z.id)).toEqual(['75', '92']);
+    expect(getChildren(hierarchy, '92')).toEqual([]);
+  });
+
+  it('should walk ancestors and descendants', () => {
+    expect(getAncestors(hierarchy, '75001').map(z => z.id)).toEqual(['75', 'idf']);
+    expect(getDescendants(hierarchy, 'idf').map(z => z.id)).toEqual(['75', '92', '75001', '75002']);
+  });
+
+  it('should treat zones in parent cycles as roots', () => {
+    const cyclic = buildHierarchy([zone('self', 'self'), zone('a', 'b'), zone('b', 'a'), zone('child', 'a')]);
+
+    expect(getChildren(cyclic, null).map(z => z.id)).toEqual(['self', 'a', 'b']);
+    expect(getDescendants(cyclic, 'self')).toEqual([]);
+    expect(getDescendants(cyclic, 'a').map(z => z.id)).toEqual(['child']);
+    expect(rollUpSelection(cyclic, ['a', 'b'])).toEqual(['a', 'b']);
+    expect(rollUpSelection(cyclic, ['child'])).toEqual(['a']);
+  });
+
+  it('should roll complete families up into their parent', () => {
+    expect(rollUpSelection(hierarchy, ['75001', '75002'])).toEqual(['75']);
+    expect(rollUpSelection(hierarchy, ['92', '75001', '75002'])).toEqual(['idf']);
+    expect(rollUpSelection(hierarchy, ['75001', '92'])).toEqual(['75001', '92']);
+  });
+
+  it('should expand parents to their leaves', () => {
+    expect(expandSelection(hierarchy, ['idf']).sort()).toEqual(['75001', '75002', '92']);
+    expect(expandSelection(hierarchy, ['75002', 'orphan'])).toEqual(['75002', 'orphan']);
+  });
+
+  it('should swap a selected ancestor for the siblings of a deselected child', () => {
+    expect(deselectFromHierarchy(hierarchy, ['idf'], '75001').sort()).toEqual(['75002', '92']);
+    expect(deselectFromHierarchy(hierarchy, ['75', 'orphan'], '75')).toEqual(['orphan']);
+    expect(deselectFromHierarchy(hierarchy, ['92'], '75001')).toEqual(['92']);
+  });
+
+  it('should report zones covered by a selected ancestor', () => {
+    expect(isCoveredBySelection(hierarchy, new Set(['idf']), '75002')).toBe(true);
+    expect(isCoveredBySelection(hierarchy, new Set(['92']), '75002')).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { formatLabel, getLabelPoint, getLabelPriority, placeLabels } from '../labels';
+import type { LabelCandidate } from '../labels';
+import type { Zone } from '@/types';
+import { booleanPointInPolygon, point, polygon } from '@turf/turf';
+import { createZone, square } from '../../../tests/utils/mapTestUtils';
+
+const squareZone = (id: string, size: number, properties?: Zone['properties']) =>
+  createZone(id, [square(0, 0, size)], properties);
+
+const candidate = (id: string, x: number, priority: number, selected = false): LabelCandidate =>
+  ({ id, x, y: 0, width: 40, height: 16, priority, selected });
+
+describe('labels', () => {
+  describe('getLabelPoint', () => {
+    it('should place the label inside a C-shaped zone, where the centroid is not', () => {
+      // A "C" open to the east: the centroid falls in the gap
+      const ring: [number, number][] = [[0, 0], [3, 0], [3, 1], [1, 1], [1, 2], [3, 2], [3, 3], [0, 3], [0, 0]];
+      const zone: Zone = { id: 'c', name: 'C', coordinates: [ring] };
+      const [lng, lat] = getLabelPoint(zone);
+
+      expect(booleanPointInPolygon(point([lng, lat]), polygon([ring]))).toBe(true);
+      expect(lng).toBeLessThan(1);
+    });
+
+    it('should avoid holes', () => {
+      const zone: Zone = {
+        id: 'ring',
+        name: 'Ring',
+        coordinates: [
+          [[0, 0], [4, 0], [4, 4], [0, 4], [0, 0]],
+          [[1, 1], [1, 3], [3, 3], [3, 1], [1, 1]]
+        ]
+      };
+      const [lng, lat] = getLabelPoint(zone);
+
+      expect(lng > 1 && lng < 3 && lat > 1 && lat < 3).toBe(false);
+    });
+
+    it('should use the largest part of a multi-part zone', () => {
+      const zone: Zone = {
+        id: 'islands',
+        name: 'Islands',
+        coordinates: [
+          [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]],
+          [[[10, 0], [14, 0], [14, 4], [10, 4], [10, 0]]]
+        ]
+      };
+      const [lng, lat] = getLabelPoint(zone);
+
+      expect(lng).toBeCloseTo(12, 1);
+      expect(lat).toBeCloseTo(2, 1);
+    });
+  });
+
+  describe('formatLabel', () => {
+    const zone = squareZone('75056', 1, { population: 2133111, code: 'PAR' });
+
+    it('should default to the zone name', () => {
+      expect(formatLabel(zone)).toBe('Zone 75056');
+    });
+
+    it('should fill templates from the zone and its properties', () => {
+      expect(formatLabel(zone, '{name} ({population})')).toBe('Zone 75056 (2,133,111)');
+      expect(formatLabel(zone, '{code}-{id}{missing}')).toBe('PAR-75056');
+      expect(formatLabel(zone, z => z.id.slice(0, 2))).toBe('75');
+    });
+  });
+
+  describe('getLabelPriority', () => {
+    it('should rank by size unless a property or function is given', () => {
+      const small = squareZone('small', 1, { rank: 2 });
+      const large = squareZone('large', 3, { rank: 1 });
+
+      expect(getLabelPriority(large)).toBeGreaterThan(getLabelPriority(small));
+      expect(getLabelPriority(small, 'rank')).toBe(2);
+      expect(getLabelPriority(squareZone('none', 1), 'rank')).toBe(-Infinity);
+      expect(getLabelPriority(small, zone => zone.id.length)).toBe(5);
+    });
+  });
+
+  describe('placeLabels', () => {
+    it('should hide labels overlapping one of higher priority', () => {
+      const placed = placeLabels([candidate('a', 0, 1), candidate('b', 30, 2), candidate('c', 100, 0)]);
+
+      expect([...placed].sort()).toEqual(['b', 'c']);
+    });
+
+    it('should keep labels apart by the padding', () => {
+      // 50 px apart: 10 px between the edges of two 40 px labels
+      expect(placeLabels([candidate('a', 0, 1), candidate('b', 50, 0)], 4).size).toBe(2);
+      expect(placeLabels([candidate('a', 0, 1), candidate('b', 50, 0)], 12).size).toBe(1);
+    });
+
+    it('should place selected labels first', () => {
+      const placed = placeLabels([candidate('a', 0, 10), candidate('b', 30, 1, true)]);
+
+      expect([...placed]).toEqual(['b']);
+    });
+
+    it('should find collisions across grid cells', () => {
+      const candidates = Array.from({ length: 50 }, (_, i) => candidate(`${i}`, i * 25, 50 - i));
+      const placed = placeLabels(candidates, 0);
+
+      // 40 px wide labels every 25 px: every other one fits
+      expect(placed.size).toBe(25);
+      expect(placed.has('0')).toBe(true);
+      expect(placed.has('1')).toBe(false);
+    });
+  });
+});
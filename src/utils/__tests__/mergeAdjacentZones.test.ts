@@ -0,0 +1,90 @@
+import { mergeAdjacentZones } from '../mergeAdjacentZones';
+import { getZoneGeometry } from '../geometry';
+import type { Ring } from '@/types';
+import { createZone, square } from '../../../tests/utils/mapTestUtils';
+
+describe('mergeAdjacentZones', () => {
+  it('should return an empty list for no zones', () => {
+    expect(mergeAdjacentZones([])).toEqual([]);
+  });
+
+  it('should keep a single zone as its own outline', () => {
+    const merged = mergeAdjacentZones([createZone('a', square(2.3, 48.8, 0.01))]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].sourceZoneIds).toEqual(['a']);
+  });
+
+  it('should dissolve zones sharing an edge into one polygon', () => {
+    const merged = mergeAdjacentZones([
+      createZone('a', square(2.3, 48.8, 0.01)),
+      createZone('b', square(2.31, 48.8, 0.01))
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].id).toBe('a+b');
+    expect(merged[0].name).toBe('Zone a, Zone b');
+    expect(merged[0].sourceZoneIds).toEqual(['a', 'b']);
+
+    const geometry = getZoneGeometry(merged[0]);
+    expect(geometry.type).toBe('Polygon');
+    expect(geometry.coordinates).toHaveLength(1);
+  });
+
+  it('should keep separate blocks apart', () => {
+    const merged = mergeAdjacentZones([
+      createZone('a', square(2.3, 48.8, 0.01)),
+      createZone('b', square(2.31, 48.8, 0.01)),
+      createZone('c', square(2.4, 48.8, 0.01))
+    ]);
+
+    expect(merged.map(m => m.sourceZoneIds)).toEqual(
+      expect.arrayContaining([['a', 'b'], ['c']])
+    );
+  });
+
+  it('should not merge zones touching at a single point by default', () => {
+    const zones = [createZone('a', square(2.3, 48.8, 0.01)), createZone('b', square(2.31, 48.81, 0.01))];
+
+    expect(mergeAdjacentZones(zones)).toHaveLength(2);
+
+    const merged = mergeAdjacentZones(zones, { mergeTouchingPoints: true });
+    expect(merged).toHaveLength(1);
+    expect(getZoneGeometry(merged[0]).type).toBe('MultiPolygon');
+  });
+
+  it('should close floating-point gaps along shared edges', () => {
+    const merged = mergeAdjacentZones([
+      createZone('a', square(2.3, 48.8, 0.01)),
+      createZone('b', [
+        [2.3100000000001, 48.8],
+        [2.32, 48.8],
+        [2.32, 48.81],
+        [2.3100000000001, 48.81],
+        [2.3100000000001, 48.8]
+      ])
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(getZoneGeometry(merged[0]).type).toBe('Polygon');
+  });
+
+  it('should drop sliver holes but keep real enclaves', () => {
+    const outer: Ring = square(2.3, 48.8, 0.03);
+    const sliver: Ring = [[2.31, 48.81], [2.3100001, 48.81], [2.3100001, 48.8100001], [2.31, 48.81]];
+    const enclave: Ring = square(2.32, 48.82, 0.005);
+
+    const merged = mergeAdjacentZones([createZone('a', [outer, sliver, enclave])]);
+    expect(merged[0].coordinates).toHaveLength(2);
+  });
+
+  it('should keep the islands of one zone together', () => {
+    const merged = mergeAdjacentZones([
+      createZone('coast', [[square(2.3, 48.8, 0.01)], [square(2.4, 48.8, 0.01)]]),
+      createZone('inland', square(2.3, 48.81, 0.01))
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].sourceZoneIds).toEqual(['coast', 'inland']);
+    expect(getZoneGeometry(merged[0]).type).toBe('MultiPolygon');
+  });
+});
@@ -0,0 +1,71 @@
+import { calculateMetrics, calculateZoneMetrics } from '../metrics';
+import { createZone, square } from '../../../tests/utils/mapTestUtils';
+
+describe('calculateMetrics', () => {
+  it('should return empty metrics for no zones', () => {
+    const metrics = calculateMetrics([]);
+    expect(metrics.totalArea).toBe(0);
+    expect(metrics.zoneCount).toBe(0);
+    expect(metrics.zones).toEqual([]);
+    expect(metrics.units).toEqual({ area: 'm2', length: 'm' });
+  });
+
+  it('should compute geodesic area and perimeter of a zone', () => {
+    // 0.01° square at the equator is roughly 1113m on a side
+    const metrics = calculateZoneMetrics(createZone('a', square(0, 0, 0.01)));
+    expect(metrics.area).toBeGreaterThan(1.22e6);
+    expect(metrics.area).toBeLessThan(1.25e6);
+    expect(metrics.perimeter).toBeGreaterThan(4400);
+    expect(metrics.perimeter).toBeLessThan(4500);
+  });
+
+  it('should shrink with latitude', () => {
+    const equator = calculateZoneMetrics(createZone('a', square(0, 0, 0.01)));
+    const paris = calculateZoneMetrics(createZone('b', square(2.35, 48.85, 0.01)));
+    expect(paris.area / equator.area).toBeCloseTo(Math.cos(48.855 * Math.PI / 180), 2);
+  });
+
+  it('should subtract holes from area', () => {
+    const solid = calculateZoneMetrics(createZone('a', square(0, 0, 0.02)));
+    const holed = calculateZoneMetrics(createZone('b', [square(0, 0, 0.02), square(0.005, 0.005, 0.01)]));
+    expect(holed.area / solid.area).toBeCloseTo(0.75, 2);
+  });
+
+  it('should exclude shared borders from the selection perimeter', () => {
+    const a = createZone('a', square(0, 0, 0.01));
+    const b = createZone('b', square(0.01, 0, 0.01));
+    const metrics = calculateMetrics([a, b]);
+    const single = calculateZoneMetrics(a);
+
+    expect(metrics.totalArea).toBeCloseTo(single.area * 2, -2);
+    expect(metrics.totalPerimeter).toBeCloseTo(single.perimeter * 1.5, -1);
+    expect(metrics.zones.map(z => z.zoneId)).toEqual(['a', 'b']);
+  });
+
+  it('should weight the centre by area', () => {
+    const metrics = calculateMetrics([
+      createZone('big', square(0, 0, 0.03)),
+      createZone('small', square(0.03, 0, 0.01))
+    ]);
+
+    // Big square centroid at 0.015 with 9x the area of the small one at 0.035
+    expect(metrics.center[0]).toBeCloseTo((0.015 * 9 + 0.035) / 10, 4);
+    expect(metrics.boundingBox).toEqual([[0, 0], [0.04, 0.03]]);
+  });
+
+  it('should pull the zone centroid away from enclaves', () => {
+    const metrics = calculateZoneMetrics(createZone('a', [square(0, 0, 0.04), square(0.02, 0.015, 0.01)]));
+    expect(metrics.centroid[0]).toBeLessThan(0.02);
+    expect(metrics.centroid[1]).toBeCloseTo(0.02, 4);
+  });
+
+  it('should convert to the requested units', () => {
+    const inMetres = calculateMetrics([createZone('a', square(0, 0, 0.01))]);
+    const inKm = calculateMetrics([createZone('a', square(0, 0, 0.01))], { areaUnit: 'km2', lengthUnit: 'km' });
+
+    expect(inKm.totalArea).toBeCloseTo(inMetres.totalArea / 1e6, 6);
+    expect(inKm.totalPerimeter).toBeCloseTo(inMetres.totalPerimeter / 1e3, 6);
+    expect(inKm.zones[0].area).toBeCloseTo(inMetres.zones[0].area / 1e6, 6);
+    expect(inKm.units).toEqual({ area: 'km2', length: 'km' });
+  });
+});
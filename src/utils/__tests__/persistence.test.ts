@@ -0,0 +1,59 @@
+import { readPersistedSelection, writePersistedSelection } from '../persistence';
+
+describe('selection persistence', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    window.history.replaceState(null, '', '/');
+  });
+
+  describe('hash', () => {
+    it('should write ids and viewport next to other hash parameters', () => {
+      window.history.replaceState(null, '', '/map?lang=fr#tab=list');
+
+      writePersistedSelection({ zoneIds: ['75101', 'a,b'] }, { storage: 'hash' });
+      writePersistedSelection({ view: { center: [48.856613, 2.352222], zoom: 12.5 } }, { storage: 'hash' });
+
+      expect(window.location.search).toBe('?lang=fr');
+      expect(window.location.hash).toBe('#tab=list&zones=75101,a%2Cb&zones.view=48.85661,2.35222,12.5');
+      expect(readPersistedSelection({ storage: 'hash' })).toEqual({
+        zoneIds: ['75101', 'a,b'],
+        view: { center: [48.85661, 2.35222], zoom: 12.5 }
+      });
+    });
+
+    it('should keep selections under different keys apart', () => {
+      writePersistedSelection({ zoneIds: ['a'] }, { storage: 'hash', key: 'north' });
+      writePersistedSelection({ zoneIds: ['b'] }, { storage: 'hash', key: 'south' });
+
+      expect(readPersistedSelection({ storage: 'hash', key: 'north' })?.zoneIds).toEqual(['a']);
+      expect(readPersistedSelection({ storage: 'hash', key: 'south' })?.zoneIds).toEqual(['b']);
+      expect(readPersistedSelection({ storage: 'hash' })).toBeNull();
+    });
+
+    it('should read an empty selection', () => {
+      writePersistedSelection({ zoneIds: [] }, { storage: 'hash' });
+      expect(readPersistedSelection({ storage: 'hash' })).toEqual({ zoneIds: [] });
+    });
+  });
+
+  describe('localStorage', () => {
+    it('should round-trip the selection and viewport', () => {
+      const options = { storage: 'localStorage', key: 'my-app' } as const;
+      writePersistedSelection({ zoneIds: ['a', 'b'] }, options);
+      writePersistedSelection({ view: { center: [48.85, 2.35], zoom: 11 } }, options);
+
+      expect(readPersistedSelection(options)).toEqual({
+        zoneIds: ['a', 'b'],
+        view: { center: [48.85, 2.35], zoom: 11 }
+      });
+    });
+
+    it('should ignore values it did not write', () => {
+      window.localStorage.setItem('zones', 'not json');
+      expect(readPersistedSelection({ storage: 'localStorage' })).toBeNull();
+
+      window.localStorage.setItem('zones', JSON.stringify({ zoneIds: ['a', 3], view: { center: 'x' } }));
+      expect(readPersistedSelection({ storage: 'localStorage' })).toEqual({ zoneIds: ['a'] });
+    });
+  });
+});
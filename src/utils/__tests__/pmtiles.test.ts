@@ -0,0 +1,143 @@
+import { createPMTilesReader, zxyToTileId, PMTilesError } from '../pmtiles';
+import type { Decompress } from '../pmtiles';
+
+interface FixtureEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;
+}
+
+const varint = (value: number): number[] => {
+  const bytes: number[] = [];
+  while (value >= 128) {
+    bytes.push((value % 128) | 128);
+    value = Math.floor(value / 128);
+  }
+  return [...bytes, value];
+};
+
+const encodeDirectory = (entries: FixtureEntry[]) => [
+  ...varint(entries.length),
+  ...entries.flatMap((entry, i) => varint(entry.tileId - (i > 0 ? entries[i - 1].tileId : 0))),
+  ...entries.flatMap(entry => varint(entry.runLength)),
+  ...entries.flatMap(entry => varint(entry.length)),
+  ...entries.flatMap(entry => varint(entry.offset + 1))
+];
+
+// Archive holding one byte string per tile id; with `leaf`, the root only points to a leaf directory.
+// `pack` stands in for compression of directories and tiles.
+const buildArchive = (tiles: Record<number, number[]>, { leaf = false, compression = 1, pack = (bytes: number[]) => bytes } = {}) => {
+  const data: number[] = [];
+  const entries: FixtureEntry[] = Object.entries(tiles).map(([tileId, bytes]) => {
+    const packed = pack(bytes);
+    const entry = { tileId: Number(tileId), offset: data.length, length: packed.length, runLength: 1 };
+    data.push(...packed);
+    return entry;
+  });
+
+  const leafDirectory = leaf ? pack(encodeDirectory(entries)) : [];
+  const root = pack(encodeDirectory(
+    leaf ? [{ tileId: 0, offset: 0, length: leafDirectory.length, runLength: 0 }] : entries
+  ));
+
+  const header = new DataView(new ArrayBuffer(127));
+  [...'PMTiles'].forEach((char, i) => header.setUint8(i, char.charCodeAt(0)));
+  header.setUint8(7, 3);
+  const setUint64 = (offset: number, value: number) => header.setUint32(offset, value, true);
+  setUint64(8, 127);
+  setUint64(16, root.length);
+  setUint64(40, 127 + root.length);
+  setUint64(56, 127 + root.length + leafDirectory.length);
+  header.setUint8(97, compression);
+  header.setUint8(98, compression);
+  header.setUint8(99, 1);
+  header.setUint8(100, 0);
+  header.setUint8(101, 2);
+  header.setInt32(102, -50000000, true);
+  header.setInt32(106, 410000000, true);
+  header.setInt32(110, 100000000, true);
+  header.setInt32(114, 510000000, true);
+
+  return new Uint8Array([...new Uint8Array(header.buffer), ...root, ...leafDirectory, ...data]).buffer;
+};
+
+const tiles = {
+  0: [1, 2, 3], // 0/0/0
+  4: [4, 5], // 1/1/0
+  5: [6] // 2/0/0
+};
+
+describe('pmtiles', () => {
+  it('should number tiles along the Hilbert curve', () => {
+    expect(zxyToTileId(0, 0, 0)).toBe(0);
+    expect(zxyToTileId(1, 0, 0)).toBe(1);
+    expect(zxyToTileId(1, 0, 1)).toBe(2);
+    expect(zxyToTileId(1, 1, 1)).toBe(3);
+    expect(zxyToTileId(1, 1, 0)).toBe(4);
+    expect(zxyToTileId(2, 0, 0)).toBe(5);
+  });
+
+  it('should read the header', async () => {
+    const header = await createPMTilesReader(buildArchive(tiles)).getHeader();
+
+    expect(header.tileType).toBe('mvt');
+    expect(header.tileCompression).toBe('none');
+    expect([header.minZoom, header.maxZoom]).toEqual([0, 2]);
+    expect(header.bounds).toEqual([-5, 41, 10, 51]);
+  });
+
+  it('should read tiles from the root directory', async () => {
+    const reader = createPMTilesReader(buildArchive(tiles));
+
+    expect([...(await reader.getTile(0, 0, 0))!]).toEqual([1, 2, 3]);
+    expect([...(await reader.getTile(1, 1, 0))!]).toEqual([4, 5]);
+    expect(await reader.getTile(1, 0, 0)).toBeNull();
+    expect(await reader.getTile(3, 0, 0)).toBeNull();
+  });
+
+  it('should follow leaf directories', async () => {
+    const reader = createPMTilesReader(buildArchive(tiles, { leaf: true }));
+
+    expect([...(await reader.getTile(2, 0, 0))!]).toEqual([6]);
+    expect(await reader.getTile(1, 1, 1)).toBeNull();
+  });
+
+  it('should decompress directories and tiles', async () => {
+    const pack = (bytes: number[]) => [...bytes].reverse();
+    const decompress: Decompress = async data => new Uint8Array([...data].reverse());
+    const reader = createPMTilesReader(buildArchive(tiles, { leaf: true, compression: 2, pack }), decompress);
+
+    expect([...(await reader.getTile(0, 0, 0))!]).toEqual([1, 2, 3]);
+  });
+
+  it('should read byte ranges over HTTP', async () => {
+    const archive = buildArchive(tiles);
+    const fetchMock = jest.fn(async (_url: string, init: { headers: { Range: string } }) => {
+      const [start, end] = init.headers.Range.replace('bytes=', '').split('-').map(Number);
+      return { ok: true, status: 206, arrayBuffer: async () => archive.slice(start, end + 1) };
+    });
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const reader = createPMTilesReader('https://tiles.test/communes.pmtiles');
+
+    expect([...(await reader.getTile(1, 1, 0))!]).toEqual([4, 5]);
+    // Header and root directory come in the first read, then only the tile's bytes
+    expect(fetchMock.mock.calls.map(([, init]) => init.headers.Range)).toEqual(['bytes=0-16383', 'bytes=143-144']);
+  });
+
+  it('should keep the whole archive when the server ignores ranges', async () => {
+    const archive = buildArchive(tiles);
+    const fetchMock = jest.fn(async () => ({ ok: true, status: 200, arrayBuffer: async () => archive }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const reader = createPMTilesReader('https://tiles.test/communes.pmtiles');
+
+    expect([...(await reader.getTile(0, 0, 0))!]).toEqual([1, 2, 3]);
+    expect([...(await reader.getTile(2, 0, 0))!]).toEqual([6]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject other files', async () => {
+    const reader = createPMTilesReader(new ArrayBuffer(200));
+    await expect(reader.getHeader()).rejects.toThrow(PMTilesError);
+  });
+});
@@ -0,0 +1,89 @@
+import { toWGS84, reprojectZone, reprojectZones, toLatLng, toLngLat, isSupportedCrs } from '../projection';
+import { getZonePolygons } from '../geometry';
+import type { Zone, LatLng, LngLat } from '@/types';
+
+const expectPosition = (actual: LngLat, expected: [number, number], precision = 4) => {
+  expect(actual[0]).toBeCloseTo(expected[0], precision);
+  expect(actual[1]).toBeCloseTo(expected[1], precision);
+};
+
+describe('projection', () => {
+  describe('toWGS84', () => {
+    it('should unproject Web Mercator', () => {
+      expectPosition(toWGS84([0, 0], 'EPSG:3857'), [0, 0]);
+      expectPosition(toWGS84([261845.8, 6250564.3], 'EPSG:3857'), [2.3522, 48.8566]);
+    });
+
+    it('should unproject Lambert-93', () => {
+      expectPosition(toWGS84([700000, 6600000], 'EPSG:2154'), [3, 46.5], 8);
+      // Eiffel Tower
+      expectPosition(toWGS84([648237, 6862271], 'EPSG:2154'), [2.2945, 48.8584]);
+    });
+
+    it('should unproject British National Grid with the OSGB36 datum shift', () => {
+      // Big Ben; without the datum shift longitude is off by ~0.0016°
+      expectPosition(toWGS84([530268, 179640], 'EPSG:27700'), [-0.1246, 51.5007], 3);
+    });
+
+    it('should pass WGS84 through unchanged', () => {
+      expect(toWGS84([2.35, 48.85], 'EPSG:4326')).toEqual([2.35, 48.85]);
+    });
+  });
+
+  describe('reprojectZone', () => {
+    const zone: Zone = {
+      id: 'l93',
+      name: 'Lambert-93 square',
+      coordinates: [[
+        [700000, 6600000],
+        [701000, 6600000],
+        [701000, 6601000],
+        [700000, 6601000],
+        [700000, 6600000]
+      ]],
+      properties: { postalCode: '03000' }
+    };
+
+    it('should reproject every position and keep the rest of the zone', () => {
+      const result = reprojectZone(zone, 'EPSG:2154');
+      const [ring] = getZonePolygons(result)[0];
+
+      expect(result.properties).toEqual(zone.properties);
+      expect(ring).toHaveLength(5);
+      expectPosition(ring[0], [3, 46.5], 8);
+      expect(ring[2][0]).toBeGreaterThan(3);
+      expect(ring[2][1]).toBeGreaterThan(46.5);
+    });
+
+    it('should keep multipolygons as multipolygons', () => {
+      const multi: Zone = { ...zone, coordinates: [zone.coordinates as LngLat[][], zone.coordinates as LngLat[][]] };
+      expect(getZonePolygons(reprojectZone(multi, 'EPSG:3857'))).toHaveLength(2);
+    });
+
+    it('should return WGS84 zones as-is', () => {
+      const zones = [zone];
+      expect(reprojectZones(zones, 'EPSG:4326')).toBe(zones);
+    });
+  });
+
+  describe('coordinate order', () => {
+    it('should swap between LatLng and LngLat', () => {
+      const lngLat: LngLat = [2.35, 48.85];
+      const latLng: LatLng = toLatLng(lngLat);
+      expect(latLng).toEqual([48.85, 2.35]);
+      expect(toLngLat(latLng)).toEqual(lngLat);
+    });
+
+    it('should not accept one order where the other is expected', () => {
+      const latLng: LatLng = [48.85, 2.35];
+      // @ts-expect-error LatLng is not a LngLat
+      const lngLat: LngLat = latLng;
+      expect(lngLat).toBe(latLng);
+    });
+
+    it('should recognise supported CRS codes', () => {
+      expect(isSupportedCrs('EPSG:2154')).toBe(true);
+      expect(isSupportedCrs('EPSG:9999')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { parseQuery, compileQuery, queryZones, QueryParseError } from '../query';
+import type { Zone } from '@/types';
+
+const zone = (id: string, name: string, properties: Zone['properties']): Zone => ({
+  id,
+  name,
+  coordinates: [[0, 0], [1, 0], [1, 1], [0, 0]],
+  properties
+});
+
+const zones: Zone[] = [
+  zone('75056', 'Paris', { population: 2_100_000, postalCode: '75001', type: 'city', capital: true }),
+  zone('92012', 'Boulogne-Billancourt', { population: 120_000, postalCode: '92100', type: 'city' }),
+  zone('75112', 'Bois de Vincennes', { population: 0, postalCode: '75012', type: 'park' }),
+  zone('77001', 'Achères-la-Forêt', { population: 1_100, postalCode: '77760', type: 'village' })
+];
+
+const ids = (source: string) => queryZones(zones, source).map(z => z.id);
+
+describe('query', () => {
+  describe('evaluation', () => {
+    it('should combine comparisons with AND', () => {
+      expect(ids('population > 10000 AND postalCode STARTS WITH "75"')).toEqual(['75056']);
+    });
+
+    it('should give AND precedence over OR and honour parentheses', () => {
+      expect(ids('type = "park" OR type = "city" AND population < 200000')).toEqual(['92012', '75112']);
+      expect(ids('(type = "park" OR type = "city") AND population < 200000')).toEqual(['92012', '75112']);
+      expect(ids('(type = "park" OR type = "village") AND population > 0')).toEqual(['77001']);
+    });
+
+    it('should support NOT, IN and string operators', () => {
+      expect(ids('NOT type IN ("city", "park")')).toEqual(['77001']);
+      expect(ids('name CONTAINS "bois"')).toEqual(['75112']);
+      expect(ids("postalCode ENDS WITH '100'")).toEqual(['92012']);
+    });
+
+    it('should compare numeric strings against numeric literals', () => {
+      expect(ids('postalCode >= 77000')).toEqual(['92012', '77001']);
+      expect(ids('id = 75056')).toEqual(['75056']);
+    });
+
+    it('should treat missing properties as null', () => {
+      expect(ids('capital = true')).toEqual(['75056']);
+      expect(ids('capital = null')).toEqual(['92012', '75112', '77001']);
+      expect(ids('capital > 1')).toEqual([]);
+    });
+
+    it('should accept property names in any script', () => {
+      const named = zone('13055', 'Marseille', { région: 'PACA', население: 870_000 });
+      expect(compileQuery('région = "PACA" AND население > 800000')(named)).toBe(true);
+    });
+
+    it('should accept keywords in any case and alternative operators', () => {
+      expect(compileQuery('type == "city" and not population <> 120000')(zones[1])).toBe(true);
+    });
+  });
+
+  describe('parse errors', () => {
+    const parseError = (source: string) => {
+      try {
+        parseQuery(source);
+      } catch (err) {
+        return err as QueryParseError;
+      }
+      throw new Error(`Expected "${source}" to fail`);
+    };
+
+    it('should point at the offending token', () => {
+      const error = parseError('population > AND type = "city"');
+      expect(error).toBeInstanceOf(QueryParseError);
+      expect(error.position).toBe(13);
+      expect(error.message).toBe('Expected a value after ">" but found "AND" at position 13');
+    });
+
+    it('should report missing operators, parentheses and strings', () => {
+      expect(parseError('population 10').message).toContain('Expected an operator after "population"');
+      expect(parseError('(type = "city"').message).toContain('Expected ")" but found end of query');
+      expect(parseError('name = "Paris').message).toBe('Unterminated string at position 7');
+      expect(parseError('postalCode STARTS "75"').message).toContain('Expected WITH');
+      expect(parseError('type = "city" "park"').message).toContain('Unexpected ""park""');
+      expect(parseError('population > 1 & 2').message).toContain('Unexpected character "&"');
+    });
+
+    it('should reject empty queries', () => {
+      expect(parseError('   ').message).toBe('Query is empty at position 0');
+    });
+  });
+});
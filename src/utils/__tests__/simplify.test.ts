@@ -0,0 +1,49 @@
+import { simplifyZoneForZoom, degreesPerPixel } from '../simplify';
+import { getZonePositions, getZonePolygons } from '../geometry';
+import type { Zone, Ring } from '@/types';
+
+// Circle-ish ring with many vertices, ~2 km across
+const circle = (vertices: number): Ring => {
+  const ring: Ring = Array.from({ length: vertices }, (_, i) => {
+    const angle = (i / vertices) * 2 * Math.PI;
+    return [2.3522 + 0.01 * Math.cos(angle), 48.8566 + 0.01 * Math.sin(angle)];
+  });
+  return [...ring, ring[0]];
+};
+
+const zone: Zone = { id: 'complex', name: 'Complex', coordinates: [circle(1000)] };
+
+describe('simplify', () => {
+  it('should tie the tolerance to the pixel size', () => {
+    expect(degreesPerPixel(0)).toBeCloseTo(360 / 256);
+    expect(degreesPerPixel(1)).toBeCloseTo(degreesPerPixel(0) / 2);
+  });
+
+  it('should drop more vertices at lower zooms', () => {
+    const far = getZonePositions(simplifyZoneForZoom(zone, 6)).length;
+    const near = getZonePositions(simplifyZoneForZoom(zone, 14)).length;
+
+    expect(far).toBeLessThan(near);
+    expect(near).toBeLessThan(1001);
+    expect(far).toBeGreaterThanOrEqual(4);
+  });
+
+  it('should keep rings closed and leave the original zone untouched', () => {
+    const [ring] = getZonePolygons(simplifyZoneForZoom(zone, 8))[0];
+    expect(ring[0]).toEqual(ring[ring.length - 1]);
+    expect(getZonePositions(zone)).toHaveLength(1001);
+  });
+
+  it('should cache per zone, zoom level and tolerance', () => {
+    const simplified = simplifyZoneForZoom(zone, 10);
+    expect(simplifyZoneForZoom(zone, 10)).toBe(simplified);
+    expect(simplifyZoneForZoom(zone, 10.2)).toBe(simplified);
+    expect(simplifyZoneForZoom(zone, 10, 2)).not.toBe(simplified);
+  });
+
+  it('should return the zone itself when nothing can be dropped or simplification is off', () => {
+    const square: Zone = { id: 'square', name: 'Square', coordinates: [[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]] };
+    expect(simplifyZoneForZoom(square, 3)).toBe(square);
+    expect(simplifyZoneForZoom(zone, 3, 0)).toBe(zone);
+  });
+});
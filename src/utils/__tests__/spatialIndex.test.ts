@@ -0,0 +1,68 @@
+import { createSpatialIndex, getSpatialIndex } from '../spatialIndex';
+import type { Zone, Ring } from '@/types';
+import { square } from '../../../tests/utils/mapTestUtils';
+
+// 40 x 40 grid of 0.1° cells, enough for a tree several levels deep
+const grid: Zone[] = Array.from({ length: 1600 }, (_, i) => ({
+  id: `${Math.floor(i / 40)}-${i % 40}`,
+  name: `Cell ${i}`,
+  coordinates: square((i % 40) * 0.1, Math.floor(i / 40) * 0.1, 0.1)
+}));
+
+describe('spatialIndex', () => {
+  it('should find the zones overlapping a box, in input order', () => {
+    const index = createSpatialIndex(grid);
+    const found = index.search([1.05, 2.05, 1.15, 2.15]);
+
+    expect(found.map(zone => zone.id)).toEqual(['20-10', '20-11', '21-10', '21-11']);
+  });
+
+  it('should match a linear scan', () => {
+    const index = createSpatialIndex(grid);
+    const box: [number, number, number, number] = [0.33, 1.27, 2.71, 1.94];
+    const expected = grid.filter(zone => {
+      const [[west, south], , [east, north]] = zone.coordinates as Ring;
+      return west <= box[2] && box[0] <= east && south <= box[3] && box[1] <= north;
+    });
+
+    expect(index.search(box)).toEqual(expected);
+  });
+
+  it('should return nothing outside the indexed zones', () => {
+    expect(createSpatialIndex(grid).search([10, 10, 11, 11])).toEqual([]);
+    expect(createSpatialIndex([]).search([0, 0, 1, 1])).toEqual([]);
+  });
+
+  it('should skip zones without coordinates', () => {
+    const index = createSpatialIndex([...grid.slice(0, 3), { id: 'empty', name: 'Empty', coordinates: [] }]);
+    expect(index.size).toBe(3);
+  });
+
+  it('should find the zone containing a point', () => {
+    const index = createSpatialIndex(grid);
+
+    expect(index.zoneAt([2.05, 1.05])?.id).toBe('20-10');
+    expect(index.zoneAt([-1, -1])).toBeUndefined();
+  });
+
+  it('should prefer the zone drawn last where zones overlap', () => {
+    const zones: Zone[] = [
+      { id: 'region', name: 'Region', coordinates: square(0, 0, 1) },
+      { id: 'city', name: 'City', coordinates: square(0.4, 0.4, 0.2) }
+    ];
+    const index = createSpatialIndex(zones);
+
+    expect(index.zoneAt([0.5, 0.5])?.id).toBe('city');
+    expect(index.zoneAt([0.1, 0.1])?.id).toBe('region');
+  });
+
+  it('should not match bounding box corners outside the shape', () => {
+    const triangle: Zone = { id: 't', name: 'T', coordinates: [[0, 0], [1, 0], [0, 1], [0, 0]] };
+    expect(createSpatialIndex([triangle]).zoneAt([0.9, 0.9])).toBeUndefined();
+  });
+
+  it('should reuse the index for the same zones array', () => {
+    expect(getSpatialIndex(grid)).toBe(getSpatialIndex(grid));
+    expect(getSpatialIndex([...grid])).not.toBe(getSpatialIndex(grid));
+  });
+});
@@ -0,0 +1,93 @@
+import { validateZone, validateZones, ZoneValidationError } from '../validation';
+import { getZonePolygons } from '../geometry';
+import type { Ring } from '@/types';
+import { createZone, square } from '../../../tests/utils/mapTestUtils';
+
+const issueTypes = (result: ReturnType<typeof validateZone>) => result.issues.map(issue => issue.type);
+
+describe('validation', () => {
+  it('should leave valid zones untouched', () => {
+    const valid = createZone('ok', [square(2.3, 48.8, 0.01), [...square(2.302, 48.802, 0.002)].reverse()]);
+    const result = validateZone(valid);
+    expect(result.issues).toEqual([]);
+    expect(result.zone).toBe(valid);
+  });
+
+  it('should close unclosed rings', () => {
+    const result = validateZone(createZone('open', square(2.3, 48.8, 0.01).slice(0, 4)));
+    expect(issueTypes(result)).toEqual(['unclosed-ring']);
+    expect(getZonePolygons(result.zone!)[0][0]).toEqual(square(2.3, 48.8, 0.01));
+  });
+
+  it('should remove consecutive duplicate vertices', () => {
+    const ring = square(2.3, 48.8, 0.01);
+    const result = validateZone(createZone('dupes', [ring[0], ring[1], ring[1], ring[2], ring[3], ring[3], ring[4]]));
+    expect(issueTypes(result)).toEqual(['duplicate-vertices']);
+    expect(result.issues[0].repaired).toBe(true);
+    expect(getZonePolygons(result.zone!)[0][0]).toHaveLength(5);
+  });
+
+  it('should fix winding order of outer rings and holes', () => {
+    const result = validateZone(createZone('wound', [[...square(2.3, 48.8, 0.01)].reverse(), square(2.302, 48.802, 0.002)]));
+    expect(issueTypes(result)).toEqual(['winding-order', 'winding-order']);
+    const [outer, hole] = getZonePolygons(result.zone!)[0];
+    expect(outer).toEqual(square(2.3, 48.8, 0.01));
+    expect(hole).toEqual([...square(2.302, 48.802, 0.002)].reverse());
+  });
+
+  it('should swap [lat, lng] input when latitude is out of range', () => {
+    const swapped = square(151.2, -33.9, 0.01).map(([lng, lat]): [number, number] => [lat, lng]);
+    const result = validateZone(createZone('swapped', swapped));
+    expect(issueTypes(result)).toEqual(['swapped-coordinates']);
+    expect(getZonePolygons(result.zone!)[0][0]).toEqual(square(151.2, -33.9, 0.01));
+  });
+
+  it('should report self-intersections without repairing them', () => {
+    const bowtie: Ring = [[2.3, 48.8], [2.31, 48.81], [2.31, 48.8], [2.3, 48.81], [2.3, 48.8]];
+    const result = validateZone(createZone('bowtie', bowtie));
+    expect(result.issues).toContainEqual(expect.objectContaining({ type: 'self-intersection', repaired: false }));
+    expect(result.zone).not.toBeNull();
+  });
+
+  it('should drop empty and degenerate zones', () => {
+    const result = validateZones([
+      createZone('empty', []),
+      createZone('line', [[2.3, 48.8], [2.31, 48.8], [2.3, 48.8]]),
+      createZone('ok', square(2.3, 48.8, 0.01))
+    ]);
+
+    expect(result.zones.map(z => z.id)).toEqual(['ok']);
+    expect(result.issues.map(issue => [issue.zoneId, issue.type])).toEqual([
+      ['empty', 'empty-geometry'],
+      ['line', 'degenerate-ring'],
+      ['line', 'empty-geometry']
+    ]);
+  });
+
+  it('should only report when repair is disabled', () => {
+    const open = createZone('open', square(2.3, 48.8, 0.01).slice(0, 4));
+    const result = validateZone(open, { repair: false });
+    expect(result.zone).toBe(open);
+    expect(result.issues[0].repaired).toBe(false);
+  });
+
+  it('should reuse results for the same zone and options', () => {
+    const open = createZone('open', square(2.3, 48.8, 0.01).slice(0, 4));
+    const repaired = validateZone(open).zone;
+
+    expect(validateZones([open]).zones[0]).toBe(repaired);
+    expect(validateZone(open, { repair: false }).zone).toBe(open);
+    expect(validateZone({ ...open }).zone).not.toBe(repaired);
+  });
+
+  it('should list zone ids in validation errors', () => {
+    const error = new ZoneValidationError([
+      { zoneId: 'a', type: 'self-intersection', message: '', repaired: false },
+      { zoneId: 'a', type: 'empty-geometry', message: '', repaired: false },
+      { zoneId: 'b', type: 'empty-geometry', message: '', repaired: false }
+    ]);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.zoneIds).toEqual(['a', 'b']);
+    expect(error.message).toContain('a, b');
+  });
+});
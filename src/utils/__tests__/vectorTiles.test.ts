@@ -0,0 +1,235 @@
+import { decodeVectorTile, featureToPolygons, tilesInBbox } from '../vectorTiles';
+import { createVectorTileSource } from '../vectorTileSource';
+import type { Zone, PolygonCoordinates } from '@/types';
+
+// Minimal MVT encoder for fixtures
+type Value = string | number | boolean;
+interface FixtureFeature {
+  id?: number;
+  properties?: Record<string, Value>;
+  rings: [number, number][][]; // Tile coordinates, unclosed
+}
+
+const varint = (value: number): number[] => {
+  const bytes: number[] = [];
+  while (value >= 128) {
+    bytes.push((value % 128) | 128);
+    value = Math.floor(value / 128);
+  }
+  return [...bytes, value];
+};
+const key = (field: number, wireType: number) => varint(field * 8 + wireType);
+const bytesField = (field: number, bytes: number[]) => [...key(field, 2), ...varint(bytes.length), ...bytes];
+const stringField = (field: number, text: string) => bytesField(field, [...new TextEncoder().encode(text)]);
+const zigzag = (value: number) => (value < 0 ? -value * 2 - 1 : value * 2);
+
+const encodeValue = (value: Value) => {
+  if (typeof value === 'string') return stringField(1, value);
+  if (typeof value === 'boolean') return [...key(7, 0), value ? 1 : 0];
+  if (!Number.isInteger(value)) return [...key(3, 1), ...new Uint8Array(new Float64Array([value]).buffer)];
+  return value < 0 ? [...key(6, 0), ...varint(zigzag(value))] : [...key(4, 0), ...varint(value)];
+};
+
+const encodeRings = (rings: [number, number][][]) => {
+  let x = 0;
+  let y = 0;
+  const move = ([px, py]: [number, number]) => {
+    const deltas = [zigzag(px - x), zigzag(py - y)];
+    x = px;
+    y = py;
+    return deltas;
+  };
+  return rings.flatMap(([first, ...rest]) => [
+    9, ...move(first),
+    (rest.length << 3) | 2, ...rest.flatMap(move),
+    15
+  ]);
+};
+
+const encodeTile = (layer: string, features: FixtureFeature[], extent = 4096) => {
+  const keys: string[] = [];
+  const values: Value[] = [];
+  const index = <T>(list: T[], item: T) => {
+    if (!list.includes(item)) list.push(item);
+    return list.indexOf(item);
+  };
+
+  const encodedFeatures = features.map(({ id, properties = {}, rings }) => {
+    const tags = Object.entries(properties).flatMap(([name, value]) => [index(keys, name), index(values, value)]);
+    return bytesField(2, [
+      ...(id === undefined ? [] : [...key(1, 0), ...varint(id)]),
+      ...bytesField(2, tags.flatMap(varint)),
+      ...key(3, 0), 3,
+      ...bytesField(4, encodeRings(rings).flatMap(varint))
+    ]);
+  });
+
+  return new Uint8Array(bytesField(3, [
+    ...key(15, 0), 2,
+    ...stringField(1, layer),
+    ...encodedFeatures.flat(),
+    ...keys.flatMap(name => stringField(3, name)),
+    ...values.flatMap(value => bytesField(4, encodeValue(value))),
+    ...key(5, 0), ...varint(extent)
+  ]));
+};
+
+// Clockwise on screen, i.e. exterior rings in tile coordinates
+const rect = (x0: number, y0: number, x1: number, y1: number): [number, number][] =>
+  [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+
+describe('vectorTiles', () => {
+  it('should decode layers, ids and properties', () => {
+    const [layer] = decodeVectorTile(encodeTile('communes', [{
+      id: 75056,
+      properties: { name: 'Paris', population: 2133111, density: 20.5, capital: true, delta: -12 },
+      rings: [rect(0, 0, 10, 10)]
+    }], 512));
+
+    expect(layer.name).toBe('communes');
+    expect(layer.extent).toBe(512);
+    expect(layer.features[0].id).toBe(75056);
+    expect(layer.features[0].properties).toEqual({
+      name: 'Paris',
+      population: 2133111,
+      density: 20.5,
+      capital: true,
+      delta: -12
+    });
+    expect(layer.features[0].rings[0]).toEqual([[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]);
+  });
+
+  it('should convert tile coordinates to counter-clockwise [lng, lat] polygons with holes', () => {
+    const [layer] = decodeVectorTile(encodeTile('zones', [{
+      rings: [rect(0, 0, 2048, 2048), [...rect(512, 512, 1024, 1024)].reverse()]
+    }]));
+    const [polygon] = featureToPolygons(layer.features[0], { z: 0, x: 0, y: 0 }, layer.extent);
+
+    expect(polygon).toHaveLength(2);
+    const [outer] = polygon;
+    expect(Math.min(...outer.map(([lng]) => lng))).toBeCloseTo(-180);
+    expect(Math.max(...outer.map(([lng]) => lng))).toBeCloseTo(0);
+    expect(Math.max(...outer.map(([, lat]) => lat))).toBeCloseTo(85.0511);
+    expect(Math.min(...outer.map(([, lat]) => lat))).toBeCloseTo(0);
+    // Shoelace in [lng, lat]: positive for counter-clockwise
+    const area = outer.slice(1).reduce((sum, [x, y], i) => sum + outer[i][0] * y - x * outer[i][1], 0);
+    expect(area).toBeGreaterThan(0);
+  });
+
+  it('should list the tiles covering a box', () => {
+    expect(tilesInBbox([2.34, 48.85, 2.36, 48.86], 10)).toEqual([{ z: 10, x: 518, y: 352 }]);
+    expect(tilesInBbox([-10, -10, 10, 10], 1)).toEqual([
+      { z: 1, x: 0, y: 0 },
+      { z: 1, x: 0, y: 1 },
+      { z: 1, x: 1, y: 0 },
+      { z: 1, x: 1, y: 1 }
+    ]);
+  });
+});
+
+describe('vectorTileSource', () => {
+  // Zone "a" straddles tiles 1/0/0 and 1/1/0, zone "b" lies inside 1/0/0
+  const tiles: Record<string, Uint8Array> = {
+    '1/0/0': encodeTile('communes', [
+      { properties: { code: 'a', name: 'A' }, rings: [rect(3072, 1024, 4096, 3072)] },
+      { properties: { code: 'b', name: 'B' }, rings: [rect(1024, 1024, 2048, 2048)] }
+    ]),
+    '1/1/0': encodeTile('communes', [
+      { properties: { code: 'a', name: 'A' }, rings: [rect(0, 1024, 1024, 3072)] }
+    ])
+  };
+  const fetchMock = jest.fn(async (url: string) => {
+    const bytes = tiles[url.replace('https://tiles.test/', '')];
+    return {
+      ok: true,
+      status: bytes ? 200 : 404,
+      arrayBuffer: async () => bytes?.slice().buffer
+    };
+  });
+  // The western half of tile 1/0/0
+  const view: [number, number, number, number] = [-170, 10, -100, 60];
+  const options = { url: 'https://tiles.test/{z}/{x}/{y}', layer: 'communes', idProperty: 'code' };
+
+  const lngRange = (zone: Zone) => {
+    const lngs = (zone.coordinates as PolygonCoordinates)[0].map(([lng]) => lng);
+    return [Math.min(...lngs), Math.max(...lngs)];
+  };
+
+  beforeEach(() => {
+    fetchMock.mockClear();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it('should assemble zones by id from the tiles in view', async () => {
+    const source = createVectorTileSource(options);
+    const zones = await source.loadZones(view, 1.6);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(zones.map(zone => [zone.id, zone.name])).toEqual([['a', 'A'], ['b', 'B']]);
+    expect(zones[1].properties).toEqual({ code: 'b', name: 'B' });
+    expect(source.isComplete(zones[0])).toBe(false);
+    expect(source.isComplete(zones[1])).toBe(true);
+  });
+
+  it('should return the same zone objects while their tiles are unchanged', async () => {
+    const source = createVectorTileSource(options);
+    const first = await source.loadZones(view, 1);
+    const second = await source.loadZones(view, 1);
+
+    expect(second[1]).toBe(first[1]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should complete a zone from neighbouring tiles', async () => {
+    const source = createVectorTileSource(options);
+    const [partial] = await source.loadZones(view, 1);
+    expect(lngRange(partial)).toEqual([-45, 0]);
+
+    const [full] = await source.resolveZones([partial]);
+
+    expect(full.id).toBe('a');
+    expect(lngRange(full).map(lng => Math.round(lng))).toEqual([-45, 45]);
+    expect((full.coordinates as PolygonCoordinates)).toHaveLength(1);
+    expect(source.isComplete(full)).toBe(true);
+    // Later loads hand out the completed zone
+    expect((await source.loadZones(view, 1))[0]).toBe(full);
+  });
+
+  it('should fetch full zones when a fetchZone function is given', async () => {
+    const fullZone: Zone = { id: 'a', name: 'A', coordinates: [[[-45, 10], [45, 10], [45, 60], [-45, 10]]] };
+    const fetchZone = jest.fn(async () => fullZone);
+    const source = createVectorTileSource({ ...options, fetchZone });
+    const [partial, complete] = await source.loadZones(view, 1);
+
+    expect(await source.resolveZones([partial, complete])).toEqual([fullZone, complete]);
+    expect(fetchZone).toHaveBeenCalledWith('a');
+  });
+
+  it('should decompress gzipped tiles', async () => {
+    const gzipped = new Uint8Array([0x1f, 0x8b, 1]);
+    globalThis.fetch = jest.fn(async () => ({ ok: true, status: 200, arrayBuffer: async () => gzipped.buffer })) as unknown as typeof fetch;
+    const decompress = jest.fn(async () => tiles['1/1/0']);
+    const source = createVectorTileSource({ ...options, decompress });
+
+    expect((await source.loadZones([10, 10, 20, 20], 1)).map(zone => zone.id)).toEqual(['a']);
+    expect(decompress).toHaveBeenCalledWith(gzipped, 'gzip');
+  });
+
+  it('should load nothing below the minimum zoom', async () => {
+    const source = createVectorTileSource({ ...options, minZoom: 8 });
+
+    expect(await source.loadZones(view, 7)).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should over-zoom tiles beyond the maximum zoom', async () => {
+    const source = createVectorTileSource({ ...options, maxZoom: 1 });
+    await source.loadZones([-120, 30, -119, 31], 12);
+
+    expect(fetchMock).toHaveBeenCalledWith('https://tiles.test/1/0/0');
+  });
+
+  it('should require a url or an archive', () => {
+    expect(() => createVectorTileSource({ layer: 'communes' })).toThrow('url template or a pmtiles archive');
+  });
+});
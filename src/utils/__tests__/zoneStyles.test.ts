@@ -0,0 +1,52 @@
+import { createZoneStyler, getZoneStyle } from '../zoneStyles';
+import type { ZoneStyleState } from '../zoneStyles';
+
+const idle: ZoneStyleState = { selected: false, hovered: false, highlighted: false };
+
+describe('zoneStyles', () => {
+  it('should use the theme palette for normal, hovered and selected zones', () => {
+    expect(getZoneStyle(idle, 'light').color).toBe('#3b82f6');
+    expect(getZoneStyle({ ...idle, hovered: true }, 'light').color).toBe('#2563eb');
+    expect(getZoneStyle({ ...idle, selected: true }, 'dark').color).toBe('#2563eb');
+  });
+
+  it('should thicken the outline of hovered zones', () => {
+    const selected = getZoneStyle({ ...idle, selected: true });
+    const hovered = getZoneStyle({ ...idle, selected: true, hovered: true });
+
+    expect(hovered.color).toBe(selected.color);
+    expect(hovered.weight).toBe(selected.weight! + 1);
+  });
+
+  it('should prefer comparison colours over group colours', () => {
+    expect(getZoneStyle({ ...idle, groupColor: '#ff0000' }).color).toBe('#ff0000');
+    expect(getZoneStyle({ ...idle, groupColor: '#ff0000', comparison: 'added' }).color).toBe('#16a34a');
+  });
+
+  it('should dash highlighted zones', () => {
+    expect(getZoneStyle({ ...idle, highlighted: true }).dashArray).toBe('4 4');
+  });
+
+  it('should keep the choropleth fill and show selection and hover in the outline', () => {
+    const theme = { base: 'dark' as const, choropleth: { property: 'population', fillOpacity: 0.6 } };
+    const idleStyle = getZoneStyle({ ...idle, fillColor: '#08519c' }, theme);
+    const selected = getZoneStyle({ ...idle, selected: true, fillColor: '#08519c' }, theme);
+    const hovered = getZoneStyle({ ...idle, hovered: true, fillColor: '#08519c' }, theme);
+
+    expect(idleStyle).toMatchObject({ fillColor: '#08519c', fillOpacity: 0.6, color: '#111827' });
+    expect(selected).toMatchObject({ fillColor: '#08519c', color: '#2563eb', weight: 3 });
+    expect(hovered.fillColor).toBe('#08519c');
+    expect(hovered.color).toBe('#3b82f6');
+    expect(hovered.fillOpacity).toBeCloseTo(0.7);
+    // Groups still win over the choropleth
+    expect(getZoneStyle({ ...idle, groupColor: '#ff0000', fillColor: '#08519c' }, theme).fillColor).toBe('#ff0000');
+  });
+
+  it('should return the same object for the same state', () => {
+    const style = createZoneStyler('light');
+
+    expect(style({ ...idle })).toBe(style({ ...idle }));
+    expect(style({ ...idle, selected: true })).not.toBe(style(idle));
+    expect(style({ ...idle, fillColor: '#000000' })).not.toBe(style(idle));
+  });
+});
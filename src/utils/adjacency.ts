@@ -0,0 +1,216 @@
+import type { Zone, Coordinates } from '@/types';
+import { getZonePolygons, getZonePositions } from './geometry';
+
+export interface AdjacencyOptions {
+  tolerance?: number; // Gap in metres still treated as a shared border
+  includePointContacts?: boolean; // Count zones meeting at a single corner as neighbours
+}
+
+export type AdjacencyGraph = Map<string, Set<string>>;
+
+interface Segment {
+  a: Coordinates;
+  b: Coordinates;
+}
+
+interface IndexedZone {
+  zone: Zone;
+  bbox: [number, number, number, number];
+  positions: Coordinates[];
+  segments: Segment[];
+}
+
+const METRES_PER_DEGREE = 111_320;
+
+// Graphs are cached per zones array, then per options
+const graphCache = new WeakMap<Zone[], Map<string, AdjacencyGraph>>();
+
+const indexZone = (zone: Zone): IndexedZone => {
+  const positions = getZonePositions(zone);
+  const segments = getZonePolygons(zone).flatMap(rings =>
+    rings.flatMap(ring => ring.slice(1).map((b, index) => ({ a: ring[index], b })))
+  );
+
+  const bbox: IndexedZone['bbox'] = [Infinity, Infinity, -Infinity, -Infinity];
+  positions.forEach(([lng, lat]) => {
+    bbox[0] = Math.min(bbox[0], lng);
+    bbox[1] = Math.min(bbox[1], lat);
+    bbox[2] = Math.max(bbox[2], lng);
+    bbox[3] = Math.max(bbox[3], lat);
+  });
+
+  return { zone, bbox, positions, segments };
+};
+
+// Distance in metres from a point to a segment, on a local equirectangular projection
+const segmentDistance = (point: Coordinates, { a, b }: Segment, lngScale: number) => {
+  const px = (point[0] - a[0]) * lngScale;
+  const py = point[1] - a[1];
+  const dx = (b[0] - a[0]) * lngScale;
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSquared));
+  return Math.hypot(px - t * dx, py - t * dy) * METRES_PER_DEGREE;
+};
+
+// Vertices of `from` lying within tolerance of the boundary of `to`
+const findContacts = (from: IndexedZone, to: IndexedZone, tolerance: number, margin: [number, number]) => {
+  const lngScale = Math.cos(((to.bbox[1] + to.bbox[3]) / 2) * Math.PI / 180);
+  const seen = new Map<string, Coordinates>();
+
+  from.positions.forEach(position => {
+    const [lng, lat] = position;
+    if (
+      lng < to.bbox[0] - margin[0] || lng > to.bbox[2] + margin[0] ||
+      lat < to.bbox[1] - margin[1] || lat > to.bbox[3] + margin[1]
+    ) {
+      return;
+    }
+    if (to.segments.some(segment => segmentDistance(position, segment, lngScale) <= tolerance)) {
+      seen.set(`${lng},${lat}`, position);
+    }
+  });
+
+  return seen;
+};
+
+// Size in metres of the area spanned by contact points, to tell a shared border from
+// zones meeting at a corner
+const contactSpan = (contacts: Coordinates[]) => {
+  const lngs = contacts.map(([lng]) => lng);
+  const lats = contacts.map(([, lat]) => lat);
+  const lngScale = Math.cos(((Math.min(...lats) + Math.max(...lats)) / 2) * Math.PI / 180);
+  return Math.hypot(
+    (Math.max(...lngs) - Math.min(...lngs)) * lngScale,
+    Math.max(...lats) - Math.min(...lats)
+  ) * METRES_PER_DEGREE;
+};
+
+// Point-in-ring test used to catch zones that overlap without boundaries meeting
+const containsPoint = (zone: IndexedZone, [lng, lat]: Coordinates) =>
+  getZonePolygons(zone.zone).some(([outer, ...holes]) => {
+    const inRing = (ring: Coordinates[]) => {
+      let inside = false;
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+          inside = !inside;
+        }
+      }
+      return inside;
+    };
+    return outer !== undefined && inRing(outer) && !holes.some(inRing);
+  });
+
+// Build a graph of which zones share a border. Zones separated by gaps up to `tolerance`
+// metres (digitising slivers) still count as neighbours.
+export function buildAdjacencyGraph(zones: Zone[], options: AdjacencyOptions = {}): AdjacencyGraph {
+  const { tolerance = 1, includePointContacts = false } = options;
+  const cacheKey = `${tolerance}|${includePointContacts}`;
+
+  const cached = graphCache.get(zones)?.get(cacheKey);
+  if (cached) return cached;
+
+  const graph: AdjacencyGraph = new Map(zones.map(zone => [zone.id, new Set<string>()]));
+  const indexed = zones.map(indexZone).sort((a, b) => a.bbox[0] - b.bbox[0]);
+
+  for (let i = 0; i < indexed.length; i++) {
+    const a = indexed[i];
+    const latMargin = tolerance / METRES_PER_DEGREE;
+    const lngMargin = latMargin / Math.max(0.01, Math.cos(((a.bbox[1] + a.bbox[3]) / 2) * Math.PI / 180));
+    const margin: [number, number] = [lngMargin, latMargin];
+
+    // Sorted by west edge, so stop once candidates start east of this zone
+    for (let j = i + 1; j < indexed.length && indexed[j].bbox[0] <= a.bbox[2] + lngMargin; j++) {
+      const b = indexed[j];
+      if (b.bbox[1] > a.bbox[3] + latMargin || b.bbox[3] < a.bbox[1] - latMargin || b.bbox[2] < a.bbox[0] - lngMargin) {
+        continue;
+      }
+
+      // Vertices of either zone on the other's boundary: edges that overlap without
+      // sharing vertices, e.g. offset by half a segment, still have one end on each side
+      const contacts = [...new Map([
+        ...findContacts(a, b, tolerance, margin),
+        ...findContacts(b, a, tolerance, margin)
+      ]).values()];
+      const overlaps = contacts.length === 0 && (
+        a.positions.some(position => containsPoint(b, position)) ||
+        b.positions.some(position => containsPoint(a, position))
+      );
+      const sharesBorder = contacts.length >= 2 && contactSpan(contacts) > tolerance;
+
+      if (sharesBorder || overlaps || (contacts.length > 0 && includePointContacts)) {
+        graph.get(a.zone.id)?.add(b.zone.id);
+        graph.get(b.zone.id)?.add(a.zone.id);
+      }
+    }
+  }
+
+  const byOptions = graphCache.get(zones) ?? new Map<string, AdjacencyGraph>();
+  byOptions.set(cacheKey, graph);
+  graphCache.set(zones, byOptions);
+
+  return graph;
+}
+
+// Zones adjacent to any of `zoneIds`, excluding the zones themselves
+export function getNeighbors(graph: AdjacencyGraph, zoneIds: string[]): string[] {
+  const source = new Set(zoneIds);
+  const neighbors = new Set<string>();
+
+  zoneIds.forEach(id => {
+    graph.get(id)?.forEach(neighbor => {
+      if (!source.has(neighbor)) neighbors.add(neighbor);
+    });
+  });
+
+  return Array.from(neighbors);
+}
+
+// Selection plus every zone within `rings` steps of it
+export function growSelection(graph: AdjacencyGraph, zoneIds: string[], rings = 1): string[] {
+  let result = [...zoneIds];
+  for (let ring = 0; ring < rings; ring++) {
+    const neighbors = getNeighbors(graph, result);
+    if (neighbors.length === 0) break;
+    result = [...result, ...neighbors];
+  }
+  return result;
+}
+
+// Selection minus the zones on its edge, `rings` times over
+export function shrinkSelection(graph: AdjacencyGraph, zoneIds: string[], rings = 1): string[] {
+  let result = [...zoneIds];
+  for (let ring = 0; ring < rings; ring++) {
+    const selected = new Set(result);
+    result = result.filter(id =>
+      Array.from(graph.get(id) ?? []).every(neighbor => selected.has(neighbor))
+    );
+  }
+  return result;
+}
+
+// Split zone ids into groups that are connected through the graph
+export function getConnectedComponents(graph: AdjacencyGraph, zoneIds: string[]): string[][] {
+  const remaining = new Set(zoneIds);
+  const components: string[][] = [];
+
+  zoneIds.forEach(start => {
+    if (!remaining.has(start)) return;
+    remaining.delete(start);
+
+    const component = [start];
+    for (let i = 0; i < component.length; i++) {
+      graph.get(component[i])?.forEach(neighbor => {
+        if (remaining.has(neighbor)) {
+          remaining.delete(neighbor);
+          component.push(neighbor);
+        }
+      });
+    }
+    components.push(component);
+  });
+
+  return components;
+}
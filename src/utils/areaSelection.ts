@@ -0,0 +1,149 @@
+import {
+  area as turfArea,
+  booleanIntersects,
+  booleanPointInPolygon,
+  booleanWithin,
+  circle,
+  distance,
+  feature,
+  featureCollection,
+  intersect,
+  pointToPolygonDistance,
+  polygon
+} from '@turf/turf';
+import type { Zone, LatLng, LngLat, Ring, ZoneGeometry } from '@/types';
+import { getGeometryPolygons, getZoneGeometry, getZonePolygons, getZonePositions } from './geometry';
+import { zoneCentroid } from './metrics';
+import { getSpatialIndex, positionsBbox } from './spatialIndex';
+import type { Bbox } from './spatialIndex';
+
+// Which zones a drawn area picks up
+export type AreaSelectionMode = 'intersects' | 'contains' | 'centroid';
+
+// An area selection mode, or the minimum share (0-1) of a zone's area that must be covered
+export type CoverageThreshold = AreaSelectionMode | number;
+
+const toGeometry = (area: Ring | ZoneGeometry): ZoneGeometry =>
+  Array.isArray(area) ? { type: 'Polygon', coordinates: [area] } : area;
+
+// Share of the zone's area lying inside the shape
+const coveredShare = (zone: Zone, shape: ZoneGeometry) => {
+  const zoneFeature = feature(getZoneGeometry(zone));
+  const zoneArea = turfArea(zoneFeature);
+  if (zoneArea === 0) return 0;
+
+  const overlap = intersect(featureCollection([zoneFeature, feature(shape)]));
+  return overlap ? turfArea(overlap) / zoneArea : 0;
+};
+
+// Closed [lng, lat] ring from map positions, e.g. a lasso path
+export function areaFromLatLngs(latLngs: LatLng[]): Ring {
+  const ring: Ring = latLngs.map(([lat, lng]): LngLat => [lng, lat]);
+  const [first] = ring;
+  const last = ring[ring.length - 1];
+  return first && (first[0] !== last[0] || first[1] !== last[1]) ? [...ring, first] : ring;
+}
+
+// Closed [lng, lat] ring for the rectangle spanned by two map corners
+export function rectangleArea([lat1, lng1]: LatLng, [lat2, lng2]: LatLng): Ring {
+  return [[lng1, lat1], [lng2, lat1], [lng2, lat2], [lng1, lat2], [lng1, lat1]];
+}
+
+// Area geometry of a drawn shape. A circle is a Point feature with a `radius` property in
+// metres, which the host sets: Leaflet.draw's `toGeoJSON()` drops the radius, so take it
+// from the layer's `getRadius()`. Points without one and other non-areal shapes give null.
+export function shapeToGeometry(shape: GeoJSON.Feature | GeoJSON.Geometry): ZoneGeometry | null {
+  const geometry = shape.type === 'Feature' ? shape.geometry : shape;
+  const radius = shape.type === 'Feature' ? shape.properties?.radius : undefined;
+
+  if (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') {
+    return geometry;
+  }
+  if (geometry.type === 'Point' && typeof radius === 'number' && radius > 0) {
+    return circle(geometry.coordinates, radius, { units: 'meters', steps: 64 }).geometry;
+  }
+  return null;
+}
+
+// Zones picked up by a drawn area, given as a [lng, lat] ring or a GeoJSON geometry.
+// Degenerate areas (a click without a drag) pick up nothing.
+export function findZonesInArea(
+  zones: Zone[],
+  area: Ring | ZoneGeometry,
+  mode: CoverageThreshold = 'intersects'
+): Zone[] {
+  const shape = toGeometry(area);
+  const outline = getGeometryPolygons(shape).flatMap(([outer]) => outer ?? []);
+  if (outline.length < 4) return [];
+
+  const areaBbox = positionsBbox(outline);
+  if (areaBbox[0] === areaBbox[2] || areaBbox[1] === areaBbox[3]) return [];
+
+  return getSpatialIndex(zones).search(areaBbox).filter(zone => {
+    if (typeof mode === 'number') {
+      return coveredShare(zone, shape) >= mode;
+    }
+
+    switch (mode) {
+      case 'centroid':
+        return booleanPointInPolygon(zoneCentroid(zone), shape);
+      case 'contains':
+        return getZonePolygons(zone).every(([outer]) => !outer || booleanWithin(polygon([outer]), shape));
+      default:
+        return booleanIntersects(getZoneGeometry(zone), shape);
+    }
+  });
+}
+
+// Zone whose centroid lies closest to the middle of the area
+export function closestZoneToArea(zones: Zone[], area: Ring | ZoneGeometry): Zone | undefined {
+  const shape = toGeometry(area);
+  const [lng, lat] = zoneCentroid({ id: '', name: '', coordinates: getGeometryPolygons(shape) });
+  const distance = (zone: Zone) => {
+    const [x, y] = zoneCentroid(zone);
+    return (x - lng) ** 2 + (y - lat) ** 2;
+  };
+
+  return zones.reduce<Zone | undefined>(
+    (best, zone) => (!best || distance(zone) < distance(best) ? zone : best),
+    undefined
+  );
+}
+
+// Geodesic distance in km from a point to the nearest part of the zone, 0 inside it
+export function distanceToZone(zone: Zone, [lat, lng]: LatLng): number {
+  const geometry = getZoneGeometry(zone);
+  if (getGeometryPolygons(geometry).every(rings => rings.length === 0)) return Infinity;
+  return Math.max(0, pointToPolygonDistance([lng, lat], geometry, { units: 'kilometers' }));
+}
+
+// Zones within `radiusKm` of a point. 'intersects' measures to the zone outline, so large
+// zones reaching into the circle count; 'contains' needs the whole zone inside the circle.
+export function findZonesWithinDistance(
+  zones: Zone[],
+  center: LatLng,
+  radiusKm: number,
+  mode: AreaSelectionMode = 'intersects'
+): Zone[] {
+  if (!(radiusKm >= 0)) return [];
+
+  const [lat, lng] = center;
+  const origin: LngLat = [lng, lat];
+  // Degrees spanned by the radius, widened towards the poles, to skip far zones cheaply
+  const latSpan = radiusKm / 110.5;
+  const lngSpan = latSpan / Math.max(Math.cos((Math.min(Math.abs(lat) + latSpan, 89.9) * Math.PI) / 180), 1e-6);
+  const searchBbox: Bbox = [lng - lngSpan, lat - latSpan, lng + lngSpan, lat + latSpan];
+  const within = (position: LngLat) => distance(origin, position, { units: 'kilometers' }) <= radiusKm;
+
+  return getSpatialIndex(zones).search(searchBbox).filter(zone => {
+    switch (mode) {
+      case 'centroid':
+        return within(zoneCentroid(zone));
+      case 'contains':
+        // A circle is convex, so the zone is inside when all its vertices are
+        return getZonePositions(zone).every(within);
+      default:
+        return distanceToZone(zone, center) <= radiusKm;
+    }
+  });
+}
@@ -0,0 +1,239 @@
+import type { Zone } from '@/types';
+
+export type ClassificationMethod = 'equalInterval' | 'quantile' | 'jenks' | 'manual';
+
+export type ColorRampName = 'blues' | 'greens' | 'reds' | 'oranges' | 'purples' | 'greys' | 'ylOrRd' | 'viridis' | 'rdYlGn';
+
+export interface ChoroplethOptions {
+  property: string; // Numeric zone property; zones without a number get noDataColor
+  method?: ClassificationMethod; // Defaults to 'quantile'
+  classes?: number; // Defaults to 5; ignored by 'manual'
+  breaks?: number[]; // Class boundaries for 'manual', lowest to highest
+  ramp?: ColorRampName | string[]; // Named ramp or colour stops, defaults to 'blues'
+  reverseRamp?: boolean;
+  noDataColor?: string;
+  fillOpacity?: number; // Defaults to 0.7
+}
+
+export interface ChoroplethClass {
+  from: number;
+  to: number;
+  color: string;
+  count: number; // Zones in the class
+}
+
+export interface ChoroplethClassification {
+  property: string;
+  breaks: number[]; // Class boundaries, one more than the classes
+  classes: ChoroplethClass[];
+  noDataCount: number;
+  noDataColor: string;
+  colorOf: (zone: Zone) => string;
+}
+
+// ColorBrewer and matplotlib ramps, without the near-white end of the sequential ones
+// so the lowest class still shows over the base map
+export const COLOR_RAMPS: Record<ColorRampName, string[]> = {
+  blues: ['#deebf7', '#c6dbef', '#9ecae1', '#6baed6', '#4292c6', '#2171b5', '#08519c', '#08306b'],
+  greens: ['#e5f5e0', '#c7e9c0', '#a1d99b', '#74c476', '#41ab5d', '#238b45', '#006d2c', '#00441b'],
+  reds: ['#fee0d2', '#fcbba1', '#fc9272', '#fb6a4a', '#ef3b2c', '#cb181d', '#a50f15', '#67000d'],
+  oranges: ['#fee6ce', '#fdd0a2', '#fdae6b', '#fd8d3c', '#f16913', '#d94801', '#a63603', '#7f2704'],
+  purples: ['#efedf5', '#dadaeb', '#bcbddc', '#9e9ac8', '#807dba', '#6a51a3', '#54278f', '#3f007d'],
+  greys: ['#f0f0f0', '#d9d9d9', '#bdbdbd', '#969696', '#737373', '#525252', '#252525', '#000000'],
+  ylOrRd: ['#ffeda0', '#fed976', '#feb24c', '#fd8d3c', '#fc4e2a', '#e31a1c', '#bd0026', '#800026'],
+  viridis: ['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725'],
+  rdYlGn: ['#a50026', '#d73027', '#f46d43', '#fdae61', '#fee08b', '#ffffbf', '#d9ef8b', '#a6d96a', '#66bd63', '#1a9850', '#006837']
+};
+
+const DEFAULT_NO_DATA_COLOR = '#d1d5db';
+
+// Jenks is quadratic in the number of values; larger sets are classified from a sample
+const MAX_JENKS_VALUES = 1000;
+
+const parseHex = (color: string): [number, number, number] | null => {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color)?.[1];
+  if (!hex) return null;
+  const full = hex.length === 3 ? [...hex].map(digit => digit + digit).join('') : hex;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+const mix = (a: string, b: string, t: number) => {
+  const from = parseHex(a);
+  const to = parseHex(b);
+  // Colours other than hex can't be blended: take the nearest stop
+  if (!from || !to) return t < 0.5 ? a : b;
+  return `#${from.map((channel, i) => Math.round(channel + (to[i] - channel) * t).toString(16).padStart(2, '0')).join('')}`;
+};
+
+// `count` colours spread evenly along the ramp's stops
+export function colorRamp(ramp: ColorRampName | string[], count: number, reverse = false): string[] {
+  const stops = typeof ramp === 'string' ? COLOR_RAMPS[ramp] ?? COLOR_RAMPS.blues : ramp;
+  const ordered = reverse ? [...stops].reverse() : stops;
+  if (ordered.length === count || ordered.length < 2) {
+    return Array.from({ length: count }, (_, i) => ordered[Math.min(i, ordered.length - 1)]);
+  }
+
+  return Array.from({ length: count }, (_, i) => {
+    // A single class takes the middle of the ramp
+    const position = (count === 1 ? 0.5 : i / (count - 1)) * (ordered.length - 1);
+    const index = Math.min(Math.floor(position), ordered.length - 2);
+    return mix(ordered[index], ordered[index + 1], position - index);
+  });
+}
+
+const quantile = (sorted: number[], p: number) => {
+  const position = (sorted.length - 1) * p;
+  const index = Math.floor(position);
+  const next = sorted[Math.min(index + 1, sorted.length - 1)];
+  return sorted[index] + (next - sorted[index]) * (position - index);
+};
+
+// Fisher's optimal grouping: the breaks minimising the variance within classes
+const jenksBreaks = (sorted: number[], classes: number) => {
+  const n = sorted.length;
+  // lowerClassLimits[l][j]: 1-based index of the first value of class j in the best
+  // split of the first l values into j classes
+  const lowerClassLimits = Array.from({ length: n + 1 }, () => new Array<number>(classes + 1).fill(0));
+  const variances = Array.from({ length: n + 1 }, () => new Array<number>(classes + 1).fill(Infinity));
+  for (let j = 1; j <= classes; j++) {
+    lowerClassLimits[1][j] = 1;
+    variances[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+    for (let m = 1; m <= l; m++) {
+      const lower = l - m + 1;
+      const value = sorted[lower - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+      if (lower === 1) continue;
+      for (let j = 2; j <= classes; j++) {
+        const candidate = variance + variances[lower - 1][j - 1];
+        if (candidate <= variances[l][j]) {
+          lowerClassLimits[l][j] = lower;
+          variances[l][j] = candidate;
+        }
+      }
+    }
+    lowerClassLimits[l][1] = 1;
+    variances[l][1] = variance;
+  }
+
+  const breaks = new Array<number>(classes + 1);
+  breaks[0] = sorted[0];
+  breaks[classes] = sorted[n - 1];
+  let end = n;
+  for (let j = classes; j >= 2; j--) {
+    const lower = lowerClassLimits[end][j];
+    breaks[j - 1] = sorted[lower - 2];
+    end = lower - 1;
+  }
+  return breaks;
+};
+
+const sample = (sorted: number[], size: number) =>
+  Array.from({ length: size }, (_, i) => sorted[Math.round((i * (sorted.length - 1)) / (size - 1))]);
+
+// Class boundaries for the values: `classes + 1` numbers from the lowest to the highest,
+// fewer when values repeat. A value belongs to the first class whose upper bound it
+// doesn't exceed.
+export function classify(
+  values: number[],
+  method: ClassificationMethod = 'quantile',
+  classes = 5,
+  manualBreaks: number[] = []
+): number[] {
+  if (method === 'manual') {
+    return [...manualBreaks].sort((a, b) => a - b);
+  }
+
+  const sorted = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (sorted.length === 0) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const count = Math.max(1, Math.min(Math.floor(classes), new Set(sorted).size));
+
+  let breaks: number[];
+  if (method === 'equalInterval') {
+    breaks = Array.from({ length: count + 1 }, (_, i) => (i === count ? max : min + ((max - min) * i) / count));
+  } else if (method === 'jenks') {
+    breaks = jenksBreaks(sorted.length > MAX_JENKS_VALUES ? sample(sorted, MAX_JENKS_VALUES) : sorted, count);
+  } else {
+    breaks = Array.from({ length: count + 1 }, (_, i) => quantile(sorted, i / count));
+  }
+
+  // Repeated values can leave empty classes between equal breaks
+  return breaks.filter((value, i) => i === 0 || value !== breaks[i - 1]);
+}
+
+// Index of the class holding a value, values beyond the breaks going to the end classes
+export function classIndex(breaks: number[], value: number): number {
+  const last = Math.max(0, breaks.length - 2);
+  for (let i = 0; i < last; i++) {
+    if (value <= breaks[i + 1]) return i;
+  }
+  return last;
+}
+
+const readValue = (zone: Zone, property: string) => {
+  const value = zone.properties?.[property];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+};
+
+export function classifyZones(zones: Zone[], options: ChoroplethOptions): ChoroplethClassification {
+  const { property, method = 'quantile', classes = 5, ramp = 'blues', reverseRamp = false } = options;
+  const noDataColor = options.noDataColor ?? DEFAULT_NO_DATA_COLOR;
+  const values = zones.map(zone => readValue(zone, property));
+  const breaks = classify(values.filter((value): value is number => value !== undefined), method, classes, options.breaks);
+
+  // A single break still makes one class
+  const bounds = breaks.length === 1 ? [breaks[0], breaks[0]] : breaks;
+  const colors = colorRamp(ramp, Math.max(0, bounds.length - 1), reverseRamp);
+  const counts = colors.map(() => 0);
+  const colorById = new Map<string, string>();
+  let noDataCount = 0;
+
+  zones.forEach((zone, i) => {
+    const value = values[i];
+    if (value === undefined || colors.length === 0) {
+      noDataCount++;
+      return;
+    }
+    const index = classIndex(bounds, value);
+    counts[index]++;
+    colorById.set(zone.id, colors[index]);
+  });
+
+  return {
+    property,
+    breaks: bounds,
+    classes: colors.map((color, i) => ({ from: bounds[i], to: bounds[i + 1], color, count: counts[i] })),
+    noDataCount,
+    noDataColor,
+    colorOf: zone => colorById.get(zone.id) ?? noDataColor
+  };
+}
+
+const classificationCache = new WeakMap<Zone[], Map<string, ChoroplethClassification>>();
+
+// Classification per zones array and options, shared by the layer and the legend.
+// Options are compared by value, so an inline theme object doesn't reclassify.
+export function getChoroplethClassification(zones: Zone[], options: ChoroplethOptions): ChoroplethClassification {
+  let byOptions = classificationCache.get(zones);
+  if (!byOptions) {
+    byOptions = new Map();
+    classificationCache.set(zones, byOptions);
+  }
+
+  const key = JSON.stringify(options);
+  let classification = byOptions.get(key);
+  if (!classification) {
+    classification = classifyZones(zones, options);
+    byOptions.set(key, classification);
+  }
+  return classification;
+}
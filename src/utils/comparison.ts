@@ -0,0 +1,72 @@
+import type { Zone } from '@/types';
+import type { MetricsOptions, SelectionMetrics } from '@/components/LeafletZoneSelector/types';
+import { calculateMetrics } from './metrics';
+
+export type ComparisonStatus = 'added' | 'removed' | 'unchanged';
+
+export interface ComparisonOptions extends MetricsOptions {
+  properties?: string[]; // Numeric zone properties to sum and compare, e.g. population
+}
+
+export interface PropertyDelta {
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface SelectionComparison {
+  added: Zone[]; // In the current selection only
+  removed: Zone[]; // In the baseline only
+  unchanged: Zone[];
+  status: Record<string, ComparisonStatus>; // By zone id
+  baseline: SelectionMetrics;
+  current: SelectionMetrics;
+  areaDelta: number;
+  perimeterDelta: number;
+  properties: Record<string, PropertyDelta>;
+}
+
+const sumProperty = (zones: Zone[], property: string) =>
+  zones.reduce((sum, zone) => {
+    const value = zone.properties?.[property];
+    return typeof value === 'number' && Number.isFinite(value) ? sum + value : sum;
+  }, 0);
+
+// Difference between a baseline selection, e.g. last month's territory, and the current one
+export function compareSelections(
+  baseline: Zone[],
+  current: Zone[],
+  options: ComparisonOptions = {}
+): SelectionComparison {
+  const { properties = [], ...metricsOptions } = options;
+  const baselineIds = new Set(baseline.map(zone => zone.id));
+  const currentIds = new Set(current.map(zone => zone.id));
+
+  const added = current.filter(zone => !baselineIds.has(zone.id));
+  const removed = baseline.filter(zone => !currentIds.has(zone.id));
+  const unchanged = current.filter(zone => baselineIds.has(zone.id));
+
+  const status: Record<string, ComparisonStatus> = {};
+  added.forEach(zone => { status[zone.id] = 'added'; });
+  removed.forEach(zone => { status[zone.id] = 'removed'; });
+  unchanged.forEach(zone => { status[zone.id] = 'unchanged'; });
+
+  const baselineMetrics = calculateMetrics(baseline, metricsOptions);
+  const currentMetrics = calculateMetrics(current, metricsOptions);
+
+  return {
+    added,
+    removed,
+    unchanged,
+    status,
+    baseline: baselineMetrics,
+    current: currentMetrics,
+    areaDelta: currentMetrics.totalArea - baselineMetrics.totalArea,
+    perimeterDelta: currentMetrics.totalPerimeter - baselineMetrics.totalPerimeter,
+    properties: Object.fromEntries(properties.map(property => {
+      const before = sumProperty(baseline, property);
+      const after = sumProperty(current, property);
+      return [property, { baseline: before, current: after, delta: after - before }];
+    }))
+  };
+}
@@ -0,0 +1,86 @@
+import type { Zone } from '@/types';
+import type { AreaUnit } from '@/components/LeafletZoneSelector/types';
+import { AREA_UNIT_LABELS, calculateZoneMetrics, convertArea } from './metrics';
+
+// Declarative limits checked before a zone joins the selection.
+// `message` replaces the default rejection message.
+export type SelectionConstraint =
+  | { type: 'maxArea'; max: number; unit?: AreaUnit; message?: string }
+  | { type: 'maxSum'; property: string; max: number; message?: string }
+  | { type: 'allowedValues'; property: string; values: unknown[]; message?: string }
+  // Return a message to reject the zone, anything else accepts it
+  | { type: 'custom'; validate: (zone: Zone, selection: Zone[]) => string | null | undefined; message?: string };
+
+// Why a zone was not selected. 'maxSelections' and 'contiguous' come from the
+// selection settings rather than from a constraint.
+export interface SelectionRejection {
+  type: SelectionConstraint['type'] | 'maxSelections' | 'contiguous';
+  message: string;
+  constraint?: SelectionConstraint;
+}
+
+// Geodesic area in m², measured once per zone object
+const areaCache = new WeakMap<Zone, number>();
+
+const zoneArea = (zone: Zone) => {
+  let area = areaCache.get(zone);
+  if (area === undefined) {
+    area = calculateZoneMetrics(zone).area;
+    areaCache.set(zone, area);
+  }
+  return area;
+};
+
+const numericProperty = (zone: Zone, property: string) => {
+  const value = zone.properties?.[property];
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+};
+
+const formatNumber = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+// Message explaining why the constraint refuses the zone, or null when it allows it.
+// `selection` is the selection the zone would join, without the zone.
+const checkConstraint = (constraint: SelectionConstraint, zone: Zone, selection: Zone[]): string | null => {
+  switch (constraint.type) {
+    case 'maxArea': {
+      const unit = constraint.unit ?? 'km2';
+      // Zones tile without overlapping, so the sum of areas is the selection's area
+      const total = [...selection, zone].reduce((sum, z) => sum + zoneArea(z), 0);
+      return convertArea(total, unit) > constraint.max
+        ? `Selecting ${zone.name} would exceed the maximum area of ${formatNumber(constraint.max)} ${AREA_UNIT_LABELS[unit]}`
+        : null;
+    }
+
+    case 'maxSum': {
+      const total = [...selection, zone].reduce((sum, z) => sum + numericProperty(z, constraint.property), 0);
+      return total > constraint.max
+        ? `Selecting ${zone.name} would exceed the maximum ${constraint.property} of ${formatNumber(constraint.max)}`
+        : null;
+    }
+
+    case 'allowedValues': {
+      const value = zone.properties?.[constraint.property];
+      return constraint.values.includes(value)
+        ? null
+        : `${zone.name} cannot be selected: ${constraint.property} "${String(value)}" is not allowed`;
+    }
+
+    case 'custom':
+      return constraint.validate(zone, selection) || null;
+  }
+};
+
+// First constraint the zone breaks, in the order given
+export function checkConstraints(
+  zone: Zone,
+  selection: Zone[],
+  constraints: SelectionConstraint[]
+): SelectionRejection | null {
+  for (const constraint of constraints) {
+    const message = checkConstraint(constraint, zone, selection);
+    if (message) {
+      return { type: constraint.type, message: constraint.message ?? message, constraint };
+    }
+  }
+  return null;
+}
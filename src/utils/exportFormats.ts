@@ -1,45 +1,17 @@
-import type { Zone, ExportFormat } from '@/types';
+import type { Zone, ExportFormat, PolygonCoordinates } from '@/types';
+import { getZoneGeometry, getZonePolygons, zoneToFeature } from './geometry';
 
-// Mock implementation for testing
 export function exportToFormat(zones: Zone[], format: ExportFormat): string | Blob {
   switch (format) {
-    case 'geojson': {
-      const geojson = {
-        type: 'FeatureCollection',
-        features: zones.map(zone => ({
-          type: 'Feature',
-          properties: {
-            id: zone.id,
-            name: zone.name,
-            ...zone.properties
-          },
-          geometry: {
-            type: 'Polygon',
-            coordinates: [zone.coordinates]
-          }
-        }))
-      };
-      return JSON.stringify(geojson, null, 2);
-    }
-    
+    case 'geojson':
+      return JSON.stringify(exportToGeoJSON(zones), null, 2);
+
     case 'kml':
-      // Mock KML export
-      return `<?xml version="1.0" encoding="UTF-8"?>
-<kml xmlns="http://www.opengis.net/kml/2.2">
-  <Document>
-    ${zones.map(zone => `<Placemark><name>${zone.name}</name></Placemark>`).join('\n')}
-  </Document>
-</kml>`;
-    
-    case 'csv': {
-      // Mock CSV export
-      const headers = 'id,name,coordinates\n';
-      const rows = zones.map(zone => 
-        `${zone.id},${zone.name},"${JSON.stringify(zone.coordinates)}"`
-      ).join('\n');
-      return headers + rows;
-    }
-    
+      return exportToKML(zones);
+
+    case 'csv':
+      return exportToCSV(zones);
+
     default:
       throw new Error(`Unsupported export format: ${format}`);
   }
@@ -48,34 +20,46 @@ export function exportToFormat(zones: Zone[], format: ExportFormat): string | Bl
 export function exportToGeoJSON(zones: Zone[]): object {
   return {
     type: 'FeatureCollection',
-    features: zones.map(zone => ({
-      type: 'Feature',
-      properties: {
-        id: zone.id,
-        name: zone.name,
-        ...zone.properties
-      },
-      geometry: {
-        type: 'Polygon',
-        coordinates: [zone.coordinates]
-      }
-    }))
+    features: zones.map(zoneToFeature)
   };
 }
 
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const kmlRing = (ring: PolygonCoordinates[number]) =>
+  `<LinearRing><coordinates>${ring.map(([lng, lat]) => `${lng},${lat}`).join(' ')}</coordinates></LinearRing>`;
+
+const kmlPolygon = ([outer, ...holes]: PolygonCoordinates) =>
+  `<Polygon><outerBoundaryIs>${kmlRing(outer ?? [])}</outerBoundaryIs>` +
+  holes.map(hole => `<innerBoundaryIs>${kmlRing(hole)}</innerBoundaryIs>`).join('') +
+  '</Polygon>';
+
+const kmlGeometry = (zone: Zone) => {
+  const polygons = getZonePolygons(zone);
+  return polygons.length === 1
+    ? kmlPolygon(polygons[0])
+    : `<MultiGeometry>${polygons.map(kmlPolygon).join('')}</MultiGeometry>`;
+};
+
 export function exportToKML(zones: Zone[]): string {
   return `<?xml version="1.0" encoding="UTF-8"?>
 <kml xmlns="http://www.opengis.net/kml/2.2">
   <Document>
-    ${zones.map(zone => `<Placemark><name>${zone.name}</name></Placemark>`).join('\n')}
+    ${zones.map(zone => `<Placemark id="${escapeXml(zone.id)}"><name>${escapeXml(zone.name)}</name>${kmlGeometry(zone)}</Placemark>`).join('\n')}
   </Document>
 </kml>`;
 }
 
 export function exportToCSV(zones: Zone[]): string {
-  const headers = 'id,name,coordinates\n';
-  const rows = zones.map(zone => 
-    `${zone.id},${zone.name},"${JSON.stringify(zone.coordinates)}"`
-  ).join('\n');
+  const headers = 'id,name,geometryType,coordinates\n';
+  const rows = zones.map(zone => {
+    const geometry = getZoneGeometry(zone);
+    return `${zone.id},${zone.name},${geometry.type},"${JSON.stringify(geometry.coordinates)}"`;
+  }).join('\n');
   return headers + rows;
-}
\ No newline at end of file
+}
@@ -0,0 +1,77 @@
+import type { LatLngTuple } from 'leaflet';
+import type {
+  Zone,
+  Coordinates,
+  Ring,
+  PolygonCoordinates,
+  MultiPolygonCoordinates,
+  ZoneGeometry
+} from '@/types';
+
+const isPosition = (value: unknown): value is Coordinates =>
+  Array.isArray(value) && typeof value[0] === 'number';
+
+// Nesting depth of the first position: 1 in a ring, 2 in rings, 3 in polygons, 0 when
+// there is none. Empty rings or polygons before it are skipped.
+const positionDepth = (values: unknown[]): number => {
+  for (const value of values) {
+    if (isPosition(value)) return 1;
+    const depth = Array.isArray(value) ? positionDepth(value) : 0;
+    if (depth > 0) return depth + 1;
+  }
+  return 0;
+};
+
+// Normalise the accepted coordinate shapes into a GeoJSON geometry.
+// Nesting depth tells them apart: ring -> Polygon, rings -> Polygon, polygons -> MultiPolygon.
+export function getZoneGeometry(zone: Zone): ZoneGeometry {
+  const { coordinates } = zone;
+  const depth = positionDepth(coordinates);
+
+  if (depth === 1) {
+    return { type: 'Polygon', coordinates: [coordinates as Ring] };
+  }
+
+  if (depth === 3) {
+    return { type: 'MultiPolygon', coordinates: coordinates as MultiPolygonCoordinates };
+  }
+
+  // Without any position, e.g. no coordinates at all, an empty Polygon
+  return { type: 'Polygon', coordinates: coordinates as PolygonCoordinates };
+}
+
+// Every polygon of a geometry, each as [outer, ...holes]
+export function getGeometryPolygons(geometry: ZoneGeometry): PolygonCoordinates[] {
+  return geometry.type === 'Polygon'
+    ? [geometry.coordinates as PolygonCoordinates]
+    : (geometry.coordinates as MultiPolygonCoordinates);
+}
+
+export function getZonePolygons(zone: Zone): PolygonCoordinates[] {
+  return getGeometryPolygons(getZoneGeometry(zone));
+}
+
+// All positions of a zone, holes included
+export function getZonePositions(zone: Zone): Coordinates[] {
+  return getZonePolygons(zone).flat(2);
+}
+
+export function zoneToFeature(zone: Zone): GeoJSON.Feature<ZoneGeometry> {
+  return {
+    type: 'Feature',
+    id: zone.id,
+    properties: {
+      id: zone.id,
+      name: zone.name,
+      ...zone.properties
+    },
+    geometry: getZoneGeometry(zone)
+  };
+}
+
+// Leaflet expects [lat, lng] and nests polygons the same way GeoJSON does
+export function zoneToLatLngs(zone: Zone): LatLngTuple[][][] {
+  return getZonePolygons(zone).map(polygon =>
+    polygon.map(ring => ring.map(([lng, lat]): LatLngTuple => [lat, lng]))
+  );
+}
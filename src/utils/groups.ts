@@ -0,0 +1,140 @@
+import type { Zone, ZoneGroup, GroupAssignmentMode } from '@/types';
+import type { MetricsOptions, SelectionMetrics } from '@/components/LeafletZoneSelector/types';
+import { calculateMetrics } from './metrics';
+import { zoneToFeature } from './geometry';
+
+// 'json' is the groups themselves, 'geojson' one feature per membership, 'csv' one row per membership
+export type GroupExportFormat = 'json' | 'geojson' | 'csv';
+
+// Distinguishable on both light and dark tiles, picked in order for new groups
+export const GROUP_COLORS = [
+  '#e6194b',
+  '#3cb44b',
+  '#4363d8',
+  '#f58231',
+  '#911eb4',
+  '#42d4f4',
+  '#f032e6',
+  '#9a6324',
+  '#469990',
+  '#808000'
+];
+
+// First palette colour no group uses yet, cycling once all are taken
+export function nextGroupColor(groups: ZoneGroup[]): string {
+  const used = new Set(groups.map(group => group.color.toLowerCase()));
+  return GROUP_COLORS.find(color => !used.has(color)) ?? GROUP_COLORS[groups.length % GROUP_COLORS.length];
+}
+
+// Add zones to a group. In exclusive mode they leave every other group.
+// Returns the same array when nothing changes.
+export function assignZonesToGroup(
+  groups: ZoneGroup[],
+  groupId: string,
+  zoneIds: string[],
+  mode: GroupAssignmentMode = 'exclusive'
+): ZoneGroup[] {
+  if (!groups.some(group => group.id === groupId)) {
+    throw new Error(`Unknown zone group: ${groupId}`);
+  }
+
+  const assigned = new Set(zoneIds);
+  let changed = false;
+
+  const next = groups.map(group => {
+    if (group.id === groupId) {
+      const members = new Set(group.zoneIds);
+      const added = zoneIds.filter(id => !members.has(id) && members.add(id));
+      if (added.length === 0) return group;
+      changed = true;
+      return { ...group, zoneIds: [...group.zoneIds, ...added] };
+    }
+
+    if (mode === 'exclusive' && group.zoneIds.some(id => assigned.has(id))) {
+      changed = true;
+      return { ...group, zoneIds: group.zoneIds.filter(id => !assigned.has(id)) };
+    }
+
+    return group;
+  });
+
+  return changed ? next : groups;
+}
+
+// Remove zones from one group, or from all groups when no id is given
+export function removeZonesFromGroups(groups: ZoneGroup[], zoneIds: string[], groupId?: string): ZoneGroup[] {
+  const removed = new Set(zoneIds);
+  let changed = false;
+
+  const next = groups.map(group => {
+    if ((groupId !== undefined && group.id !== groupId) || !group.zoneIds.some(id => removed.has(id))) {
+      return group;
+    }
+    changed = true;
+    return { ...group, zoneIds: group.zoneIds.filter(id => !removed.has(id)) };
+  });
+
+  return changed ? next : groups;
+}
+
+// Groups each zone belongs to, in group order
+export function getGroupsByZone(groups: ZoneGroup[]): Map<string, ZoneGroup[]> {
+  const byZone = new Map<string, ZoneGroup[]>();
+  groups.forEach(group => {
+    group.zoneIds.forEach(id => byZone.set(id, [...(byZone.get(id) ?? []), group]));
+  });
+  return byZone;
+}
+
+// Member zones of a group, skipping ids that are not loaded
+export function getGroupZones(group: ZoneGroup, zones: Zone[]): Zone[] {
+  const byId = new Map(zones.map(zone => [zone.id, zone]));
+  return group.zoneIds.map(id => byId.get(id)).filter((zone): zone is Zone => zone !== undefined);
+}
+
+// Metrics of each group, keyed by group id
+export function calculateGroupMetrics(
+  groups: ZoneGroup[],
+  zones: Zone[],
+  options: MetricsOptions = {}
+): Record<string, SelectionMetrics> {
+  return Object.fromEntries(
+    groups.map(group => [group.id, calculateMetrics(getGroupZones(group, zones), options)])
+  );
+}
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function exportGroupMembership(groups: ZoneGroup[], zones: Zone[], format: GroupExportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(groups, null, 2);
+
+    case 'geojson':
+      return JSON.stringify({
+        type: 'FeatureCollection',
+        features: groups.flatMap(group =>
+          getGroupZones(group, zones).map(zone => {
+            const feature = zoneToFeature(zone);
+            return {
+              ...feature,
+              properties: { ...feature.properties, groupId: group.id, groupName: group.name, groupColor: group.color }
+            };
+          })
+        )
+      }, null, 2);
+
+    case 'csv': {
+      const byId = new Map(zones.map(zone => [zone.id, zone]));
+      const rows = groups.flatMap(group =>
+        group.zoneIds.map(id =>
+          [group.id, group.name, id, byId.get(id)?.name ?? ''].map(csvField).join(',')
+        )
+      );
+      return ['groupId,groupName,zoneId,zoneName', ...rows].join('\n');
+    }
+
+    default:
+      throw new Error(`Unsupported group export format: ${format}`);
+  }
+}
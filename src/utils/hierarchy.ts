@@ -0,0 +1,138 @@
+import type { Zone } from '@/types';
+
+export interface ZoneHierarchy {
+  byId: Map<string, Zone>;
+  childrenOf: Map<string, Zone[]>;
+  roots: Zone[];
+}
+
+// Zones pointing at a parent that isn't loaded are treated as roots, as are zones whose
+// parent links lead back to themselves
+export function buildHierarchy(zones: Zone[]): ZoneHierarchy {
+  const byId = new Map(zones.map(zone => [zone.id, zone]));
+  const childrenOf = new Map<string, Zone[]>();
+  const roots: Zone[] = [];
+
+  const inCycle = (zone: Zone) => {
+    const seen = new Set<string>();
+    let parentId = zone.parentId;
+    while (parentId && byId.has(parentId) && !seen.has(parentId)) {
+      if (parentId === zone.id) return true;
+      seen.add(parentId);
+      parentId = byId.get(parentId)!.parentId;
+    }
+    return false;
+  };
+
+  zones.forEach(zone => {
+    if (zone.parentId && byId.has(zone.parentId) && !inCycle(zone)) {
+      childrenOf.set(zone.parentId, [...(childrenOf.get(zone.parentId) ?? []), zone]);
+    } else {
+      roots.push(zone);
+    }
+  });
+
+  return { byId, childrenOf, roots };
+}
+
+export function getChildren(hierarchy: ZoneHierarchy, zoneId: string | null): Zone[] {
+  return zoneId === null ? hierarchy.roots : hierarchy.childrenOf.get(zoneId) ?? [];
+}
+
+// Parent first, up to the root
+export function getAncestors(hierarchy: ZoneHierarchy, zoneId: string): Zone[] {
+  const ancestors: Zone[] = [];
+  const seen = new Set([zoneId]);
+  let parentId = hierarchy.byId.get(zoneId)?.parentId;
+
+  while (parentId && !seen.has(parentId)) {
+    const parent = hierarchy.byId.get(parentId);
+    if (!parent) break;
+    ancestors.push(parent);
+    seen.add(parentId);
+    parentId = parent.parentId;
+  }
+
+  return ancestors;
+}
+
+export function getDescendants(hierarchy: ZoneHierarchy, zoneId: string): Zone[] {
+  const descendants: Zone[] = [];
+  const seen = new Set([zoneId]);
+  const queue = [...getChildren(hierarchy, zoneId)];
+
+  while (queue.length > 0) {
+    const zone = queue.shift()!;
+    if (seen.has(zone.id)) continue;
+    seen.add(zone.id);
+    descendants.push(zone);
+    queue.push(...getChildren(hierarchy, zone.id));
+  }
+
+  return descendants;
+}
+
+// Replace every parent whose children are all selected by the parent itself, bottom-up
+export function rollUpSelection(hierarchy: ZoneHierarchy, zoneIds: string[]): string[] {
+  const selected = new Set(zoneIds);
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    hierarchy.childrenOf.forEach((children, parentId) => {
+      if (!selected.has(parentId) && children.every(child => selected.has(child.id))) {
+        children.forEach(child => selected.delete(child.id));
+        selected.add(parentId);
+        changed = true;
+      }
+    });
+  }
+
+  const original = new Set(zoneIds);
+  return zoneIds.filter(id => selected.has(id)).concat(
+    Array.from(selected).filter(id => !original.has(id))
+  );
+}
+
+// Replace every selected parent by its leaf descendants
+export function expandSelection(hierarchy: ZoneHierarchy, zoneIds: string[]): string[] {
+  const result = new Set<string>();
+
+  zoneIds.forEach(id => {
+    const leaves = getDescendants(hierarchy, id).filter(zone => !hierarchy.childrenOf.has(zone.id));
+    if (leaves.length === 0) {
+      result.add(id);
+    } else {
+      leaves.forEach(leaf => result.add(leaf.id));
+    }
+  });
+
+  return Array.from(result);
+}
+
+// Deselect a zone that is covered by a selected ancestor: the ancestor is swapped for
+// the siblings along the path down to the zone
+export function deselectFromHierarchy(hierarchy: ZoneHierarchy, zoneIds: string[], zoneId: string): string[] {
+  if (zoneIds.includes(zoneId)) {
+    return zoneIds.filter(id => id !== zoneId);
+  }
+
+  const path = [zoneId, ...getAncestors(hierarchy, zoneId).map(zone => zone.id)];
+  const selectedIndex = path.findIndex(id => zoneIds.includes(id));
+  if (selectedIndex === -1) {
+    return zoneIds;
+  }
+
+  const replacements: string[] = [];
+  for (let i = selectedIndex; i > 0; i--) {
+    getChildren(hierarchy, path[i])
+      .filter(child => child.id !== path[i - 1])
+      .forEach(child => replacements.push(child.id));
+  }
+
+  return [...zoneIds.filter(id => id !== path[selectedIndex]), ...replacements];
+}
+
+export function isCoveredBySelection(hierarchy: ZoneHierarchy, zoneIds: Set<string>, zoneId: string): boolean {
+  return zoneIds.has(zoneId) || getAncestors(hierarchy, zoneId).some(zone => zoneIds.has(zone.id));
+}
@@ -0,0 +1,255 @@
+import type { Zone, LngLat } from '@/types';
+import { getZonePolygons } from './geometry';
+
+export interface ZoneLabelOptions {
+  // Template such as '{name} ({population})', filled from the zone and its properties,
+  // or a function. Defaults to the zone name.
+  text?: string | ((zone: Zone) => string);
+  // Labels that would overlap are hidden lowest priority first: a numeric property or
+  // a function. Defaults to the zone size. Selected zones always come first.
+  priority?: string | ((zone: Zone) => number);
+  minZoom?: number;
+  maxZoom?: number;
+  fontSize?: number; // Pixels, defaults to 12
+  padding?: number; // Minimum gap between labels in pixels, defaults to 4
+  className?: string;
+  selectedClassName?: string; // Added to labels of selected zones
+}
+
+export interface LabelCandidate {
+  id: string;
+  x: number; // Centre of the label, in pixels
+  y: number;
+  width: number;
+  height: number;
+  priority: number;
+  selected?: boolean; // Placed before any unselected label
+}
+
+interface LabelAnchor {
+  point: LngLat;
+  size: number; // Planar area, only meant for ranking zones against each other
+}
+
+interface Cell {
+  x: number;
+  y: number;
+  half: number;
+  distance: number; // To the outline, negative outside
+  max: number; // Best distance any point of the cell could reach
+}
+
+// Share of the polygon's bounding box size the label point may miss the optimum by
+const LABEL_PRECISION = 0.005;
+// Glyph width as a share of the font size, for an average proportional font
+const CHAR_WIDTH = 0.6;
+// Cell size of the grid used to find overlapping labels
+const COLLISION_CELL = 64;
+
+// Signed distance from a point to a polygon outline: positive inside, negative outside
+const pointToPolygonDistance = (x: number, y: number, rings: number[][][]) => {
+  let inside = false;
+  let minSquared = Infinity;
+
+  rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [ax, ay] = ring[i];
+      const [bx, by] = ring[j];
+      if ((ay > y) !== (by > y) && x < ((bx - ax) * (y - ay)) / (by - ay) + ax) inside = !inside;
+
+      const dx = bx - ax;
+      const dy = by - ay;
+      const length = dx * dx + dy * dy;
+      const t = length === 0 ? 0 : Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / length));
+      const px = ax + t * dx - x;
+      const py = ay + t * dy - y;
+      minSquared = Math.min(minSquared, px * px + py * py);
+    }
+  });
+
+  return (inside ? 1 : -1) * Math.sqrt(minSquared);
+};
+
+// Max-heap of cells by their best possible distance
+const pushCell = (heap: Cell[], cell: Cell) => {
+  heap.push(cell);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent].max >= heap[i].max) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+};
+
+const popCell = (heap: Cell[]) => {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let largest = i;
+      if (left < heap.length && heap[left].max > heap[largest].max) largest = left;
+      if (right < heap.length && heap[right].max > heap[largest].max) largest = right;
+      if (largest === i) break;
+      [heap[largest], heap[i]] = [heap[i], heap[largest]];
+      i = largest;
+    }
+  }
+  return top;
+};
+
+// Pole of inaccessibility (polylabel): the interior point farthest from the outline.
+// Unlike the centroid it is always inside, also for C-shaped zones and zones with holes.
+// Cells are split around the most promising ones until none can beat the best by more
+// than the precision.
+const poleOfInaccessibility = (rings: number[][][]): [number, number] => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  rings[0].forEach(([x, y]) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+
+  const width = maxX - minX;
+  const height = maxY - minY;
+  const cellSize = Math.min(width, height);
+  if (cellSize === 0) return [minX, minY];
+
+  const precision = Math.max(width, height) * LABEL_PRECISION;
+  const cell = (x: number, y: number, half: number): Cell => {
+    const distance = pointToPolygonDistance(x, y, rings);
+    return { x, y, half, distance, max: distance + half * Math.SQRT2 };
+  };
+
+  const heap: Cell[] = [];
+  for (let x = minX; x < maxX; x += cellSize) {
+    for (let y = minY; y < maxY; y += cellSize) {
+      pushCell(heap, cell(x + cellSize / 2, y + cellSize / 2, cellSize / 2));
+    }
+  }
+
+  let best = cell(minX + width / 2, minY + height / 2, 0);
+  while (heap.length > 0) {
+    const current = popCell(heap);
+    if (current.distance > best.distance) best = current;
+    if (current.max - best.distance <= precision) continue;
+
+    const half = current.half / 2;
+    pushCell(heap, cell(current.x - half, current.y - half, half));
+    pushCell(heap, cell(current.x + half, current.y - half, half));
+    pushCell(heap, cell(current.x - half, current.y + half, half));
+    pushCell(heap, cell(current.x + half, current.y + half, half));
+  }
+  return [best.x, best.y];
+};
+
+const planarArea = (rings: number[][][]) => rings.reduce((total, ring, index) => {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j][0] - ring[i][0]) * (ring[i][1] + ring[j][1]);
+  }
+  return total + (index === 0 ? 1 : -1) * Math.abs(sum / 2);
+}, 0);
+
+const anchorCache = new WeakMap<Zone, LabelAnchor>();
+
+const getLabelAnchor = (zone: Zone): LabelAnchor => {
+  let anchor = anchorCache.get(zone);
+  if (anchor) return anchor;
+
+  // Degrees of longitude shrink away from the equator: scale them so distances are
+  // comparable in both directions
+  const polygons = getZonePolygons(zone).filter(polygon => polygon[0]?.length > 0);
+  const latitude = polygons[0]?.[0][0][1] ?? 0;
+  const scale = Math.cos((latitude * Math.PI) / 180) || 1;
+  const projected = polygons.map(polygon => polygon.map(ring => ring.map(([lng, lat]) => [lng * scale, lat])));
+  const areas = projected.map(planarArea);
+
+  // The label goes in the largest part of a multi-part zone
+  const largest = areas.indexOf(Math.max(...areas));
+  if (largest < 0) {
+    anchor = { point: [0, 0], size: 0 };
+  } else {
+    const [x, y] = poleOfInaccessibility(projected[largest]);
+    anchor = { point: [x / scale, y], size: areas.reduce((sum, area) => sum + area, 0) };
+  }
+  anchorCache.set(zone, anchor);
+  return anchor;
+};
+
+// Interior point of a zone for its label, as [lng, lat]
+export function getLabelPoint(zone: Zone): LngLat {
+  return getLabelAnchor(zone).point;
+}
+
+// Fills {name}, {id} and {property} placeholders; unknown ones become empty
+export function formatLabel(zone: Zone, text: ZoneLabelOptions['text'] = '{name}'): string {
+  if (typeof text === 'function') return text(zone);
+  return text.replace(/\{([^{}]+)\}/g, (_match, key: string) => {
+    const value = key === 'name' || key === 'id' ? zone[key] : zone.properties?.[key];
+    if (typeof value === 'number') return value.toLocaleString('en-US');
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+export function getLabelPriority(zone: Zone, priority?: ZoneLabelOptions['priority']): number {
+  if (typeof priority === 'function') return priority(zone);
+  if (priority) {
+    const value = zone.properties?.[priority];
+    return typeof value === 'number' && Number.isFinite(value) ? value : -Infinity;
+  }
+  return getLabelAnchor(zone).size;
+}
+
+// Approximate, as labels are placed before they are drawn
+export const estimateLabelSize = (text: string, fontSize: number) => ({
+  width: Math.ceil(text.length * fontSize * CHAR_WIDTH),
+  height: Math.ceil(fontSize * 1.4)
+});
+
+// Greedy placement: labels are taken selected first, then by descending priority, and
+// kept when they don't overlap one kept already, with `padding` pixels around each.
+// Returns the kept ids.
+export function placeLabels(candidates: LabelCandidate[], padding = 4): Set<string> {
+  const placed = new Set<string>();
+  const grid = new Map<string, LabelCandidate[]>();
+  const ordered = [...candidates].sort((a, b) => Number(!!b.selected) - Number(!!a.selected) || b.priority - a.priority);
+
+  ordered.forEach(candidate => {
+    const left = candidate.x - candidate.width / 2 - padding;
+    const right = candidate.x + candidate.width / 2 + padding;
+    const top = candidate.y - candidate.height / 2 - padding;
+    const bottom = candidate.y + candidate.height / 2 + padding;
+
+    const cells: string[] = [];
+    for (let column = Math.floor(left / COLLISION_CELL); column <= Math.floor(right / COLLISION_CELL); column++) {
+      for (let row = Math.floor(top / COLLISION_CELL); row <= Math.floor(bottom / COLLISION_CELL); row++) {
+        cells.push(`${column}:${row}`);
+      }
+    }
+
+    // Kept labels are stored without padding, so two labels are at least `padding` apart
+    const overlaps = cells.some(key => grid.get(key)?.some(other =>
+      left < other.x + other.width / 2 &&
+      right > other.x - other.width / 2 &&
+      top < other.y + other.height / 2 &&
+      bottom > other.y - other.height / 2
+    ));
+    if (overlaps) return;
+
+    placed.add(candidate.id);
+    cells.forEach(key => {
+      if (!grid.has(key)) grid.set(key, []);
+      grid.get(key)!.push(candidate);
+    });
+  });
+  return placed;
+}
@@ -1,6 +1,113 @@
-// Placeholder for mergeAdjacentZones utility (to be implemented in Issue #9)
+import {
+  area,
+  booleanIntersects,
+  booleanPointInPolygon,
+  feature,
+  featureCollection,
+  pointOnFeature,
+  polygon,
+  truncate,
+  union
+} from '@turf/turf';
+import type { Zone, MergedZone, PolygonCoordinates } from '@/types';
+import { getGeometryPolygons, zoneToFeature } from './geometry';
 
-export function mergeAdjacentZones(zones: unknown[]): unknown[] {
-  // Placeholder implementation
-  return zones;
-}
\ No newline at end of file
+export interface MergeOptions {
+  precision?: number; // Decimal places vertices are snapped to before dissolving (7 ≈ 1cm)
+  minHoleArea?: number; // Interior rings below this area (m²) are slivers and get dropped
+  mergeTouchingPoints?: boolean; // Also group blocks that only meet at a single vertex
+}
+
+const findRoot = (parents: number[], index: number): number => {
+  while (parents[index] !== index) {
+    parents[index] = parents[parents[index]];
+    index = parents[index];
+  }
+  return index;
+};
+
+const link = (parents: number[], a: number, b: number) => {
+  parents[findRoot(parents, a)] = findRoot(parents, b);
+};
+
+const dropSlivers = ([outer, ...holes]: PolygonCoordinates, minHoleArea: number): PolygonCoordinates => [
+  outer,
+  ...holes.filter(hole => area(polygon([hole])) >= minHoleArea)
+];
+
+// Dissolve shared borders between zones, returning one outline per contiguous block.
+// Zones that only touch at a point stay separate unless mergeTouchingPoints is set.
+export function mergeAdjacentZones(zones: Zone[], options: MergeOptions = {}): MergedZone[] {
+  const { precision = 7, minHoleArea = 1, mergeTouchingPoints = false } = options;
+
+  const snapped = zones
+    .map(zone => ({ zone, geometry: truncate(zoneToFeature(zone), { precision }).geometry }))
+    .filter(({ geometry }) => geometry.coordinates.length > 0);
+
+  if (snapped.length === 0) {
+    return [];
+  }
+
+  const dissolved = snapped.length === 1
+    ? snapped[0].geometry
+    : union(featureCollection(snapped.map(({ geometry }) => feature(geometry))))?.geometry;
+
+  if (!dissolved) {
+    return [];
+  }
+
+  const blocks = getGeometryPolygons(dissolved).map(block => dropSlivers(block, minHoleArea));
+
+  const blockPolygons = blocks.map(block => polygon(block));
+  const parents = blocks.map((_, index) => index);
+  const blockSources = blocks.map(() => new Set<string>());
+
+  // A source zone with several parts (islands) keeps all its parts in one outline
+  snapped.forEach(({ zone, geometry }) => {
+    let firstBlock = -1;
+
+    getGeometryPolygons(geometry).forEach(part => {
+      const point = pointOnFeature(polygon(part));
+      const blockIndex = blockPolygons.findIndex(block => booleanPointInPolygon(point, block));
+      if (blockIndex === -1) return;
+
+      blockSources[blockIndex].add(zone.id);
+      if (firstBlock === -1) {
+        firstBlock = blockIndex;
+      } else {
+        link(parents, blockIndex, firstBlock);
+      }
+    });
+  });
+
+  if (mergeTouchingPoints) {
+    for (let i = 0; i < blocks.length; i++) {
+      for (let j = i + 1; j < blocks.length; j++) {
+        if (booleanIntersects(blockPolygons[i], blockPolygons[j])) {
+          link(parents, i, j);
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  blocks.forEach((_, index) => {
+    const root = findRoot(parents, index);
+    groups.set(root, [...(groups.get(root) ?? []), index]);
+  });
+
+  const zonesById = new Map(zones.map(zone => [zone.id, zone]));
+
+  return Array.from(groups.values()).map(blockIndexes => {
+    const sources = new Set(blockIndexes.flatMap(index => Array.from(blockSources[index])));
+    const sourceZoneIds = zones.map(zone => zone.id).filter(id => sources.has(id));
+    const polygons = blockIndexes.map(index => blocks[index]);
+
+    return {
+      id: sourceZoneIds.join('+'),
+      name: sourceZoneIds.map(id => zonesById.get(id)?.name).join(', '),
+      coordinates: polygons.length === 1 ? polygons[0] : polygons,
+      sourceZoneIds
+    };
+  });
+}
@@ -1,34 +1,185 @@
-import type { Zone } from '@/types';
-import type { SelectionMetrics } from '@/components/LeafletZoneSelector/types';
+import { area, length, lineString, polygon } from '@turf/turf';
+import type { Zone, Ring, PolygonCoordinates, LngLat } from '@/types';
+import type {
+  AreaUnit,
+  LengthUnit,
+  MetricsOptions,
+  SelectionMetrics,
+  ZoneMetrics
+} from '@/components/LeafletZoneSelector/types';
+import { getZonePolygons, getZonePositions } from './geometry';
+import { mergeAdjacentZones } from './mergeAdjacentZones';
+
+// Square metres per unit
+const AREA_FACTORS: Record<AreaUnit, number> = {
+  m2: 1,
+  ha: 10_000,
+  km2: 1_000_000,
+  acres: 4_046.8564224,
+  mi2: 2_589_988.110336
+};
+
+// Display symbol per unit
+export const AREA_UNIT_LABELS: Record<AreaUnit, string> = {
+  m2: 'm²',
+  ha: 'ha',
+  km2: 'km²',
+  acres: 'acres',
+  mi2: 'mi²'
+};
+
+// Metres per unit
+const LENGTH_FACTORS: Record<LengthUnit, number> = {
+  m: 1,
+  km: 1_000,
+  mi: 1_609.344
+};
+
+export const convertArea = (squareMetres: number, unit: AreaUnit = 'm2') => squareMetres / AREA_FACTORS[unit];
+
+export const convertLength = (metres: number, unit: LengthUnit = 'm') => metres / LENGTH_FACTORS[unit];
+
+const polygonsArea = (polygons: PolygonCoordinates[]) =>
+  polygons.reduce((sum, rings) => sum + (rings.length > 0 ? area(polygon(rings)) : 0), 0);
+
+const polygonsPerimeter = (polygons: PolygonCoordinates[]) =>
+  polygons.reduce(
+    (sum, rings) => sum + rings.reduce(
+      (ringSum, ring) => ringSum + (ring.length > 1 ? length(lineString(ring), { units: 'meters' }) : 0),
+      0
+    ),
+    0
+  );
+
+// Planar shoelace area and centroid of a ring in lng/lat space
+const ringMoments = (ring: Ring) => {
+  let doubleArea = 0;
+  let cx = 0;
+  let cy = 0;
+
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[i + 1];
+    const cross = x1 * y2 - x2 * y1;
+    doubleArea += cross;
+    cx += (x1 + x2) * cross;
+    cy += (y1 + y2) * cross;
+  }
+
+  const signedArea = doubleArea / 2;
+  return signedArea === 0
+    ? { area: 0, centroid: [0, 0] as [number, number] }
+    : { area: Math.abs(signedArea), centroid: [cx / (6 * signedArea), cy / (6 * signedArea)] as [number, number] };
+};
+
+// Holes are subtracted, so enclaves pull the centroid away from themselves
+export const zoneCentroid = (zone: Zone): LngLat => {
+  let totalArea = 0;
+  let sumX = 0;
+  let sumY = 0;
+
+  getZonePolygons(zone).forEach(rings => {
+    rings.forEach((ring, index) => {
+      const { area: ringArea, centroid } = ringMoments(ring);
+      const weight = index === 0 ? ringArea : -ringArea;
+      totalArea += weight;
+      sumX += centroid[0] * weight;
+      sumY += centroid[1] * weight;
+    });
+  });
+
+  if (totalArea > 0) {
+    return [sumX / totalArea, sumY / totalArea];
+  }
+
+  // Degenerate geometry: fall back to the vertex mean
+  const positions = getZonePositions(zone);
+  if (positions.length === 0) return [0, 0];
+  return [
+    positions.reduce((sum, [lng]) => sum + lng, 0) / positions.length,
+    positions.reduce((sum, [, lat]) => sum + lat, 0) / positions.length
+  ];
+};
+
+export function calculateZoneMetrics(zone: Zone, options: MetricsOptions = {}): ZoneMetrics {
+  const { areaUnit = 'm2', lengthUnit = 'm' } = options;
+  const polygons = getZonePolygons(zone);
+
+  return {
+    zoneId: zone.id,
+    name: zone.name,
+    area: convertArea(polygonsArea(polygons), areaUnit),
+    perimeter: convertLength(polygonsPerimeter(polygons), lengthUnit),
+    centroid: zoneCentroid(zone)
+  };
+}
+
+// Border length shared by two zones and the area they overlap, in metres and m².
+// Lets callers update selection totals pair by pair instead of dissolving everything again.
+export function measureZonePair(a: Zone, b: Zone): { sharedBorder: number; overlapArea: number } {
+  const [merged, ...rest] = mergeAdjacentZones([a, b], { mergeTouchingPoints: true });
+  if (!merged || rest.length > 0) {
+    return { sharedBorder: 0, overlapArea: 0 };
+  }
+
+  const polygonsA = getZonePolygons(a);
+  const polygonsB = getZonePolygons(b);
+  const polygonsMerged = getZonePolygons(merged);
+
+  return {
+    sharedBorder: Math.max(0, (polygonsPerimeter(polygonsA) + polygonsPerimeter(polygonsB) - polygonsPerimeter(polygonsMerged)) / 2),
+    overlapArea: Math.max(0, polygonsArea(polygonsA) + polygonsArea(polygonsB) - polygonsArea(polygonsMerged))
+  };
+}
+
+export function calculateMetrics(zones: Zone[], options: MetricsOptions = {}): SelectionMetrics {
+  const { areaUnit = 'm2', lengthUnit = 'm' } = options;
+  const units = { area: areaUnit, length: lengthUnit };
 
-// Mock implementation for testing
-export function calculateMetrics(zones: Zone[]): SelectionMetrics {
   if (zones.length === 0) {
     return {
       totalArea: 0,
       totalPerimeter: 0,
       zoneCount: 0,
       boundingBox: [[0, 0], [0, 0]],
-      center: [0, 0]
+      center: [0, 0],
+      units,
+      zones: []
     };
   }
 
-  // Mock calculations
-  const allCoordinates = zones.flatMap(zone => zone.coordinates);
-  
-  const lngs = allCoordinates.map(coord => coord[0]);
-  const lats = allCoordinates.map(coord => coord[1]);
-  
-  const minLng = Math.min(...lngs);
-  const maxLng = Math.max(...lngs);
-  const minLat = Math.min(...lats);
-  const maxLat = Math.max(...lats);
-  
+  const zoneMetrics = zones.map(zone => calculateZoneMetrics(zone, options));
+
+  // Area and perimeter of the dissolved outline so overlaps and shared borders count once
+  const outlines = mergeAdjacentZones(zones).flatMap(getZonePolygons);
+
+  let minLng = Infinity;
+  let maxLng = -Infinity;
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+
+  zones.flatMap(getZonePositions).forEach(([lng, lat]) => {
+    minLng = Math.min(minLng, lng);
+    maxLng = Math.max(maxLng, lng);
+    minLat = Math.min(minLat, lat);
+    maxLat = Math.max(maxLat, lat);
+  });
+
+  const weight = zoneMetrics.reduce((sum, metrics) => sum + metrics.area, 0);
+  const center: [number, number] = weight > 0
+    ? [
+      zoneMetrics.reduce((sum, metrics) => sum + metrics.centroid[0] * metrics.area, 0) / weight,
+      zoneMetrics.reduce((sum, metrics) => sum + metrics.centroid[1] * metrics.area, 0) / weight
+    ]
+    : [(minLng + maxLng) / 2, (minLat + maxLat) / 2];
+
   return {
-    totalArea: zones.length * 1000, // Mock area calculation
-    totalPerimeter: zones.length * 100, // Mock perimeter calculation
+    totalArea: convertArea(polygonsArea(outlines), areaUnit),
+    totalPerimeter: convertLength(polygonsPerimeter(outlines), lengthUnit),
     zoneCount: zones.length,
     boundingBox: [[minLng, minLat], [maxLng, maxLat]],
-    center: [(minLng + maxLng) / 2, (minLat + maxLat) / 2]
+    center,
+    units,
+    zones: zoneMetrics
   };
-}
\ No newline at end of file
+}
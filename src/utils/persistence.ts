@@ -0,0 +1,116 @@
+import type { LatLng } from '@/types';
+
+export interface PersistedView {
+  center: LatLng;
+  zoom: number;
+}
+
+export interface PersistedSelection {
+  zoneIds: string[];
+  view?: PersistedView;
+}
+
+export interface PersistenceOptions {
+  // 'hash' makes the selection shareable as a link, 'localStorage' keeps it on this device
+  storage: 'hash' | 'localStorage';
+  key?: string; // Defaults to 'zones'
+  viewport?: boolean; // Also persist the map center and zoom
+}
+
+export const DEFAULT_PERSISTENCE_KEY = 'zones';
+
+// Hash parameters, e.g. #zones=75101,75102&zones.view=48.8566,2.3522,12
+// Values are URI-encoded per item so ids may contain commas.
+const parseHash = (hash: string) =>
+  new Map(
+    hash
+      .replace(/^#/, '')
+      .split('&')
+      .filter(Boolean)
+      .map(pair => {
+        const [name, value = ''] = pair.split('=');
+        return [decodeURIComponent(name), value] as const;
+      })
+  );
+
+const formatHash = (params: Map<string, string>) =>
+  [...params].map(([name, value]) => `${encodeURIComponent(name)}=${value}`).join('&');
+
+const parseView = (value: string | undefined): PersistedView | undefined => {
+  const [lat, lng, zoom] = (value ?? '').split(',').map(Number);
+  return [lat, lng, zoom].every(Number.isFinite) ? { center: [lat, lng], zoom } : undefined;
+};
+
+const isView = (value: unknown): value is PersistedView => {
+  const view = value as PersistedView | null | undefined;
+  return !!view && Array.isArray(view.center) && [...view.center, view.zoom].every(Number.isFinite);
+};
+
+// Round to ~1 m and a hundredth of a zoom level, which keeps links short
+const formatView = ({ center: [lat, lng], zoom }: PersistedView) =>
+  [lat.toFixed(5), lng.toFixed(5), Number(zoom.toFixed(2))].join(',');
+
+const readHash = (key: string): PersistedSelection | null => {
+  const params = parseHash(window.location.hash);
+  const ids = params.get(key);
+  const view = parseView(params.get(`${key}.view`));
+  if (ids === undefined && !view) return null;
+
+  return {
+    zoneIds: ids ? ids.split(',').map(decodeURIComponent) : [],
+    ...(view && { view })
+  };
+};
+
+const writeHash = (key: string, state: PersistedSelection) => {
+  const params = parseHash(window.location.hash);
+  params.set(key, state.zoneIds.map(encodeURIComponent).join(','));
+  if (state.view) {
+    params.set(`${key}.view`, formatView(state.view));
+  }
+
+  // Replace rather than push, so every click doesn't add a back-button step
+  const { pathname, search } = window.location;
+  window.history.replaceState(window.history.state, '', `${pathname}${search}#${formatHash(params)}`);
+};
+
+const readStorage = (key: string): PersistedSelection | null => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(key) ?? 'null');
+    if (!stored || !Array.isArray(stored.zoneIds)) return null;
+    return {
+      zoneIds: stored.zoneIds.filter((id: unknown): id is string => typeof id === 'string'),
+      ...(isView(stored.view) && { view: stored.view })
+    };
+  } catch {
+    // Unavailable storage (private browsing) or a value written by something else
+    return null;
+  }
+};
+
+const writeStorage = (key: string, state: PersistedSelection) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(state));
+  } catch {
+    // Quota exceeded or storage disabled: persistence is best effort
+  }
+};
+
+export function readPersistedSelection(options: PersistenceOptions): PersistedSelection | null {
+  if (typeof window === 'undefined') return null;
+  const key = options.key ?? DEFAULT_PERSISTENCE_KEY;
+  return options.storage === 'hash' ? readHash(key) : readStorage(key);
+}
+
+// Merge into what is already stored, so the selection and viewport can be written separately
+export function writePersistedSelection(update: Partial<PersistedSelection>, options: PersistenceOptions) {
+  if (typeof window === 'undefined') return;
+  const key = options.key ?? DEFAULT_PERSISTENCE_KEY;
+  const state = { zoneIds: [], ...readPersistedSelection(options), ...update };
+
+  if (options.storage === 'hash') {
+    writeHash(key, state);
+  } else {
+    writeStorage(key, state);
+  }
+}
@@ -0,0 +1,247 @@
+import type { Bbox } from './spatialIndex';
+
+// Reader for PMTiles v3 archives: a header, then directories mapping Hilbert tile ids
+// to byte ranges. Only the ranges needed are read, over HTTP Range requests for URLs.
+
+export type TileCompression = 'none' | 'gzip' | 'brotli' | 'zstd';
+
+export type Decompress = (data: Uint8Array, compression: Exclude<TileCompression, 'none'>) => Promise<Uint8Array>;
+
+export interface PMTilesHeader {
+  rootDirectoryOffset: number;
+  rootDirectoryLength: number;
+  leafDirectoryOffset: number;
+  tileDataOffset: number;
+  internalCompression: TileCompression;
+  tileCompression: TileCompression;
+  tileType: 'mvt' | 'other';
+  minZoom: number;
+  maxZoom: number;
+  bounds: Bbox;
+}
+
+export interface PMTilesReader {
+  getHeader: () => Promise<PMTilesHeader>;
+  getTile: (z: number, x: number, y: number) => Promise<Uint8Array | null>; // Decompressed; null when absent
+}
+
+export class PMTilesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PMTilesError';
+  }
+}
+
+interface DirectoryEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number; // 0 for an entry pointing to a leaf directory
+}
+
+const HEADER_LENGTH = 127;
+// The spec keeps the header and root directory within the first 16 KiB
+const INITIAL_READ = 16384;
+const MAX_DIRECTORY_DEPTH = 3;
+
+const COMPRESSIONS: TileCompression[] = ['none', 'none', 'gzip', 'brotli', 'zstd'];
+
+// Browsers decompress gzip natively; pass `decompress` for brotli or zstd archives
+export const decompressGzip: Decompress = async (data, compression) => {
+  if (compression !== 'gzip') {
+    throw new PMTilesError(`Unsupported compression: ${compression}`);
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Hilbert curve index of a tile, after all tiles of lower zooms
+export function zxyToTileId(z: number, x: number, y: number): number {
+  let id = (4 ** z - 1) / 3;
+  let rx: number;
+  let ry: number;
+
+  for (let s = 2 ** (z - 1); s >= 1; s /= 2) {
+    rx = (x & s) > 0 ? 1 : 0;
+    ry = (y & s) > 0 ? 1 : 0;
+    id += s * s * ((3 * rx) ^ ry);
+    if (ry === 0) {
+      if (rx === 1) {
+        x = s - 1 - x;
+        y = s - 1 - y;
+      }
+      [x, y] = [y, x];
+    }
+  }
+  return id;
+}
+
+const readUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset + 4, true) * 2 ** 32 + view.getUint32(offset, true);
+
+const parseHeader = (bytes: Uint8Array): PMTilesHeader => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const magic = String.fromCharCode(...bytes.subarray(0, 7));
+  if (bytes.length < HEADER_LENGTH || magic !== 'PMTiles') {
+    throw new PMTilesError('Not a PMTiles archive');
+  }
+  if (bytes[7] !== 3) {
+    throw new PMTilesError(`Unsupported PMTiles version ${bytes[7]}`);
+  }
+
+  return {
+    rootDirectoryOffset: readUint64(view, 8),
+    rootDirectoryLength: readUint64(view, 16),
+    leafDirectoryOffset: readUint64(view, 40),
+    tileDataOffset: readUint64(view, 56),
+    internalCompression: COMPRESSIONS[bytes[97]] ?? 'none',
+    tileCompression: COMPRESSIONS[bytes[98]] ?? 'none',
+    tileType: bytes[99] === 1 ? 'mvt' : 'other',
+    minZoom: bytes[100],
+    maxZoom: bytes[101],
+    bounds: [
+      view.getInt32(102, true) / 1e7,
+      view.getInt32(106, true) / 1e7,
+      view.getInt32(110, true) / 1e7,
+      view.getInt32(114, true) / 1e7
+    ]
+  };
+};
+
+const parseDirectory = (bytes: Uint8Array): DirectoryEntry[] => {
+  let pos = 0;
+  const varint = () => {
+    let value = 0;
+    let factor = 1;
+    let byte: number;
+    do {
+      byte = bytes[pos++];
+      value += (byte & 0x7f) * factor;
+      factor *= 128;
+    } while (byte & 0x80);
+    return value;
+  };
+
+  // Column-oriented: all tile id deltas, then run lengths, lengths and offsets
+  const count = varint();
+  const entries: DirectoryEntry[] = [];
+  let tileId = 0;
+  for (let i = 0; i < count; i++) {
+    tileId += varint();
+    entries.push({ tileId, offset: 0, length: 0, runLength: 0 });
+  }
+  entries.forEach(entry => { entry.runLength = varint(); });
+  entries.forEach(entry => { entry.length = varint(); });
+  entries.forEach((entry, i) => {
+    // 0 means "right after the previous entry's data"
+    const value = varint();
+    entry.offset = value === 0 && i > 0 ? entries[i - 1].offset + entries[i - 1].length : value - 1;
+  });
+  return entries;
+};
+
+// Entry holding the tile, or the leaf directory that may hold it
+const findEntry = (entries: DirectoryEntry[], tileId: number): DirectoryEntry | null => {
+  let low = 0;
+  let high = entries.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (entries[middle].tileId <= tileId) low = middle + 1;
+    else high = middle - 1;
+  }
+
+  const entry = entries[high];
+  if (!entry) return null;
+  if (entry.runLength === 0) return entry;
+  return tileId < entry.tileId + entry.runLength ? entry : null;
+};
+
+type ReadRange = (offset: number, length: number) => Promise<Uint8Array>;
+
+const rangeReader = (source: string | Blob | ArrayBuffer): ReadRange => {
+  if (source instanceof ArrayBuffer) {
+    return async (offset, length) => new Uint8Array(source, offset, Math.min(length, source.byteLength - offset));
+  }
+  if (typeof source !== 'string') {
+    return async (offset, length) => new Uint8Array(await source.slice(offset, offset + length).arrayBuffer());
+  }
+
+  let whole: Promise<ArrayBuffer> | null = null;
+  return async (offset, length) => {
+    if (!whole) {
+      const response = await fetch(source, { headers: { Range: `bytes=${offset}-${offset + length - 1}` } });
+      if (!response.ok) {
+        throw new PMTilesError(`Failed to read ${source}: ${response.status}`);
+      }
+      if (response.status === 206) {
+        return new Uint8Array(await response.arrayBuffer());
+      }
+      // The server ignored the range and sent the whole archive: keep it for later reads
+      whole = response.arrayBuffer();
+    }
+    const buffer = await whole;
+    return new Uint8Array(buffer, offset, Math.min(length, buffer.byteLength - offset));
+  };
+};
+
+export function createPMTilesReader(
+  source: string | Blob | ArrayBuffer,
+  decompress: Decompress = decompressGzip
+): PMTilesReader {
+  const readRange = rangeReader(source);
+  const directories = new Map<number, Promise<DirectoryEntry[]>>();
+
+  const inflate = (data: Uint8Array, compression: TileCompression) =>
+    compression === 'none' ? Promise.resolve(data) : decompress(data, compression);
+
+  // Header and root directory in one read where the archive allows it, on first use
+  let start: Promise<PMTilesHeader> | null = null;
+  const getHeader = () => (start ??= readRange(0, INITIAL_READ).then(bytes => {
+    const header = parseHeader(bytes);
+    const rootEnd = header.rootDirectoryOffset + header.rootDirectoryLength;
+    const root = rootEnd <= bytes.length
+      ? Promise.resolve(bytes.subarray(header.rootDirectoryOffset, rootEnd))
+      : readRange(header.rootDirectoryOffset, header.rootDirectoryLength);
+    directories.set(
+      header.rootDirectoryOffset,
+      root.then(data => inflate(data, header.internalCompression)).then(parseDirectory)
+    );
+    return header;
+  }));
+
+  const readDirectory = (header: PMTilesHeader, offset: number, length: number) => {
+    let directory = directories.get(offset);
+    if (!directory) {
+      directory = readRange(offset, length)
+        .then(data => inflate(data, header.internalCompression))
+        .then(parseDirectory);
+      directories.set(offset, directory);
+    }
+    return directory;
+  };
+
+  return {
+    getHeader,
+    getTile: async (z, x, y) => {
+      const header = await getHeader();
+      if (z < header.minZoom || z > header.maxZoom) return null;
+
+      const tileId = zxyToTileId(z, x, y);
+      let offset = header.rootDirectoryOffset;
+      let length = header.rootDirectoryLength;
+
+      for (let depth = 0; depth <= MAX_DIRECTORY_DEPTH; depth++) {
+        const entry = findEntry(await readDirectory(header, offset, length), tileId);
+        if (!entry) return null;
+
+        if (entry.runLength > 0) {
+          const data = await readRange(header.tileDataOffset + entry.offset, entry.length);
+          return inflate(data, header.tileCompression);
+        }
+        offset = header.leafDirectoryOffset + entry.offset;
+        length = entry.length;
+      }
+      throw new PMTilesError('PMTiles directories nested too deeply');
+    }
+  };
+}
@@ -0,0 +1,150 @@
+import type { Zone, LatLng, LngLat, Ring, ZoneCrs } from '@/types';
+import { getZoneGeometry, getGeometryPolygons } from './geometry';
+
+type Projection = (x: number, y: number) => LngLat;
+
+const DEG = 180 / Math.PI;
+const RAD = Math.PI / 180;
+
+// WGS84 / GRS80 semi-major axis and eccentricity (the two differ by 0.1 mm)
+const WGS84_A = 6378137;
+const WGS84_E2 = 0.00669438002290;
+
+// EPSG:3857 Web Mercator, spherical
+const fromWebMercator: Projection = (x, y) => [
+  (x / WGS84_A) * DEG,
+  (2 * Math.atan(Math.exp(y / WGS84_A)) - Math.PI / 2) * DEG
+];
+
+// EPSG:2154 Lambert-93: Lambert conformal conic on RGF93, which matches WGS84 to well
+// under a metre, so no datum shift is applied
+const fromLambert93: Projection = (() => {
+  const e = Math.sqrt(WGS84_E2);
+  const m = (phi: number) => Math.cos(phi) / Math.sqrt(1 - WGS84_E2 * Math.sin(phi) ** 2);
+  const t = (phi: number) =>
+    Math.tan(Math.PI / 4 - phi / 2) / ((1 - e * Math.sin(phi)) / (1 + e * Math.sin(phi))) ** (e / 2);
+
+  const [phi1, phi2, phi0, lambda0] = [49 * RAD, 44 * RAD, 46.5 * RAD, 3 * RAD];
+  const n = (Math.log(m(phi1)) - Math.log(m(phi2))) / (Math.log(t(phi1)) - Math.log(t(phi2)));
+  const aF = (WGS84_A * m(phi1)) / (n * t(phi1) ** n);
+  const rho0 = aF * t(phi0) ** n;
+
+  return (x, y) => {
+    const dx = x - 700000;
+    const dy = rho0 - (y - 6600000);
+    const tp = (Math.hypot(dx, dy) / aF) ** (1 / n);
+
+    let phi = Math.PI / 2 - 2 * Math.atan(tp);
+    for (let i = 0; i < 10; i++) {
+      const next = Math.PI / 2 - 2 * Math.atan(tp * ((1 - e * Math.sin(phi)) / (1 + e * Math.sin(phi))) ** (e / 2));
+      if (Math.abs(next - phi) < 1e-12) break;
+      phi = next;
+    }
+
+    return [(Math.atan2(dx, dy) / n + lambda0) * DEG, phi * DEG];
+  };
+})();
+
+// EPSG:27700 British National Grid: transverse Mercator on Airy 1830 (OSGB36), followed
+// by the published Helmert shift to WGS84, good to a few metres
+const fromBritishNationalGrid: Projection = (() => {
+  const a = 6377563.396;
+  const b = 6356256.909;
+  const F0 = 0.9996012717;
+  const [phi0, lambda0, E0, N0] = [49 * RAD, -2 * RAD, 400000, -100000];
+  const e2 = 1 - (b * b) / (a * a);
+  const n = (a - b) / (a + b);
+
+  const meridionalArc = (phi: number) => b * F0 * (
+    (1 + n + (5 / 4) * n ** 2 + (5 / 4) * n ** 3) * (phi - phi0) -
+    (3 * n + 3 * n ** 2 + (21 / 8) * n ** 3) * Math.sin(phi - phi0) * Math.cos(phi + phi0) +
+    ((15 / 8) * n ** 2 + (15 / 8) * n ** 3) * Math.sin(2 * (phi - phi0)) * Math.cos(2 * (phi + phi0)) -
+    (35 / 24) * n ** 3 * Math.sin(3 * (phi - phi0)) * Math.cos(3 * (phi + phi0))
+  );
+
+  // OSGB36 -> WGS84 Helmert parameters: metres, ppm and arc-seconds
+  const [tx, ty, tz, s] = [446.448, -125.157, 542.060, -20.4894e-6];
+  const [rx, ry, rz] = [0.1502, 0.2470, 0.8421].map(seconds => (seconds / 3600) * RAD);
+
+  return (E, N) => {
+    let phi = phi0;
+    let M = 0;
+    do {
+      phi += (N - N0 - M) / (a * F0);
+      M = meridionalArc(phi);
+    } while (Math.abs(N - N0 - M) >= 1e-5);
+
+    const sinPhi = Math.sin(phi);
+    const nu = a * F0 / Math.sqrt(1 - e2 * sinPhi ** 2);
+    const rho = a * F0 * (1 - e2) / (1 - e2 * sinPhi ** 2) ** 1.5;
+    const eta2 = nu / rho - 1;
+    const tan = Math.tan(phi);
+    const sec = 1 / Math.cos(phi);
+    const dE = E - E0;
+
+    const VII = tan / (2 * rho * nu);
+    const VIII = tan / (24 * rho * nu ** 3) * (5 + 3 * tan ** 2 + eta2 - 9 * tan ** 2 * eta2);
+    const IX = tan / (720 * rho * nu ** 5) * (61 + 90 * tan ** 2 + 45 * tan ** 4);
+    const X = sec / nu;
+    const XI = sec / (6 * nu ** 3) * (nu / rho + 2 * tan ** 2);
+    const XII = sec / (120 * nu ** 5) * (5 + 28 * tan ** 2 + 24 * tan ** 4);
+    const XIIA = sec / (5040 * nu ** 7) * (61 + 662 * tan ** 2 + 1320 * tan ** 4 + 720 * tan ** 6);
+
+    const lat = phi - VII * dE ** 2 + VIII * dE ** 4 - IX * dE ** 6;
+    const lng = lambda0 + X * dE - XI * dE ** 3 + XII * dE ** 5 - XIIA * dE ** 7;
+
+    // OSGB36 geodetic -> cartesian, Helmert, cartesian -> WGS84 geodetic
+    const nuAiry = a / Math.sqrt(1 - e2 * Math.sin(lat) ** 2);
+    const x1 = nuAiry * Math.cos(lat) * Math.cos(lng);
+    const y1 = nuAiry * Math.cos(lat) * Math.sin(lng);
+    const z1 = nuAiry * (1 - e2) * Math.sin(lat);
+
+    const x2 = tx + (1 + s) * x1 - rz * y1 + ry * z1;
+    const y2 = ty + rz * x1 + (1 + s) * y1 - rx * z1;
+    const z2 = tz - ry * x1 + rx * y1 + (1 + s) * z1;
+
+    const p = Math.hypot(x2, y2);
+    let latWgs = Math.atan2(z2, p * (1 - WGS84_E2));
+    for (let i = 0; i < 10; i++) {
+      const nuWgs = WGS84_A / Math.sqrt(1 - WGS84_E2 * Math.sin(latWgs) ** 2);
+      const next = Math.atan2(z2 + WGS84_E2 * nuWgs * Math.sin(latWgs), p);
+      if (Math.abs(next - latWgs) < 1e-12) break;
+      latWgs = next;
+    }
+
+    return [Math.atan2(y2, x2) * DEG, latWgs * DEG];
+  };
+})();
+
+const PROJECTIONS: Record<ZoneCrs, Projection> = {
+  'EPSG:4326': (lng, lat) => [lng, lat],
+  'EPSG:3857': fromWebMercator,
+  'EPSG:2154': fromLambert93,
+  'EPSG:27700': fromBritishNationalGrid
+};
+
+export const isSupportedCrs = (crs: string): crs is ZoneCrs => crs in PROJECTIONS;
+
+export const toLatLng = ([lng, lat]: LngLat): LatLng => [lat, lng];
+
+export const toLngLat = ([lat, lng]: LatLng): LngLat => [lng, lat];
+
+// Projected [x, y] (easting, northing) to WGS84 [lng, lat]
+export function toWGS84(position: [number, number], crs: ZoneCrs): LngLat {
+  return PROJECTIONS[crs](position[0], position[1]);
+}
+
+export function reprojectZone(zone: Zone, crs: ZoneCrs): Zone {
+  if (crs === 'EPSG:4326') return zone;
+
+  const project = PROJECTIONS[crs];
+  const polygons = getGeometryPolygons(getZoneGeometry(zone)).map(rings =>
+    rings.map((ring): Ring => ring.map(([x, y]) => project(x, y)))
+  );
+
+  return { ...zone, coordinates: polygons.length === 1 ? polygons[0] : polygons };
+}
+
+export function reprojectZones(zones: Zone[], crs: ZoneCrs): Zone[] {
+  return crs === 'EPSG:4326' ? zones : zones.map(zone => reprojectZone(zone, crs));
+}
@@ -0,0 +1,318 @@
+import type { Zone } from '@/types';
+
+// Filter expressions over zone properties, e.g.
+//   population > 10000 AND postalCode STARTS WITH "75"
+//   NOT (type IN ("park", "cemetery") OR name CONTAINS "Bois")
+// `id` and `name` refer to the zone itself, any other field to Zone.properties.
+
+export type QueryValue = string | number | boolean | null;
+
+export type ComparisonOperator =
+  | '='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'contains'
+  | 'starts-with'
+  | 'ends-with';
+
+export type QueryExpression =
+  | { type: 'and' | 'or'; left: QueryExpression; right: QueryExpression }
+  | { type: 'not'; expression: QueryExpression }
+  | { type: 'comparison'; field: string; operator: ComparisonOperator; value: QueryValue }
+  | { type: 'in'; field: string; values: QueryValue[] };
+
+export class QueryParseError extends Error {
+  position: number; // Offset in the query string
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'QueryParseError';
+    this.position = position;
+  }
+}
+
+interface Token {
+  kind: 'identifier' | 'keyword' | 'string' | 'number' | 'operator' | 'punctuation' | 'end';
+  text: string;
+  value?: QueryValue;
+  position: number;
+}
+
+const KEYWORDS = new Set(['AND', 'OR', 'NOT', 'IN', 'CONTAINS', 'STARTS', 'ENDS', 'WITH', 'TRUE', 'FALSE', 'NULL']);
+
+const describeToken = (token: Token) => (token.kind === 'end' ? 'end of query' : `"${token.text}"`);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+
+    if (char === '"' || char === "'") {
+      let text = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        // Backslash escapes the next character, including the quote
+        if (source[index] === '\\' && index + 1 < source.length) index++;
+        text += source[index++];
+      }
+      if (index >= source.length) {
+        throw new QueryParseError('Unterminated string', start);
+      }
+      index++;
+      tokens.push({ kind: 'string', text: source.slice(start, index), value: text, position: start });
+      continue;
+    }
+
+    const number = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(source.slice(index));
+    if (number) {
+      index += number[0].length;
+      tokens.push({ kind: 'number', text: number[0], value: Number(number[0]), position: start });
+      continue;
+    }
+
+    const operator = /^(<=|>=|!=|<>|==|=|<|>)/.exec(source.slice(index));
+    if (operator) {
+      index += operator[0].length;
+      tokens.push({ kind: 'operator', text: operator[0], position: start });
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      index++;
+      tokens.push({ kind: 'punctuation', text: char, position: start });
+      continue;
+    }
+
+    // Letters of any script, so property names such as région or население need no quoting
+    const word = /^[\p{L}_][\p{L}\p{N}_.]*/u.exec(source.slice(index));
+    if (word) {
+      index += word[0].length;
+      const upper = word[0].toUpperCase();
+      tokens.push({ kind: KEYWORDS.has(upper) ? 'keyword' : 'identifier', text: word[0], position: start });
+      continue;
+    }
+
+    throw new QueryParseError(`Unexpected character "${char}"`, start);
+  }
+
+  tokens.push({ kind: 'end', text: '', position: source.length });
+  return tokens;
+};
+
+const OPERATORS: Record<string, ComparisonOperator> = {
+  '=': '=',
+  '==': '=',
+  '!=': '!=',
+  '<>': '!=',
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>='
+};
+
+// Recursive descent, lowest precedence first: OR, AND, NOT, comparison
+export function parseQuery(source: string): QueryExpression {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isKeyword = (word: string) => peek().kind === 'keyword' && peek().text.toUpperCase() === word;
+  const isPunctuation = (char: string) => peek().kind === 'punctuation' && peek().text === char;
+
+  const expectKeyword = (word: string) => {
+    if (!isKeyword(word)) {
+      throw new QueryParseError(`Expected ${word} but found ${describeToken(peek())}`, peek().position);
+    }
+    index++;
+  };
+
+  const expectPunctuation = (char: string) => {
+    if (!isPunctuation(char)) {
+      throw new QueryParseError(`Expected "${char}" but found ${describeToken(peek())}`, peek().position);
+    }
+    index++;
+  };
+
+  const parseValue = (after: string): QueryValue => {
+    const token = peek();
+    if (token.kind === 'string' || token.kind === 'number') {
+      index++;
+      return token.value!;
+    }
+    if (token.kind === 'keyword' && ['TRUE', 'FALSE', 'NULL'].includes(token.text.toUpperCase())) {
+      index++;
+      const upper = token.text.toUpperCase();
+      return upper === 'NULL' ? null : upper === 'TRUE';
+    }
+    throw new QueryParseError(`Expected a value after ${after} but found ${describeToken(token)}`, token.position);
+  };
+
+  const parseComparison = (): QueryExpression => {
+    const fieldToken = peek();
+    if (fieldToken.kind !== 'identifier') {
+      throw new QueryParseError(`Expected a property name but found ${describeToken(fieldToken)}`, fieldToken.position);
+    }
+    index++;
+    const field = fieldToken.text;
+    const token = peek();
+
+    if (token.kind === 'operator') {
+      index++;
+      return { type: 'comparison', field, operator: OPERATORS[token.text], value: parseValue(`"${token.text}"`) };
+    }
+
+    if (isKeyword('CONTAINS')) {
+      index++;
+      return { type: 'comparison', field, operator: 'contains', value: parseValue('CONTAINS') };
+    }
+
+    if (isKeyword('STARTS') || isKeyword('ENDS')) {
+      const operator = isKeyword('STARTS') ? 'starts-with' : 'ends-with';
+      const word = peek().text.toUpperCase();
+      index++;
+      expectKeyword('WITH');
+      return { type: 'comparison', field, operator, value: parseValue(`${word} WITH`) };
+    }
+
+    if (isKeyword('IN')) {
+      index++;
+      expectPunctuation('(');
+      const values = [parseValue('IN (')];
+      while (isPunctuation(',')) {
+        index++;
+        values.push(parseValue('","'));
+      }
+      expectPunctuation(')');
+      return { type: 'in', field, values };
+    }
+
+    throw new QueryParseError(`Expected an operator after "${field}" but found ${describeToken(token)}`, token.position);
+  };
+
+  const parseUnary = (): QueryExpression => {
+    if (isKeyword('NOT')) {
+      index++;
+      return { type: 'not', expression: parseUnary() };
+    }
+    if (isPunctuation('(')) {
+      index++;
+      const expression = parseOr();
+      expectPunctuation(')');
+      return expression;
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): QueryExpression => {
+    let left = parseUnary();
+    while (isKeyword('AND')) {
+      index++;
+      left = { type: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseOr = (): QueryExpression => {
+    let left = parseAnd();
+    while (isKeyword('OR')) {
+      index++;
+      left = { type: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  if (peek().kind === 'end') {
+    throw new QueryParseError('Query is empty', 0);
+  }
+
+  const expression = parseOr();
+  if (peek().kind !== 'end') {
+    throw new QueryParseError(`Unexpected ${describeToken(peek())}`, peek().position);
+  }
+  return expression;
+}
+
+const readField = (zone: Zone, field: string): unknown => {
+  if (zone.properties && field in zone.properties) return zone.properties[field];
+  if (field === 'id') return zone.id;
+  if (field === 'name') return zone.name;
+  return undefined;
+};
+
+// Numeric strings such as INSEE codes compare as numbers against numeric literals
+const toNumber = (value: unknown) => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+};
+
+const equals = (actual: unknown, expected: QueryValue) => {
+  if (expected === null) return actual === null || actual === undefined;
+  if (typeof expected === 'number') return toNumber(actual) === expected;
+  return actual === expected;
+};
+
+const compare = (actual: unknown, operator: ComparisonOperator, expected: QueryValue): boolean => {
+  switch (operator) {
+    case '=':
+      return equals(actual, expected);
+    case '!=':
+      return !equals(actual, expected);
+    case 'contains':
+    case 'starts-with':
+    case 'ends-with': {
+      if (actual === null || actual === undefined || expected === null) return false;
+      const text = String(actual).toLowerCase();
+      const search = String(expected).toLowerCase();
+      if (operator === 'contains') return text.includes(search);
+      return operator === 'starts-with' ? text.startsWith(search) : text.endsWith(search);
+    }
+    default: {
+      // Ordering compares numbers with numbers and strings with strings, anything else is false
+      const a = typeof expected === 'number' ? toNumber(actual) : actual;
+      if (a === null || expected === null || typeof a !== typeof expected) return false;
+      const [left, right] = [a as number | string, expected as number | string];
+      if (operator === '<') return left < right;
+      if (operator === '<=') return left <= right;
+      if (operator === '>') return left > right;
+      return left >= right;
+    }
+  }
+};
+
+export function evaluateQuery(expression: QueryExpression, zone: Zone): boolean {
+  switch (expression.type) {
+    case 'and':
+      return evaluateQuery(expression.left, zone) && evaluateQuery(expression.right, zone);
+    case 'or':
+      return evaluateQuery(expression.left, zone) || evaluateQuery(expression.right, zone);
+    case 'not':
+      return !evaluateQuery(expression.expression, zone);
+    case 'in':
+      return expression.values.some(value => equals(readField(zone, expression.field), value));
+    case 'comparison':
+      return compare(readField(zone, expression.field), expression.operator, expression.value);
+  }
+}
+
+// Parse once, then test zones against the expression. Throws QueryParseError.
+export function compileQuery(source: string): (zone: Zone) => boolean {
+  const expression = parseQuery(source);
+  return zone => evaluateQuery(expression, zone);
+}
+
+export function queryZones(zones: Zone[], source: string): Zone[] {
+  return zones.filter(compileQuery(source));
+}
@@ -0,0 +1,48 @@
+import { simplify } from '@turf/turf';
+import type { Zone, ZoneGeometry } from '@/types';
+import { getZoneGeometry, getGeometryPolygons } from './geometry';
+
+// Web Mercator tiles are 256px wide and cover 360° at zoom 0
+const TILE_SIZE = 256;
+
+// Simplified zones are cached per zone object, then per zoom level and tolerance
+const simplifiedCache = new WeakMap<Zone, Map<string, Zone>>();
+
+// Degrees covered by one screen pixel at a zoom level, at the equator
+export const degreesPerPixel = (zoom: number) => 360 / (TILE_SIZE * 2 ** zoom);
+
+// Render-only copy of a zone with vertices closer than `pixelTolerance` screen pixels
+// dropped. Zoom is rounded so fractional zooms share an entry; the original zone stays
+// the one used for selection, metrics and export.
+export function simplifyZoneForZoom(zone: Zone, zoom: number, pixelTolerance = 1): Zone {
+  if (pixelTolerance <= 0) return zone;
+
+  const level = Math.round(zoom);
+  const key = `${level}|${pixelTolerance}`;
+  const cached = simplifiedCache.get(zone)?.get(key);
+  if (cached) return cached;
+
+  const geometry = getZoneGeometry(zone);
+  let result = zone;
+
+  if (getGeometryPolygons(geometry).some(rings => rings.length > 0)) {
+    const simplified = simplify(geometry, {
+      tolerance: pixelTolerance * degreesPerPixel(level),
+      highQuality: false,
+      mutate: false
+    }) as ZoneGeometry;
+    const polygons = getGeometryPolygons(simplified);
+    const before = getGeometryPolygons(geometry).flat(2).length;
+    const after = polygons.flat(2).length;
+
+    if (after < before) {
+      result = { ...zone, coordinates: polygons.length === 1 ? polygons[0] : polygons };
+    }
+  }
+
+  const byKey = simplifiedCache.get(zone) ?? new Map<string, Zone>();
+  byKey.set(key, result);
+  simplifiedCache.set(zone, byKey);
+
+  return result;
+}
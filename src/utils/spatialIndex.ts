@@ -0,0 +1,140 @@
+import { booleanPointInPolygon } from '@turf/turf';
+import type { Zone, LatLng, LngLat } from '@/types';
+import { getZoneGeometry, getZonePolygons } from './geometry';
+
+// [west, south, east, north] in degrees
+export type Bbox = [number, number, number, number];
+
+export interface SpatialIndex {
+  size: number; // Indexed zones, i.e. those with coordinates
+  search: (bbox: Bbox) => Zone[]; // Zones whose bounding box overlaps, in input order
+  zoneAt: (point: LatLng) => Zone | undefined; // Topmost zone containing the point
+}
+
+interface IndexNode {
+  bbox: Bbox;
+  children?: IndexNode[];
+  index?: number; // Position in the zones array, on leaf entries only
+}
+
+// Entries per node: wide enough to keep the tree shallow, small enough for cheap scans
+const NODE_SIZE = 16;
+
+// Indexes are cached per zones array, like adjacency graphs
+const indexCache = new WeakMap<Zone[], SpatialIndex>();
+
+// Plain loops: this runs over every vertex when indexing tens of thousands of zones
+const extendBbox = (bbox: Bbox, positions: LngLat[]) => {
+  for (let i = 0; i < positions.length; i++) {
+    const lng = positions[i][0];
+    const lat = positions[i][1];
+    if (lng < bbox[0]) bbox[0] = lng;
+    if (lat < bbox[1]) bbox[1] = lat;
+    if (lng > bbox[2]) bbox[2] = lng;
+    if (lat > bbox[3]) bbox[3] = lat;
+  }
+  return bbox;
+};
+
+export const positionsBbox = (positions: LngLat[]): Bbox =>
+  extendBbox([Infinity, Infinity, -Infinity, -Infinity], positions);
+
+// Holes lie inside their outer ring, so outer rings alone give the zone's box
+const zoneBbox = (zone: Zone): Bbox | null => {
+  const bbox: Bbox = [Infinity, Infinity, -Infinity, -Infinity];
+  getZonePolygons(zone).forEach(([outer]) => outer && extendBbox(bbox, outer));
+  return bbox[0] <= bbox[2] ? bbox : null;
+};
+
+export const bboxesOverlap = (a: Bbox, b: Bbox) => a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+
+const unionBbox = (nodes: IndexNode[]): Bbox => {
+  const bbox: Bbox = [Infinity, Infinity, -Infinity, -Infinity];
+  nodes.forEach(node => {
+    bbox[0] = Math.min(bbox[0], node.bbox[0]);
+    bbox[1] = Math.min(bbox[1], node.bbox[1]);
+    bbox[2] = Math.max(bbox[2], node.bbox[2]);
+    bbox[3] = Math.max(bbox[3], node.bbox[3]);
+  });
+  return bbox;
+};
+
+const centerX = (node: IndexNode) => node.bbox[0] + node.bbox[2];
+const centerY = (node: IndexNode) => node.bbox[1] + node.bbox[3];
+
+// One level of Sort-Tile-Recursive packing: vertical slices by x, then runs of
+// NODE_SIZE by y within each slice, so sibling boxes overlap as little as possible
+const packLevel = (nodes: IndexNode[]): IndexNode[] => {
+  const parentCount = Math.ceil(nodes.length / NODE_SIZE);
+  const sliceSize = Math.ceil(Math.sqrt(parentCount)) * NODE_SIZE;
+  const sorted = [...nodes].sort((a, b) => centerX(a) - centerX(b));
+  const parents: IndexNode[] = [];
+
+  for (let start = 0; start < sorted.length; start += sliceSize) {
+    const slice = sorted.slice(start, start + sliceSize).sort((a, b) => centerY(a) - centerY(b));
+    for (let offset = 0; offset < slice.length; offset += NODE_SIZE) {
+      const children = slice.slice(offset, offset + NODE_SIZE);
+      parents.push({ bbox: unionBbox(children), children });
+    }
+  }
+  return parents;
+};
+
+const buildTree = (entries: IndexNode[]): IndexNode | null => {
+  if (entries.length === 0) return null;
+
+  let level = entries;
+  do {
+    level = packLevel(level);
+  } while (level.length > 1);
+  return level[0];
+};
+
+// Static R-tree over zone bounding boxes, built in one pass. Zones are never
+// mutated in place, so a new zones array gets a new index.
+export function createSpatialIndex(zones: Zone[]): SpatialIndex {
+  const entries: IndexNode[] = [];
+  zones.forEach((zone, index) => {
+    const bbox = zoneBbox(zone);
+    if (bbox) entries.push({ bbox, index });
+  });
+  const root = buildTree(entries);
+
+  const searchIndexes = (bbox: Bbox): number[] => {
+    const found: number[] = [];
+    const stack = root && bboxesOverlap(root.bbox, bbox) ? [root] : [];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      node.children?.forEach(child => {
+        if (!bboxesOverlap(child.bbox, bbox)) return;
+        if (child.index === undefined) stack.push(child);
+        else found.push(child.index);
+      });
+    }
+    return found.sort((a, b) => a - b);
+  };
+
+  return {
+    size: entries.length,
+    search: bbox => searchIndexes(bbox).map(index => zones[index]),
+    zoneAt: ([lat, lng]) => {
+      // Later zones are drawn above earlier ones, so the last hit is the one under the cursor
+      const candidates = searchIndexes([lng, lat, lng, lat]);
+      for (let i = candidates.length - 1; i >= 0; i--) {
+        const zone = zones[candidates[i]];
+        if (booleanPointInPolygon([lng, lat], getZoneGeometry(zone))) return zone;
+      }
+      return undefined;
+    }
+  };
+}
+
+export function getSpatialIndex(zones: Zone[]): SpatialIndex {
+  let index = indexCache.get(zones);
+  if (!index) {
+    index = createSpatialIndex(zones);
+    indexCache.set(zones, index);
+  }
+  return index;
+}
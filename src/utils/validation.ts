@@ -0,0 +1,180 @@
+import { kinks, polygon } from '@turf/turf';
+import type { Zone, Ring, PolygonCoordinates, ZoneCoordinates } from '@/types';
+import { getZonePolygons } from './geometry';
+
+export type GeometryIssueType =
+  | 'empty-geometry'
+  | 'invalid-coordinates'
+  | 'swapped-coordinates'
+  | 'duplicate-vertices'
+  | 'unclosed-ring'
+  | 'degenerate-ring'
+  | 'winding-order'
+  | 'self-intersection';
+
+export interface GeometryIssue {
+  zoneId: string;
+  type: GeometryIssueType;
+  message: string;
+  repaired: boolean;
+}
+
+export interface ValidationOptions {
+  repair?: boolean; // Fix what can be fixed without guessing; otherwise only report
+  checkSelfIntersections?: boolean; // Quadratic per ring, can be skipped for large trusted datasets
+}
+
+export interface ValidationResult {
+  zones: Zone[]; // Repaired zones; zones left without any geometry are dropped
+  issues: GeometryIssue[];
+}
+
+// Raised through onError for issues that could not be repaired
+export class ZoneValidationError extends Error {
+  issues: GeometryIssue[];
+  zoneIds: string[];
+
+  constructor(issues: GeometryIssue[]) {
+    const zoneIds = Array.from(new Set(issues.map(issue => issue.zoneId)));
+    super(`Invalid geometry in ${zoneIds.length} zone(s): ${zoneIds.join(', ')}`);
+    this.name = 'ZoneValidationError';
+    this.issues = issues;
+    this.zoneIds = zoneIds;
+  }
+}
+
+const samePosition = (a: Ring[number], b: Ring[number]) => a[0] === b[0] && a[1] === b[1];
+
+// Shoelace sum; positive means counter-clockwise
+const signedArea = (ring: Ring) => {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return sum / 2;
+};
+
+interface ZoneValidation {
+  zone: Zone | null;
+  issues: GeometryIssue[];
+}
+
+const checkZone = (zone: Zone, repair: boolean, checkSelfIntersections: boolean): ZoneValidation => {
+  const issues: GeometryIssue[] = [];
+  const report = (type: GeometryIssueType, message: string, repairable: boolean) => {
+    issues.push({ zoneId: zone.id, type, message, repaired: repair && repairable });
+  };
+
+  let polygons = getZonePolygons(zone).filter(rings => rings.length > 0);
+  const positions = polygons.flat(2);
+
+  if (positions.length === 0) {
+    report('empty-geometry', 'Zone has no coordinates', false);
+    return { zone: repair ? null : zone, issues };
+  }
+
+  if (positions.some(([lng, lat]) => !Number.isFinite(lng) || !Number.isFinite(lat))) {
+    report('invalid-coordinates', 'Zone contains non-numeric coordinates', false);
+    return { zone: repair ? null : zone, issues };
+  }
+
+  // A latitude beyond ±90 with a longitude that fits is unambiguous: the axes are swapped
+  const outOfRange = positions.filter(([lng, lat]) => Math.abs(lat) > 90 || Math.abs(lng) > 180);
+  if (outOfRange.length > 0) {
+    const swappable = positions.every(([lng, lat]) => Math.abs(lng) <= 90 && Math.abs(lat) <= 180);
+    if (swappable) {
+      report('swapped-coordinates', 'Coordinates look like [lat, lng]; expected [lng, lat]', true);
+      if (repair) {
+        polygons = polygons.map(rings => rings.map(ring => ring.map(([lng, lat]): Ring[number] => [lat, lng])));
+      }
+    } else {
+      report('invalid-coordinates', `${outOfRange.length} position(s) outside WGS84 bounds`, false);
+      return { zone: repair ? null : zone, issues };
+    }
+  }
+
+  const repairedPolygons: PolygonCoordinates[] = [];
+
+  polygons.forEach((rings, polygonIndex) => {
+    const repairedRings: Ring[] = [];
+
+    for (let ringIndex = 0; ringIndex < rings.length; ringIndex++) {
+      const original = rings[ringIndex];
+      const label = `ring ${ringIndex} of polygon ${polygonIndex}`;
+      let ring = original.filter((position, index) => index === 0 || !samePosition(position, original[index - 1]));
+
+      if (ring.length < original.length) {
+        report('duplicate-vertices', `Removed ${original.length - ring.length} duplicate vertices from ${label}`, true);
+      }
+
+      if (ring.length > 0 && !samePosition(ring[0], ring[ring.length - 1])) {
+        report('unclosed-ring', `Closed ${label}`, true);
+        ring = [...ring, ring[0]];
+      }
+
+      if (ring.length < 4) {
+        // A hole can be dropped harmlessly; an outer ring takes its polygon with it
+        report('degenerate-ring', `Dropped ${label}: fewer than three distinct vertices`, ringIndex > 0);
+        if (ringIndex === 0) return;
+        continue;
+      }
+
+      // RFC 7946: exterior rings counter-clockwise, holes clockwise
+      const clockwise = signedArea(ring) < 0;
+      if (clockwise !== (ringIndex > 0)) {
+        report('winding-order', `Rewound ${label}`, true);
+        ring = [...ring].reverse();
+      }
+
+      repairedRings.push(ring);
+    }
+
+    if (checkSelfIntersections && kinks(polygon(repairedRings)).features.length > 0) {
+      report('self-intersection', `Polygon ${polygonIndex} intersects itself`, false);
+    }
+
+    repairedPolygons.push(repairedRings);
+  });
+
+  if (repairedPolygons.length === 0) {
+    report('empty-geometry', 'No valid polygon left after validation', false);
+    return { zone: repair ? null : zone, issues };
+  }
+
+  if (!repair || issues.every(issue => !issue.repaired)) {
+    return { zone, issues };
+  }
+
+  const coordinates: ZoneCoordinates = repairedPolygons.length === 1 ? repairedPolygons[0] : repairedPolygons;
+  return { zone: { ...zone, coordinates }, issues };
+};
+
+// Results are cached per zone object, then per options: zone sets are revalidated whenever
+// they change, e.g. on every vector tile load, but most of their zones are the same objects
+const validationCache = new WeakMap<Zone, Map<string, ZoneValidation>>();
+
+export function validateZone(zone: Zone, options: ValidationOptions = {}): ZoneValidation {
+  const { repair = true, checkSelfIntersections = true } = options;
+  const cacheKey = `${repair}|${checkSelfIntersections}`;
+
+  const cached = validationCache.get(zone)?.get(cacheKey);
+  if (cached) return cached;
+
+  const result = checkZone(zone, repair, checkSelfIntersections);
+  const byOptions = validationCache.get(zone) ?? new Map<string, ZoneValidation>();
+  byOptions.set(cacheKey, result);
+  validationCache.set(zone, byOptions);
+  return result;
+}
+
+export function validateZones(zones: Zone[], options: ValidationOptions = {}): ValidationResult {
+  const result: ValidationResult = { zones: [], issues: [] };
+
+  zones.forEach(zone => {
+    const { zone: validated, issues } = validateZone(zone, options);
+    if (validated) result.zones.push(validated);
+    result.issues.push(...issues);
+  });
+
+  return result;
+}
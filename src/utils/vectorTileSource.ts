@@ -0,0 +1,266 @@
+import { featureCollection, polygon, union } from '@turf/turf';
+import type { Zone, PolygonCoordinates } from '@/types';
+import type { Bbox } from './spatialIndex';
+import { createPMTilesReader, decompressGzip } from './pmtiles';
+import type { Decompress, PMTilesReader } from './pmtiles';
+import { decodeVectorTile, featureToPolygons, tilesInBbox, POLYGON_FEATURE } from './vectorTiles';
+import type { TileCoordinates } from './vectorTiles';
+
+export interface VectorTileSourceOptions {
+  url?: string; // Template such as https://tiles.example.com/communes/{z}/{x}/{y}.pbf
+  pmtiles?: string | Blob | ArrayBuffer; // Archive URL or file, instead of `url`
+  layer: string; // Source layer holding the zones
+  idProperty?: string; // Stable zone id; defaults to the feature id
+  nameProperty?: string; // Defaults to 'name', then the id
+  minZoom?: number; // Below it no zones are loaded; defaults to the archive's, or 0
+  maxZoom?: number; // Tiles are over-zoomed above it; defaults to the archive's, or 14
+  maxCachedTiles?: number;
+  // Full zone geometry, e.g. from an API. Without it, zones are completed from neighbouring tiles.
+  fetchZone?: (id: string) => Promise<Zone>;
+  decompress?: Decompress;
+}
+
+export interface VectorTileSource {
+  // Zones with a part in the box, assembled from every tile loaded so far
+  loadZones: (bbox: Bbox, zoom: number) => Promise<Zone[]>;
+  // Whether a zone may be missing parts that lie in tiles not loaded yet
+  isComplete: (zone: Zone) => boolean;
+  // Same zones with their full geometry
+  resolveZones: (zones: Zone[]) => Promise<Zone[]>;
+}
+
+interface Fragment {
+  properties: Record<string, string | number | boolean>;
+  polygons: PolygonCoordinates[];
+  neighbours: string[]; // Keys of the tiles it runs into
+}
+
+type TileContent = Map<string, Fragment>; // By zone id
+
+// Tiles fetched when completing a zone from its neighbours, per zone
+const MAX_COMPLETION_TILES = 64;
+
+const tileKey = ({ z, x, y }: TileCoordinates) => `${z}/${x}/${y}`;
+
+const parseTileKey = (key: string): TileCoordinates => {
+  const [z, x, y] = key.split('/').map(Number);
+  return { z, x, y };
+};
+
+// Tiles a fragment touches beyond its own, judging from where it meets the tile edge
+const neighbourKeys = ({ z, x, y }: TileCoordinates, rings: [number, number][][], extent: number) => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  rings.forEach(ring => ring.forEach(([px, py]) => {
+    minX = Math.min(minX, px);
+    minY = Math.min(minY, py);
+    maxX = Math.max(maxX, px);
+    maxY = Math.max(maxY, py);
+  }));
+
+  const count = 2 ** z;
+  const columns = [minX <= 0 ? -1 : 0, 0, maxX >= extent ? 1 : 0];
+  const rows = [minY <= 0 ? -1 : 0, 0, maxY >= extent ? 1 : 0];
+  const keys = new Set<string>();
+  columns.forEach(dx => rows.forEach(dy => {
+    const row = y + dy;
+    if ((dx !== 0 || dy !== 0) && row >= 0 && row < count) {
+      keys.add(tileKey({ z, x: (x + dx + count) % count, y: row }));
+    }
+  }));
+  return [...keys];
+};
+
+const readTile = async (
+  fetchTile: (tile: TileCoordinates) => Promise<Uint8Array | null>,
+  tile: TileCoordinates,
+  options: VectorTileSourceOptions
+): Promise<TileContent> => {
+  const content: TileContent = new Map();
+  const bytes = await fetchTile(tile);
+  const layer = bytes && decodeVectorTile(bytes).find(({ name }) => name === options.layer);
+  if (!layer) return content;
+
+  layer.features.forEach(feature => {
+    const rawId = options.idProperty ? feature.properties[options.idProperty] : feature.id;
+    if (feature.type !== POLYGON_FEATURE || rawId === undefined) return;
+
+    const id = String(rawId);
+    const polygons = featureToPolygons(feature, tile, layer.extent);
+    const neighbours = neighbourKeys(tile, feature.rings, layer.extent);
+    const existing = content.get(id);
+    if (existing) {
+      existing.polygons.push(...polygons);
+      existing.neighbours = [...new Set([...existing.neighbours, ...neighbours])];
+    } else {
+      content.set(id, { properties: feature.properties, polygons, neighbours });
+    }
+  });
+  return content;
+};
+
+// Pieces of one zone cut along tile edges, merged back into a single geometry
+const mergeFragments = (polygons: PolygonCoordinates[]): PolygonCoordinates[] => {
+  if (polygons.length < 2) return polygons;
+  const merged = union(featureCollection(polygons.map(coordinates => polygon(coordinates))));
+  if (!merged) return polygons;
+  return merged.geometry.type === 'Polygon'
+    ? [merged.geometry.coordinates as PolygonCoordinates]
+    : (merged.geometry.coordinates as PolygonCoordinates[]);
+};
+
+// Zones served as Mapbox Vector Tiles, from a URL template or a PMTiles archive.
+// Zones are identified by a stable id, so a zone cut across several tiles comes
+// back as one Zone, and the same object while its tiles don't change.
+export function createVectorTileSource(options: VectorTileSourceOptions): VectorTileSource {
+  const { url, pmtiles, nameProperty = 'name', maxCachedTiles = 256, fetchZone, decompress = decompressGzip } = options;
+  if (!url && !pmtiles) {
+    throw new Error('A vector tile source needs a url template or a pmtiles archive');
+  }
+
+  const archive: PMTilesReader | null = pmtiles ? createPMTilesReader(pmtiles, decompress) : null;
+
+  const fetchTile = async ({ z, x, y }: TileCoordinates): Promise<Uint8Array | null> => {
+    if (archive) return archive.getTile(z, x, y);
+
+    const response = await fetch(url!.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y)));
+    if (response.status === 204 || response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to load tile ${z}/${x}/${y}: ${response.status}`);
+    }
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    // Tile servers often send gzipped tiles without a Content-Encoding header
+    return bytes[0] === 0x1f && bytes[1] === 0x8b ? decompress(bytes, 'gzip') : bytes;
+  };
+
+  let zoomRange: Promise<{ min: number; max: number }> | null = null;
+  const getZoomRange = () => (zoomRange ??= (async () => {
+    const header = archive ? await archive.getHeader() : null;
+    return {
+      min: options.minZoom ?? header?.minZoom ?? 0,
+      max: options.maxZoom ?? header?.maxZoom ?? 14
+    };
+  })());
+
+  // Loaded tiles in least recently used order, and which tiles hold each zone
+  const tiles = new Map<string, Promise<TileContent>>();
+  const loaded = new Map<string, TileContent>();
+  const tilesByZone = new Map<string, Set<string>>();
+  const assembled = new Map<string, Zone>();
+  const incomplete = new WeakSet<Zone>();
+  const resolved = new Map<string, Zone>(); // Full zones from fetchZone or completion
+
+  const forget = (key: string) => {
+    loaded.get(key)?.forEach((_fragment, id) => {
+      tilesByZone.get(id)?.delete(key);
+      assembled.delete(id);
+    });
+    loaded.delete(key);
+    tiles.delete(key);
+  };
+
+  const loadTile = (tile: TileCoordinates) => {
+    const key = tileKey(tile);
+    let pending = tiles.get(key);
+    if (pending) {
+      tiles.delete(key);
+      tiles.set(key, pending);
+      return pending;
+    }
+
+    pending = readTile(fetchTile, tile, options).then(content => {
+      if (tiles.get(key) !== pending) return content; // Evicted while loading
+      loaded.set(key, content);
+      content.forEach((_fragment, id) => {
+        if (!tilesByZone.has(id)) tilesByZone.set(id, new Set());
+        tilesByZone.get(id)!.add(key);
+        assembled.delete(id);
+      });
+      return content;
+    });
+    // A failed tile is fetched again next time
+    pending.catch(() => {
+      if (tiles.get(key) === pending) tiles.delete(key);
+    });
+    tiles.set(key, pending);
+
+    while (tiles.size > maxCachedTiles) {
+      forget(tiles.keys().next().value!);
+    }
+    return pending;
+  };
+
+  const fragmentsOf = (id: string) => [...(tilesByZone.get(id) ?? [])]
+    .map(key => loaded.get(key)?.get(id))
+    .filter((fragment): fragment is Fragment => fragment !== undefined);
+
+  const missingTiles = (id: string) => [...new Set(fragmentsOf(id).flatMap(fragment => fragment.neighbours))]
+    .filter(key => !loaded.has(key));
+
+  const assemble = (id: string): Zone | undefined => {
+    const full = resolved.get(id);
+    if (full) return full;
+
+    let zone = assembled.get(id);
+    if (zone) {
+      // Neighbouring tiles loaded since may hold nothing more of the zone
+      if (incomplete.has(zone) && missingTiles(id).length === 0) incomplete.delete(zone);
+      return zone;
+    }
+
+    const fragments = fragmentsOf(id);
+    if (fragments.length === 0) return undefined;
+
+    const { properties } = fragments[0];
+    const polygons = mergeFragments(fragments.flatMap(fragment => fragment.polygons));
+    zone = {
+      id,
+      name: String(properties[nameProperty] ?? id),
+      coordinates: polygons.length === 1 ? polygons[0] : polygons,
+      properties
+    };
+    if (missingTiles(id).length > 0) {
+      incomplete.add(zone);
+    }
+    assembled.set(id, zone);
+    return zone;
+  };
+
+  // Load the tiles a zone runs into until none are missing
+  const complete = async (zone: Zone): Promise<Zone> => {
+    let fetched = 0;
+    let current = assemble(zone.id) ?? zone;
+    while (incomplete.has(current) && fetched < MAX_COMPLETION_TILES) {
+      const missing = missingTiles(zone.id).slice(0, MAX_COMPLETION_TILES - fetched);
+      if (missing.length === 0) break;
+
+      fetched += missing.length;
+      await Promise.all(missing.map(key => loadTile(parseTileKey(key))));
+      current = assemble(zone.id) ?? current;
+    }
+    return current;
+  };
+
+  return {
+    loadZones: async (bbox, zoom) => {
+      const { min, max } = await getZoomRange();
+      if (zoom < min) return [];
+
+      const contents = await Promise.all(tilesInBbox(bbox, Math.min(Math.floor(zoom), max)).map(loadTile));
+      const ids = new Set(contents.flatMap(content => [...content.keys()]));
+      return [...ids].map(assemble).filter((zone): zone is Zone => zone !== undefined);
+    },
+
+    isComplete: zone => !incomplete.has(zone),
+
+    resolveZones: zones => Promise.all(zones.map(async zone => {
+      if (!incomplete.has(zone) || resolved.has(zone.id)) return resolved.get(zone.id) ?? zone;
+
+      const full = fetchZone ? await fetchZone(zone.id) : await complete(zone);
+      if (!incomplete.has(full)) resolved.set(zone.id, full);
+      return full;
+    }))
+  };
+}
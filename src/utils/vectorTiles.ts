@@ -0,0 +1,251 @@
+import type { LngLat, PolygonCoordinates, Ring } from '@/types';
+import type { Bbox } from './spatialIndex';
+
+// Mapbox Vector Tile decoding (spec 2.1), limited to what zones need: polygon
+// features with their id and properties.
+
+export interface TileCoordinates {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface VectorTileFeature {
+  id?: number;
+  type: number; // 1 point, 2 line, 3 polygon
+  properties: Record<string, string | number | boolean>;
+  rings: [number, number][][]; // Tile coordinates, each ring closed
+}
+
+export interface VectorTileLayer {
+  name: string;
+  extent: number;
+  features: VectorTileFeature[];
+}
+
+export const POLYGON_FEATURE = 3;
+
+interface Reader {
+  bytes: Uint8Array;
+  pos: number;
+}
+
+// Protobuf wire types
+const VARINT = 0;
+const FIXED64 = 1;
+const BYTES = 2;
+const FIXED32 = 5;
+
+// Created on first use, so importing the module needs no TextDecoder
+let decoder: TextDecoder | undefined;
+const decodeText = (bytes: Uint8Array) => (decoder ??= new TextDecoder()).decode(bytes);
+
+// Multiplication rather than bit shifts, which would truncate ids beyond 32 bits
+const readVarint = (reader: Reader) => {
+  let value = 0;
+  let factor = 1;
+  let byte: number;
+  do {
+    byte = reader.bytes[reader.pos++];
+    value += (byte & 0x7f) * factor;
+    factor *= 128;
+  } while (byte & 0x80);
+  return value;
+};
+
+const zigzag = (value: number) => (value % 2 === 1 ? -(value + 1) / 2 : value / 2);
+
+const readBytes = (reader: Reader) => {
+  const length = readVarint(reader);
+  const bytes = reader.bytes.subarray(reader.pos, reader.pos + length);
+  reader.pos += length;
+  return bytes;
+};
+
+const readPacked = (reader: Reader) => {
+  const packed: Reader = { bytes: readBytes(reader), pos: 0 };
+  const values: number[] = [];
+  while (packed.pos < packed.bytes.length) values.push(readVarint(packed));
+  return values;
+};
+
+const skip = (reader: Reader, wireType: number) => {
+  if (wireType === VARINT) readVarint(reader);
+  else if (wireType === FIXED64) reader.pos += 8;
+  else if (wireType === BYTES) reader.pos += readVarint(reader);
+  else if (wireType === FIXED32) reader.pos += 4;
+  else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+};
+
+// Calls `read` with each field number until the end of the message
+const readFields = (bytes: Uint8Array, read: (field: number, wireType: number, reader: Reader) => boolean) => {
+  const reader: Reader = { bytes, pos: 0 };
+  while (reader.pos < bytes.length) {
+    const key = readVarint(reader);
+    if (!read(key >> 3, key & 7, reader)) skip(reader, key & 7);
+  }
+};
+
+const readFloat = (reader: Reader, size: 4 | 8) => {
+  const view = new DataView(reader.bytes.buffer, reader.bytes.byteOffset + reader.pos, size);
+  reader.pos += size;
+  return size === 4 ? view.getFloat32(0, true) : view.getFloat64(0, true);
+};
+
+const readValue = (bytes: Uint8Array): string | number | boolean | undefined => {
+  let value: string | number | boolean | undefined;
+  readFields(bytes, (field, _wireType, reader) => {
+    switch (field) {
+      case 1: value = decodeText(readBytes(reader)); return true;
+      case 2: value = readFloat(reader, 4); return true;
+      case 3: value = readFloat(reader, 8); return true;
+      case 4: {
+        // int64: negative values arrive as their 64-bit two's complement
+        const raw = readVarint(reader);
+        value = raw >= 2 ** 63 ? raw - 2 ** 64 : raw;
+        return true;
+      }
+      case 5: value = readVarint(reader); return true;
+      case 6: value = zigzag(readVarint(reader)); return true;
+      case 7: value = readVarint(reader) !== 0; return true;
+      default: return false;
+    }
+  });
+  return value;
+};
+
+// MoveTo starts a ring, LineTo extends it, ClosePath closes it. Points are zigzag
+// deltas from the previous point, across rings.
+const decodeGeometry = (commands: number[]) => {
+  const rings: [number, number][][] = [];
+  let ring: [number, number][] = [];
+  let x = 0;
+  let y = 0;
+
+  for (let i = 0; i < commands.length;) {
+    const command = commands[i] & 7;
+    const count = commands[i++] >> 3;
+
+    if (command === 7) {
+      if (ring.length > 0) ring.push(ring[0]);
+      continue;
+    }
+    for (let n = 0; n < count; n++) {
+      x += zigzag(commands[i++]);
+      y += zigzag(commands[i++]);
+      if (command === 1) {
+        ring = [];
+        rings.push(ring);
+      }
+      ring.push([x, y]);
+    }
+  }
+  return rings;
+};
+
+const decodeLayer = (bytes: Uint8Array): VectorTileLayer => {
+  const layer: VectorTileLayer = { name: '', extent: 4096, features: [] };
+  const keys: string[] = [];
+  const values: (string | number | boolean | undefined)[] = [];
+  const features: { id?: number; type: number; tags: number[]; geometry: number[] }[] = [];
+
+  readFields(bytes, (field, _wireType, reader) => {
+    switch (field) {
+      case 1: layer.name = decodeText(readBytes(reader)); return true;
+      case 3: keys.push(decodeText(readBytes(reader))); return true;
+      case 4: values.push(readValue(readBytes(reader))); return true;
+      case 5: layer.extent = readVarint(reader); return true;
+      case 2: {
+        const feature: (typeof features)[number] = { type: 0, tags: [], geometry: [] };
+        readFields(readBytes(reader), (featureField, _featureWireType, featureReader) => {
+          switch (featureField) {
+            case 1: feature.id = readVarint(featureReader); return true;
+            case 2: feature.tags = readPacked(featureReader); return true;
+            case 3: feature.type = readVarint(featureReader); return true;
+            case 4: feature.geometry = readPacked(featureReader); return true;
+            default: return false;
+          }
+        });
+        features.push(feature);
+        return true;
+      }
+      default: return false;
+    }
+  });
+
+  // Tags refer to keys and values by index, which are only complete once the layer is read
+  layer.features = features.map(({ id, type, tags, geometry }) => {
+    const properties: VectorTileFeature['properties'] = {};
+    for (let i = 0; i + 1 < tags.length; i += 2) {
+      const value = values[tags[i + 1]];
+      if (keys[tags[i]] !== undefined && value !== undefined) properties[keys[tags[i]]] = value;
+    }
+    return { id, type, properties, rings: decodeGeometry(geometry) };
+  });
+  return layer;
+};
+
+export function decodeVectorTile(bytes: Uint8Array): VectorTileLayer[] {
+  const layers: VectorTileLayer[] = [];
+  readFields(bytes, (field, _wireType, reader) => {
+    if (field !== 3) return false;
+    layers.push(decodeLayer(readBytes(reader)));
+    return true;
+  });
+  return layers;
+}
+
+// Surveyor's formula in tile coordinates, where y points down: exterior rings are positive
+const signedArea = (ring: [number, number][]) => {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j][0] - ring[i][0]) * (ring[i][1] + ring[j][1]);
+  }
+  return sum / 2;
+};
+
+export function tilePointToLngLat({ z, x, y }: TileCoordinates, extent: number, [px, py]: [number, number]): LngLat {
+  const size = extent * 2 ** z;
+  const lng = ((x * extent + px) / size) * 360 - 180;
+  const n = Math.PI - (2 * Math.PI * (y * extent + py)) / size;
+  return [lng, (180 / Math.PI) * Math.atan(Math.sinh(n))];
+}
+
+// Polygons of a feature in [lng, lat]: each exterior ring followed by its holes.
+// Rings are reversed, as tiles draw exteriors clockwise and GeoJSON counter-clockwise.
+export function featureToPolygons(
+  feature: VectorTileFeature,
+  tile: TileCoordinates,
+  extent: number
+): PolygonCoordinates[] {
+  const polygons: PolygonCoordinates[] = [];
+
+  feature.rings.forEach(ring => {
+    const area = signedArea(ring);
+    if (area === 0 || ring.length < 4) return;
+
+    const positions: Ring = ring.map(point => tilePointToLngLat(tile, extent, point)).reverse();
+    if (area > 0) polygons.push([positions]);
+    else polygons[polygons.length - 1]?.push(positions);
+  });
+  return polygons;
+}
+
+// Tiles at zoom z covering a [west, south, east, north] box
+export function tilesInBbox([west, south, east, north]: Bbox, z: number): TileCoordinates[] {
+  const count = 2 ** z;
+  const column = (lng: number) => Math.floor(((lng + 180) / 360) * count);
+  const row = (lat: number) => {
+    const clamped = Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI / 180;
+    return Math.floor(((1 - Math.log(Math.tan(clamped) + 1 / Math.cos(clamped)) / Math.PI) / 2) * count);
+  };
+  const clamp = (value: number) => Math.max(0, Math.min(count - 1, value));
+
+  const tiles: TileCoordinates[] = [];
+  for (let x = clamp(column(west)); x <= clamp(column(east)); x++) {
+    for (let y = clamp(row(north)); y <= clamp(row(south)); y++) {
+      tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+}
@@ -0,0 +1,131 @@
+import type { PathOptions } from 'leaflet';
+import type { ZoneTheme } from '@/components/LeafletZoneSelector/types';
+import type { ChoroplethOptions } from './choropleth';
+import type { ComparisonStatus } from './comparison';
+
+export interface ZoneStyleState {
+  selected: boolean;
+  hovered: boolean;
+  highlighted: boolean; // Query preview
+  groupColor?: string;
+  comparison?: ComparisonStatus;
+  fillColor?: string; // Choropleth class colour
+}
+
+interface ZonePalette {
+  stroke: string;
+  hover: string;
+  selected: string;
+  added: string;
+  removed: string;
+  unchanged: string;
+  outline: string; // Unselected zones of a choropleth
+}
+
+// Same colours as the theme variables in LeafletZoneSelector.css
+const PALETTES: Record<'light' | 'dark', ZonePalette> = {
+  light: {
+    stroke: '#3b82f6',
+    hover: '#2563eb',
+    selected: '#1d4ed8',
+    added: '#16a34a',
+    removed: '#dc2626',
+    unchanged: '#6b7280',
+    outline: '#ffffff'
+  },
+  dark: {
+    stroke: '#60a5fa',
+    hover: '#3b82f6',
+    selected: '#2563eb',
+    added: '#4ade80',
+    removed: '#f87171',
+    unchanged: '#9ca3af',
+    outline: '#111827'
+  }
+};
+
+const getPalette = (theme: ZoneTheme): ZonePalette => {
+  if (typeof theme === 'string') return PALETTES[theme] ?? PALETTES.light;
+  if (!('colors' in theme)) return PALETTES[theme.base ?? 'light'] ?? PALETTES.light;
+
+  const { colors } = theme;
+  return {
+    stroke: colors.primary,
+    hover: colors.hover ?? colors.primary,
+    selected: colors.selected ?? colors.secondary,
+    added: colors.success ?? PALETTES.light.added,
+    removed: colors.error ?? PALETTES.light.removed,
+    unchanged: colors.border,
+    outline: colors.background
+  };
+};
+
+export const getThemeChoropleth = (theme: ZoneTheme): ChoroplethOptions | undefined =>
+  typeof theme === 'object' ? theme.choropleth : undefined;
+
+// Comparison colours win over group colours, which win over choropleth and selection
+// colours. A choropleth keeps its class fill and shows the selection in the outline.
+// Hovering thickens the outline and deepens the fill of whatever style applies.
+export function getZoneStyle(state: ZoneStyleState, theme: ZoneTheme = 'light'): PathOptions {
+  const palette = getPalette(theme);
+  const { selected, hovered, highlighted, groupColor, comparison } = state;
+
+  let color = selected ? palette.selected : palette.stroke;
+  let fillOpacity = selected ? 0.3 : 0.1;
+  let weight = selected ? 2 : 1;
+  let dashArray: string | undefined;
+  let fillColor: string | undefined;
+
+  if (comparison) {
+    color = palette[comparison];
+    fillOpacity = comparison === 'removed' ? 0.15 : 0.35;
+    dashArray = comparison === 'removed' ? '6 4' : undefined;
+  } else if (groupColor) {
+    color = groupColor;
+    fillOpacity = 0.35;
+    weight = selected ? 3 : 1;
+  } else if (state.fillColor) {
+    color = selected ? palette.selected : palette.outline;
+    fillColor = state.fillColor;
+    fillOpacity = getThemeChoropleth(theme)?.fillOpacity ?? 0.7;
+    weight = selected ? 3 : 1;
+  }
+
+  if (highlighted) {
+    dashArray = '4 4';
+    weight = Math.max(weight, 2);
+    fillOpacity = Math.max(fillOpacity, 0.2);
+  }
+
+  if (hovered) {
+    color = comparison || groupColor ? color : selected ? palette.selected : palette.hover;
+    weight += 1;
+    fillOpacity = Math.min(fillOpacity + 0.1, 1);
+  }
+
+  return { color, fillColor: fillColor ?? color, fillOpacity, weight, dashArray };
+}
+
+// Style lookup that returns the same object for the same state, so unchanged zones
+// don't trigger a Leaflet setStyle
+export function createZoneStyler(theme: ZoneTheme = 'light') {
+  const cache = new Map<string, PathOptions>();
+
+  return (state: ZoneStyleState): PathOptions => {
+    const key = [
+      state.selected,
+      state.hovered,
+      state.highlighted,
+      state.groupColor ?? '',
+      state.comparison ?? '',
+      state.fillColor ?? ''
+    ].join('|');
+
+    let style = cache.get(key);
+    if (!style) {
+      style = getZoneStyle(state, theme);
+      cache.set(key, style);
+    }
+    return style;
+  };
+}
@@ -226,21 +226,24 @@ describe('LeafletZoneSelector', () => {
     });
 
     it('should initialize with selectedZoneIds', () => {
+      const ref = { current: null } as React.RefObject<LeafletZoneSelectorRef>;
       const zones = [createMockZone('zone-1'), createMockZone('zone-2')];
       const onSelectionChange = jest.fn();
       
       render(
         <LeafletZoneSelector
+          ref={ref}
           zones={zones}
           selectedZoneIds={['zone-1']}
           onSelectionChange={onSelectionChange}
         />
       );
       
-      // Should initialize with zone-1 selected
-      expect(onSelectionChange).toHaveBeenCalledWith([
+      // Should initialize with zone-1 selected, without reporting a change
+      expect(ref.current?.getSelectedZones()).toEqual([
         expect.objectContaining({ id: 'zone-1' })
       ]);
+      expect(onSelectionChange).not.toHaveBeenCalled();
     });
   });
 
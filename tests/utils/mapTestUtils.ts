@@ -1,4 +1,5 @@
 import { fireEvent } from '@testing-library/react';
+import type { Zone, Ring } from '@/types';
 
 export const simulateMapClick = (element: HTMLElement, lat: number, lng: number) => {
   fireEvent.click(element, {
@@ -20,4 +21,38 @@ export const createMockGeoJSON = (id: string, coordinates: number[][][]) => ({
     type: 'Polygon',
     coordinates
   }
-});
\ No newline at end of file
+});
+
+// Counter-clockwise square ring with its south-west corner at [x, y]
+export const square = (x: number, y: number, size: number): Ring => [
+  [x, y],
+  [x + size, y],
+  [x + size, y + size],
+  [x, y + size],
+  [x, y]
+];
+
+export const createZone = (id: string, coordinates: Zone['coordinates'], properties?: Zone['properties']): Zone => ({
+  id,
+  name: `Zone ${id}`,
+  coordinates,
+  ...(properties && { properties })
+});
+
+// Row of touching 0.01° cells near Paris, ids "cell-<col>"
+export const createCellRow = (count = 3): Zone[] => Array.from({ length: count }, (_, col) => ({
+  id: `cell-${col}`,
+  name: `Cell ${col}`,
+  coordinates: square(2.3 + col * 0.01, 48.8, 0.01)
+}));
+
+// Square grid of 0.01° cells near Paris, ids "<row>-<col>"
+export const createCellGrid = (size = 3): Zone[] => Array.from({ length: size * size }, (_, i) => {
+  const row = Math.floor(i / size);
+  const col = i % size;
+  return {
+    id: `${row}-${col}`,
+    name: `Cell ${row}-${col}`,
+    coordinates: square(2.3 + col * 0.01, 48.8 + row * 0.01, 0.01)
+  };
+});